@@ -0,0 +1,273 @@
+/**
+ * Authentication configuration
+ *
+ * Resolves authentication settings from environment variables and an optional
+ * JSON config file. Environment variables take precedence over the file.
+ *
+ * Environment variables:
+ * - CLOUD_SUPPORT_CONFIG: Path to JSON config file (settings under the "auth" key)
+ * - CLOUD_SUPPORT_AUTH_METHOD: Pinned authentication method (gcloud-cli, service-account-key, external-account, application-default, impersonation, fake)
+ * - CLOUD_SUPPORT_AUTH_FALLBACK: Whether to fall back to other methods (true/false, default true)
+ * - CLOUD_SUPPORT_GCLOUD_CONFIGURATION: gcloud named configuration to use
+ * - CLOUD_SUPPORT_GCLOUD_ACCOUNT: gcloud account to use
+ * - CLOUD_SUPPORT_IMPERSONATE_SERVICE_ACCOUNT: Service account to impersonate
+ * - CLOUD_SUPPORT_IMPERSONATION_DELEGATES: Comma-separated delegation chain (service account emails)
+ * - CLOUD_SUPPORT_EXTERNAL_ACCOUNT_CREDENTIALS: external_account credential configuration file
+ *   (defaults to GOOGLE_APPLICATION_CREDENTIALS)
+ * - CLOUD_SUPPORT_QUOTA_PROJECT: Project used for quota and billing (X-Goog-User-Project)
+ */
+
+import { readFileSync } from 'fs';
+import { ConfigurationError } from '../types/errors.js';
+
+/**
+ * Authentication method enumeration
+ */
+export enum AuthMethod {
+  GCLOUD_CLI = 'gcloud-cli',
+  SERVICE_ACCOUNT_KEY = 'service-account-key',
+  EXTERNAL_ACCOUNT = 'external-account',
+  APPLICATION_DEFAULT = 'application-default',
+  IMPERSONATION = 'impersonation',
+  FAKE = 'fake', // Static offline credentials for the mock Support API (never tried unless pinned)
+}
+
+/**
+ * Project of the fake authentication method
+ */
+export const FAKE_AUTH_PROJECT_ID = 'mock-project';
+
+/**
+ * Default authentication method order (used when no method is pinned)
+ * These methods also provide the source credentials for impersonation.
+ */
+export const DEFAULT_AUTH_METHOD_ORDER: readonly AuthMethod[] = [
+  AuthMethod.GCLOUD_CLI,
+  AuthMethod.SERVICE_ACCOUNT_KEY,
+  AuthMethod.EXTERNAL_ACCOUNT,
+  AuthMethod.APPLICATION_DEFAULT,
+];
+
+/**
+ * Authentication configuration type definition
+ */
+export interface AuthConfig {
+  readonly method?: AuthMethod; // Pinned authentication method
+  readonly allowFallback: boolean; // Try other methods when the first one fails
+  readonly gcloudConfiguration?: string; // gcloud --configuration value
+  readonly gcloudAccount?: string; // gcloud account
+  readonly impersonateServiceAccount?: string; // Target service account email
+  readonly impersonationDelegates: readonly string[]; // Delegation chain (service account emails)
+  readonly externalAccountCredentials?: string; // external_account credential configuration file
+  readonly quotaProject?: string; // Quota project (overrides the project of the credentials)
+}
+
+/**
+ * Config file structure (auth section)
+ */
+interface AuthConfigFile {
+  auth?: {
+    method?: string;
+    allowFallback?: boolean;
+    gcloudConfiguration?: string;
+    gcloudAccount?: string;
+    impersonateServiceAccount?: string;
+    impersonationDelegates?: string[];
+    externalAccountCredentials?: string;
+    quotaProject?: string;
+  };
+}
+
+/**
+ * gcloud configuration / account name pattern (prevents option injection)
+ */
+const GCLOUD_VALUE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9@._-]*$/;
+
+/**
+ * Service account email pattern
+ */
+const SERVICE_ACCOUNT_EMAIL_PATTERN =
+  /^[a-z0-9][a-z0-9-]*@[a-z0-9][a-z0-9.-]*\.gserviceaccount\.com$/;
+
+/**
+ * Project ID or project number pattern
+ */
+export const PROJECT_PATTERN = /^([a-z][a-z0-9-]{4,28}[a-z0-9]|[0-9]+)$/;
+
+let cachedConfig: AuthConfig | undefined;
+
+/**
+ * Parse authentication method name
+ */
+function parseAuthMethod(value: string, source: string): AuthMethod {
+  const method = Object.values(AuthMethod).find((candidate) => candidate === value);
+  if (!method) {
+    throw new ConfigurationError(
+      `Invalid authentication method "${value}" in ${source}. Expected one of: ${Object.values(AuthMethod).join(', ')}`,
+      'AUTH_CONFIG_INVALID_METHOD'
+    );
+  }
+  return method;
+}
+
+/**
+ * Parse boolean environment variable
+ */
+function parseBoolean(value: string, source: string): boolean {
+  const normalized = value.trim().toLowerCase();
+  if (['true', '1', 'yes'].includes(normalized)) return true;
+  if (['false', '0', 'no'].includes(normalized)) return false;
+  throw new ConfigurationError(
+    `Invalid boolean "${value}" in ${source}. Expected true or false`,
+    'AUTH_CONFIG_INVALID_BOOLEAN'
+  );
+}
+
+/**
+ * Validate gcloud configuration / account value
+ */
+function validateGcloudValue(value: string | undefined, source: string): string | undefined {
+  if (value !== undefined && !GCLOUD_VALUE_PATTERN.test(value)) {
+    throw new ConfigurationError(
+      `Invalid value "${value}" in ${source}`,
+      'AUTH_CONFIG_INVALID_GCLOUD_VALUE'
+    );
+  }
+  return value;
+}
+
+/**
+ * Validate service account email
+ */
+function validateServiceAccount(value: string, source: string): string {
+  if (!SERVICE_ACCOUNT_EMAIL_PATTERN.test(value)) {
+    throw new ConfigurationError(
+      `Invalid service account "${value}" in ${source}`,
+      'AUTH_CONFIG_INVALID_SERVICE_ACCOUNT'
+    );
+  }
+  return value;
+}
+
+/**
+ * Validate quota project
+ */
+function validateProject(value: string | undefined, source: string): string | undefined {
+  if (value !== undefined && !PROJECT_PATTERN.test(value)) {
+    throw new ConfigurationError(
+      `Invalid project "${value}" in ${source}`,
+      'AUTH_CONFIG_INVALID_PROJECT'
+    );
+  }
+  return value;
+}
+
+/**
+ * Read auth section of the config file
+ */
+function readConfigFile(path: string): NonNullable<AuthConfigFile['auth']> {
+  let parsed: AuthConfigFile;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8')) as AuthConfigFile;
+  } catch (error) {
+    throw new ConfigurationError(
+      `Failed to read config file: ${path}`,
+      'AUTH_CONFIG_FILE_ERROR',
+      error instanceof Error ? error : undefined
+    );
+  }
+  return parsed.auth || {};
+}
+
+/**
+ * Load authentication configuration
+ * The result is cached; call resetAuthConfig() after changing the environment
+ * @returns Authentication configuration
+ * @throws {ConfigurationError} When a setting is invalid
+ */
+export function loadAuthConfig(): AuthConfig {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+
+  const configPath = process.env.CLOUD_SUPPORT_CONFIG;
+  const file = configPath ? readConfigFile(configPath) : {};
+  const fileSource = `config file ${configPath}`;
+
+  const envMethod = process.env.CLOUD_SUPPORT_AUTH_METHOD;
+  const envFallback = process.env.CLOUD_SUPPORT_AUTH_FALLBACK;
+  const envTarget = process.env.CLOUD_SUPPORT_IMPERSONATE_SERVICE_ACCOUNT;
+  const envDelegates = process.env.CLOUD_SUPPORT_IMPERSONATION_DELEGATES;
+
+  const impersonateServiceAccount = envTarget || file.impersonateServiceAccount;
+  const impersonationDelegates = envDelegates
+    ? envDelegates
+        .split(',')
+        .map((delegate) => delegate.trim())
+        .filter(Boolean)
+    : file.impersonationDelegates || [];
+
+  const config: AuthConfig = {
+    method: envMethod
+      ? parseAuthMethod(envMethod, 'CLOUD_SUPPORT_AUTH_METHOD')
+      : file.method
+        ? parseAuthMethod(file.method, fileSource)
+        : undefined,
+    allowFallback: envFallback
+      ? parseBoolean(envFallback, 'CLOUD_SUPPORT_AUTH_FALLBACK')
+      : (file.allowFallback ?? true),
+    gcloudConfiguration: validateGcloudValue(
+      process.env.CLOUD_SUPPORT_GCLOUD_CONFIGURATION || file.gcloudConfiguration,
+      'gcloud configuration'
+    ),
+    gcloudAccount: validateGcloudValue(
+      process.env.CLOUD_SUPPORT_GCLOUD_ACCOUNT || file.gcloudAccount,
+      'gcloud account'
+    ),
+    impersonateServiceAccount:
+      impersonateServiceAccount &&
+      validateServiceAccount(impersonateServiceAccount, 'impersonation target'),
+    impersonationDelegates: impersonationDelegates.map((delegate) =>
+      validateServiceAccount(delegate, 'impersonation delegates')
+    ),
+    externalAccountCredentials:
+      process.env.CLOUD_SUPPORT_EXTERNAL_ACCOUNT_CREDENTIALS || file.externalAccountCredentials,
+    quotaProject: validateProject(
+      process.env.CLOUD_SUPPORT_QUOTA_PROJECT || file.quotaProject,
+      'quota project'
+    ),
+  };
+
+  if (config.method === AuthMethod.IMPERSONATION && !config.impersonateServiceAccount) {
+    throw new ConfigurationError(
+      `Authentication method "${config.method}" requires CLOUD_SUPPORT_IMPERSONATE_SERVICE_ACCOUNT`,
+      'AUTH_CONFIG_MISSING_IMPERSONATION_TARGET'
+    );
+  }
+
+  cachedConfig = config;
+  return cachedConfig;
+}
+
+/**
+ * Reset cached authentication configuration
+ */
+export function resetAuthConfig(): void {
+  cachedConfig = undefined;
+}
+
+/**
+ * Get authentication methods to try, in order
+ * Impersonation is tried first when a target service account is configured
+ * @param config Authentication configuration
+ * @returns Pinned method first (if any), followed by fallbacks when allowed
+ */
+export function getAuthMethodOrder(config: AuthConfig = loadAuthConfig()): AuthMethod[] {
+  const first =
+    config.method ?? (config.impersonateServiceAccount ? AuthMethod.IMPERSONATION : undefined);
+  const order = first
+    ? [first, ...DEFAULT_AUTH_METHOD_ORDER.filter((method) => method !== first)]
+    : [...DEFAULT_AUTH_METHOD_ORDER];
+
+  return config.allowFallback ? order : order.slice(0, 1);
+}
@@ -5,25 +5,52 @@
  * Supports multiple authentication methods and provides fallback functionality:
  * 1. gcloud CLI
  * 2. Service account key (GOOGLE_APPLICATION_CREDENTIALS)
- * 3. Application Default Credentials (ADC)
+ * 3. External account credentials (Workload Identity Federation)
+ * 4. Application Default Credentials (ADC)
+ * 5. Service account impersonation (IAM Credentials generateAccessToken, using
+ *    one of the methods above as source credentials)
+ * 6. Fake credentials for the offline mock Support API (only when pinned)
+ *
+ * The method order, fallback behavior and gcloud configuration/account can be
+ * configured (see auth-config.ts).
+ *
+ * Access tokens and the project ID are cached (see credential-cache.ts) so that
+ * consecutive API calls do not spawn gcloud processes or re-read credentials.
  */
 
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { readFile } from 'fs/promises';
+import { createHash } from 'crypto';
 import { GoogleAuth } from 'google-auth-library';
+import { CredentialCache, type CachedCredential } from './credential-cache.js';
+import {
+  AuthMethod,
+  DEFAULT_AUTH_METHOD_ORDER,
+  FAKE_AUTH_PROJECT_ID,
+  getAuthMethodOrder,
+  loadAuthConfig,
+} from './auth-config.js';
+import { generateImpersonatedAccessToken } from './impersonation.js';
+import {
+  EXTERNAL_ACCOUNT_TYPE,
+  getExternalAccountAccessToken,
+  getExternalAccountQuotaProject,
+  getImpersonatedServiceAccount,
+  readExternalAccountCredentials,
+} from './external-account.js';
+import { getRequestContext } from './request-context.js';
+import { clearVerifiedQuotaProjects, verifyQuotaProject } from './quota-project.js';
+
+export { AuthMethod };
 
 // Promisify exec from child_process
 const execAsync = promisify(exec);
 
 /**
- * Authentication method enumeration
+ * Token information endpoint (used to look up the principal of a token)
  */
-export enum AuthMethod {
-  GCLOUD_CLI = 'gcloud-cli',
-  SERVICE_ACCOUNT_KEY = 'service-account-key',
-  APPLICATION_DEFAULT = 'application-default',
-}
+const TOKEN_INFO_URL = 'https://oauth2.googleapis.com/tokeninfo';
 
 /**
  * Authentication result type definition
@@ -33,18 +60,104 @@ export interface AuthResult {
   method: AuthMethod;
 }
 
+/**
+ * Method reported for calls using the caller's own token (HTTP passthrough mode)
+ */
+export const CALLER_TOKEN_METHOD = 'caller-token';
+
+/**
+ * Active identity information (never includes the access token)
+ */
+export interface AuthIdentity {
+  method: AuthMethod | typeof CALLER_TOKEN_METHOD;
+  principal?: string;
+  quotaProject: string;
+  tokenExpiresAt?: string;
+  pinnedMethod?: AuthMethod;
+  allowFallback: boolean;
+  gcloudConfiguration?: string;
+  gcloudAccount?: string;
+  impersonationDelegates?: readonly string[];
+}
+
+/**
+ * Assumed lifetime of tokens whose expiry is unknown (5 minutes)
+ *
+ * gcloud does not report token expiry and may print a cached token that is
+ * already partly used, so this stays well below the usual 1 hour lifetime.
+ */
+const DEFAULT_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Access token of the fake authentication method
+ */
+const FAKE_ACCESS_TOKEN = 'fake-access-token';
+
+/**
+ * Principal of the fake authentication method
+ */
+const FAKE_PRINCIPAL = 'mock-user@example.com';
+
+/**
+ * Access token with expiry time
+ */
+interface TokenInfo {
+  token: string;
+  expiresAt: number; // Epoch milliseconds
+}
+
+/**
+ * Try providers for each method in order and return the first successful result
+ * @throws When all methods fail (message lists the error of each method)
+ */
+async function resolveWithFallback<T>(
+  methods: readonly AuthMethod[],
+  providers: Record<AuthMethod, () => Promise<T>>,
+  description: string
+): Promise<{ method: AuthMethod; value: T }> {
+  const errors: Error[] = [];
+
+  for (const method of methods) {
+    try {
+      return { method, value: await providers[method]() };
+    } catch (error) {
+      errors.push(new Error(`${method}: ${error}`));
+    }
+  }
+
+  const errorMessages = errors.map((e) => e.message).join('; ');
+  throw new Error(`Failed to get ${description} using any method: ${errorMessages}`);
+}
+
+/**
+ * Build gcloud command with configured configuration/account options
+ * Values are validated in auth-config.ts, so they are safe to pass to the shell
+ */
+function gcloudCommand(command: string, includeAccount: boolean = false): string {
+  const { gcloudConfiguration, gcloudAccount } = loadAuthConfig();
+  const parts = [`gcloud ${command}`];
+  if (includeAccount && gcloudAccount) {
+    parts.push(gcloudAccount);
+  }
+  if (gcloudConfiguration) {
+    parts.push(`--configuration=${gcloudConfiguration}`);
+  }
+  return parts.join(' ');
+}
+
 /**
  * Get access token using gcloud CLI
  */
-async function getAccessTokenFromGcloud(): Promise<string> {
-  const { stdout } = await execAsync('gcloud auth print-access-token');
-  return stdout.trim();
+async function getAccessTokenFromGcloud(): Promise<TokenInfo> {
+  const { stdout } = await execAsync(gcloudCommand('auth print-access-token', true));
+  return { token: stdout.trim(), expiresAt: Date.now() + DEFAULT_TOKEN_TTL_MS };
 }
 
 /**
- * Get access token from service account key file
+ * Read service account key file (GOOGLE_APPLICATION_CREDENTIALS)
+ * external_account configurations are handled by the external-account method
  */
-async function getAccessTokenFromServiceAccount(): Promise<string> {
+async function readServiceAccountKey() {
   const credentialsPath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
   if (!credentialsPath) {
     throw new Error('GOOGLE_APPLICATION_CREDENTIALS environment variable not set');
@@ -53,6 +166,21 @@ async function getAccessTokenFromServiceAccount(): Promise<string> {
   const credentialsContent = await readFile(credentialsPath, 'utf8');
   const credentials = JSON.parse(credentialsContent);
 
+  if (credentials.type === EXTERNAL_ACCOUNT_TYPE) {
+    throw new Error(
+      `${credentialsPath} is an ${EXTERNAL_ACCOUNT_TYPE} configuration; use the ${AuthMethod.EXTERNAL_ACCOUNT} method`
+    );
+  }
+
+  return credentials;
+}
+
+/**
+ * Get access token from service account key file
+ */
+async function getAccessTokenFromServiceAccount(): Promise<TokenInfo> {
+  const credentials = await readServiceAccountKey();
+
   const auth = new GoogleAuth({
     credentials,
     scopes: ['https://www.googleapis.com/auth/cloud-platform'],
@@ -65,13 +193,40 @@ async function getAccessTokenFromServiceAccount(): Promise<string> {
     throw new Error('Failed to obtain access token from service account');
   }
 
-  return accessTokenResponse.token;
+  return {
+    token: accessTokenResponse.token,
+    expiresAt: client.credentials.expiry_date ?? Date.now() + DEFAULT_TOKEN_TTL_MS,
+  };
+}
+
+/**
+ * Read external account credential configuration
+ * Uses CLOUD_SUPPORT_EXTERNAL_ACCOUNT_CREDENTIALS, falling back to GOOGLE_APPLICATION_CREDENTIALS
+ */
+async function readExternalAccountConfig() {
+  const credentialsPath =
+    loadAuthConfig().externalAccountCredentials || process.env.GOOGLE_APPLICATION_CREDENTIALS;
+  if (!credentialsPath) {
+    throw new Error('CLOUD_SUPPORT_EXTERNAL_ACCOUNT_CREDENTIALS environment variable not set');
+  }
+
+  return readExternalAccountCredentials(credentialsPath);
+}
+
+/**
+ * Get access token from external account credentials (Workload Identity Federation)
+ */
+async function getAccessTokenFromExternalAccount(): Promise<TokenInfo> {
+  const { token, expiresAt } = await getExternalAccountAccessToken(
+    await readExternalAccountConfig()
+  );
+  return { token, expiresAt: expiresAt ?? Date.now() + DEFAULT_TOKEN_TTL_MS };
 }
 
 /**
  * Get access token from Application Default Credentials (ADC)
  */
-async function getAccessTokenFromADC(): Promise<string> {
+async function getAccessTokenFromADC(): Promise<TokenInfo> {
   const auth = new GoogleAuth({
     scopes: ['https://www.googleapis.com/auth/cloud-platform'],
   });
@@ -83,35 +238,73 @@ async function getAccessTokenFromADC(): Promise<string> {
     throw new Error('Failed to obtain access token from ADC');
   }
 
-  return accessTokenResponse.token;
+  return {
+    token: accessTokenResponse.token,
+    expiresAt: client.credentials.expiry_date ?? Date.now() + DEFAULT_TOKEN_TTL_MS,
+  };
 }
 
 /**
- * Get Google Cloud access token
+ * Get access token of the configured target service account via impersonation
+ * Source credentials come from the non-impersonation methods, tried in default order
+ */
+async function getAccessTokenFromImpersonation(): Promise<TokenInfo> {
+  const { impersonateServiceAccount, impersonationDelegates } = loadAuthConfig();
+  if (!impersonateServiceAccount) {
+    throw new Error('CLOUD_SUPPORT_IMPERSONATE_SERVICE_ACCOUNT environment variable not set');
+  }
+
+  const { value: source } = await resolveWithFallback(
+    DEFAULT_AUTH_METHOD_ORDER,
+    accessTokenProviders,
+    'source credentials for impersonation'
+  );
+
+  return generateImpersonatedAccessToken(source.token, {
+    targetServiceAccount: impersonateServiceAccount,
+    delegates: impersonationDelegates,
+  });
+}
+
+/**
+ * Access token providers for each authentication method
+ */
+const accessTokenProviders: Record<AuthMethod, () => Promise<TokenInfo>> = {
+  [AuthMethod.GCLOUD_CLI]: getAccessTokenFromGcloud,
+  [AuthMethod.SERVICE_ACCOUNT_KEY]: getAccessTokenFromServiceAccount,
+  [AuthMethod.EXTERNAL_ACCOUNT]: getAccessTokenFromExternalAccount,
+  [AuthMethod.APPLICATION_DEFAULT]: getAccessTokenFromADC,
+  [AuthMethod.IMPERSONATION]: getAccessTokenFromImpersonation,
+  [AuthMethod.FAKE]: async () => ({ token: FAKE_ACCESS_TOKEN, expiresAt: Infinity }),
+};
+
+/**
+ * Resolve access token without cache
  * Tries multiple authentication methods in order and uses the first successful method
- * @returns Access token and authentication method used
  * @throws When all authentication methods fail
  */
-export async function getAccessToken(): Promise<string> {
-  const authMethods = [
-    { method: AuthMethod.GCLOUD_CLI, fn: getAccessTokenFromGcloud },
-    { method: AuthMethod.SERVICE_ACCOUNT_KEY, fn: getAccessTokenFromServiceAccount },
-    { method: AuthMethod.APPLICATION_DEFAULT, fn: getAccessTokenFromADC },
-  ];
-
-  const errors: Error[] = [];
+async function resolveAccessToken(): Promise<CachedCredential<AuthResult>> {
+  const {
+    method,
+    value: { token, expiresAt },
+  } = await resolveWithFallback(getAuthMethodOrder(), accessTokenProviders, 'access token');
+  return { value: { accessToken: token, method }, expiresAt };
+}
 
-  for (const { method, fn } of authMethods) {
-    try {
-      const accessToken = await fn();
-      return accessToken;
-    } catch (error) {
-      errors.push(new Error(`${method}: ${error}`));
-    }
-  }
+/**
+ * Access token cache (refreshed shortly before expiry)
+ */
+const accessTokenCache = new CredentialCache<AuthResult>('access-token', resolveAccessToken);
 
-  const errorMessages = errors.map((e) => e.message).join('; ');
-  throw new Error(`Failed to get access token using any method: ${errorMessages}`);
+/**
+ * Get Google Cloud access token
+ * Returns the cached token while it is valid, otherwise resolves a new one
+ * @returns Access token
+ * @throws When all authentication methods fail
+ */
+export async function getAccessToken(): Promise<string> {
+  const { accessToken } = await accessTokenCache.get();
+  return accessToken;
 }
 
 /**
@@ -119,32 +312,22 @@ export async function getAccessToken(): Promise<string> {
  * @returns Authentication result object
  */
 export async function getAccessTokenWithMethod(): Promise<AuthResult> {
-  const authMethods = [
-    { method: AuthMethod.GCLOUD_CLI, fn: getAccessTokenFromGcloud },
-    { method: AuthMethod.SERVICE_ACCOUNT_KEY, fn: getAccessTokenFromServiceAccount },
-    { method: AuthMethod.APPLICATION_DEFAULT, fn: getAccessTokenFromADC },
-  ];
-
-  const errors: Error[] = [];
-
-  for (const { method, fn } of authMethods) {
-    try {
-      const accessToken = await fn();
-      return { accessToken, method };
-    } catch (error) {
-      errors.push(new Error(`${method}: ${error}`));
-    }
-  }
+  return accessTokenCache.get();
+}
 
-  const errorMessages = errors.map((e) => e.message).join('; ');
-  throw new Error(`Failed to get access token using any method: ${errorMessages}`);
+/**
+ * Invalidate cached access token
+ * Call when the API rejects the token so the next request obtains a new one
+ */
+export function invalidateAccessToken(): void {
+  accessTokenCache.invalidate();
 }
 
 /**
  * Get project ID from gcloud CLI
  */
 async function getProjectIdFromGcloud(): Promise<string> {
-  const { stdout } = await execAsync('gcloud config get-value project');
+  const { stdout } = await execAsync(gcloudCommand('config get-value project'));
   return stdout.trim();
 }
 
@@ -152,13 +335,7 @@ async function getProjectIdFromGcloud(): Promise<string> {
  * Get project ID from service account key file
  */
 async function getProjectIdFromServiceAccount(): Promise<string> {
-  const credentialsPath = process.env.GOOGLE_APPLICATION_CREDENTIALS;
-  if (!credentialsPath) {
-    throw new Error('GOOGLE_APPLICATION_CREDENTIALS environment variable not set');
-  }
-
-  const credentialsContent = await readFile(credentialsPath, 'utf8');
-  const credentials = JSON.parse(credentialsContent);
+  const credentials = await readServiceAccountKey();
 
   if (!credentials.project_id) {
     throw new Error('project_id not found in service account credentials');
@@ -167,6 +344,24 @@ async function getProjectIdFromServiceAccount(): Promise<string> {
   return credentials.project_id;
 }
 
+/**
+ * Get quota project from external account credentials
+ * Federated identities have no project of their own, so the project must be
+ * declared in the configuration (quota_project_id / workforce_pool_user_project)
+ * or set with CLOUD_SUPPORT_QUOTA_PROJECT
+ */
+async function getProjectIdFromExternalAccount(): Promise<string> {
+  const projectId = getExternalAccountQuotaProject(await readExternalAccountConfig());
+
+  if (!projectId) {
+    throw new Error(
+      'quota_project_id not found in external account credentials; set CLOUD_SUPPORT_QUOTA_PROJECT'
+    );
+  }
+
+  return projectId;
+}
+
 /**
  * Get project ID from ADC
  */
@@ -181,41 +376,256 @@ async function getProjectIdFromADC(): Promise<string> {
   return projectId;
 }
 
+/**
+ * Get project ID when impersonating
+ * Uses the project of the source credentials, falling back to the project that
+ * owns the target service account (name@{project}.iam.gserviceaccount.com)
+ */
+async function getProjectIdFromImpersonation(): Promise<string> {
+  try {
+    const { value } = await resolveWithFallback(
+      DEFAULT_AUTH_METHOD_ORDER,
+      projectIdProviders,
+      'source project ID'
+    );
+    return value;
+  } catch (error) {
+    const { impersonateServiceAccount } = loadAuthConfig();
+    const match = impersonateServiceAccount?.match(/@([a-z0-9-]+)\.iam\.gserviceaccount\.com$/);
+    if (!match) {
+      throw error;
+    }
+    return match[1];
+  }
+}
+
+/**
+ * Project ID providers for each authentication method
+ */
+const projectIdProviders: Record<AuthMethod, () => Promise<string>> = {
+  [AuthMethod.GCLOUD_CLI]: getProjectIdFromGcloud,
+  [AuthMethod.SERVICE_ACCOUNT_KEY]: getProjectIdFromServiceAccount,
+  [AuthMethod.EXTERNAL_ACCOUNT]: getProjectIdFromExternalAccount,
+  [AuthMethod.APPLICATION_DEFAULT]: getProjectIdFromADC,
+  [AuthMethod.IMPERSONATION]: getProjectIdFromImpersonation,
+  [AuthMethod.FAKE]: async () => FAKE_AUTH_PROJECT_ID,
+};
+
+/**
+ * Resolve current Google Cloud project ID without cache
+ * Uses the configured quota project when set, otherwise tries multiple methods in
+ * order and uses the first successful method
+ * @throws When all methods fail
+ */
+async function resolveProjectId(): Promise<string> {
+  const { quotaProject } = loadAuthConfig();
+  if (quotaProject) {
+    return quotaProject;
+  }
+
+  const { value } = await resolveWithFallback(
+    getAuthMethodOrder(),
+    projectIdProviders,
+    'current project ID'
+  );
+  return value;
+}
+
+/**
+ * Project ID cache (resolved once per process)
+ */
+const projectIdCache = new CredentialCache<string>('project-id', async () => ({
+  value: await resolveProjectId(),
+  expiresAt: Infinity,
+}));
+
 /**
  * Get current Google Cloud project ID
- * Tries multiple methods in order and uses the first successful method
  * @returns Project ID string
  * @throws When all methods fail
  */
 export async function getCurrentProjectId(): Promise<string> {
-  const projectIdMethods = [
-    { method: 'gcloud-cli', fn: getProjectIdFromGcloud },
-    { method: 'service-account-key', fn: getProjectIdFromServiceAccount },
-    { method: 'application-default', fn: getProjectIdFromADC },
-  ];
+  return projectIdCache.get();
+}
 
-  const errors: Error[] = [];
+/**
+ * Resolve quota project for the current request
+ * Explicit quota projects (per-call override or CLOUD_SUPPORT_QUOTA_PROJECT) are
+ * verified; otherwise the project of the credentials is used
+ * @param accessToken Access token of the caller (used for verification)
+ * @param callerScope Cache scope of the verification result
+ * @throws {ConfigurationError} When an explicit quota project cannot be used
+ */
+async function resolveQuotaProject(accessToken: string, callerScope?: string): Promise<string> {
+  const config = loadAuthConfig();
+  const quotaProject = getRequestContext().quotaProject ?? config.quotaProject;
+  if (!quotaProject) {
+    return getCurrentProjectId();
+  }
 
-  for (const { method, fn } of projectIdMethods) {
-    try {
-      const projectId = await fn();
-      return projectId;
-    } catch (error) {
-      errors.push(new Error(`${method}: ${error}`));
-    }
+  // Fake credentials cannot be checked against Resource Manager
+  if (config.method === AuthMethod.FAKE) {
+    return quotaProject;
   }
 
-  const errorMessages = errors.map((e) => e.message).join('; ');
-  throw new Error(`Failed to get current project ID using any method: ${errorMessages}`);
+  await verifyQuotaProject(quotaProject, accessToken, callerScope);
+  return quotaProject;
+}
+
+/**
+ * Get the caller's access token of the current request (HTTP passthrough mode)
+ * @returns Caller token and its verification cache scope, or undefined when the server identity is used
+ */
+function getCallerToken(): { accessToken: string; callerScope: string } | undefined {
+  const { accessToken } = getRequestContext();
+  if (!accessToken) {
+    return undefined;
+  }
+
+  return {
+    accessToken,
+    callerScope: createHash('sha256').update(accessToken).digest('hex').slice(0, 32),
+  };
+}
+
+/**
+ * Get principal (account email) from gcloud CLI
+ */
+async function getPrincipalFromGcloud(): Promise<string | undefined> {
+  const { gcloudAccount } = loadAuthConfig();
+  if (gcloudAccount) {
+    return gcloudAccount;
+  }
+
+  const { stdout } = await execAsync(gcloudCommand('config get-value account'));
+  return stdout.trim() || undefined;
+}
+
+/**
+ * Get principal (client_email) from service account key file
+ */
+async function getPrincipalFromServiceAccount(): Promise<string | undefined> {
+  const credentials = await readServiceAccountKey();
+  return credentials.client_email;
+}
+
+/**
+ * Get principal from external account credentials
+ * Reports the impersonated service account, or the workload identity pool provider
+ */
+async function getPrincipalFromExternalAccount(): Promise<string | undefined> {
+  const credentials = await readExternalAccountConfig();
+  return getImpersonatedServiceAccount(credentials) || credentials.audience;
+}
+
+/**
+ * Get principal (client_email) from ADC when it is a service account
+ */
+async function getPrincipalFromADC(): Promise<string | undefined> {
+  const auth = new GoogleAuth();
+  const credentials = await auth.getCredentials();
+  return credentials.client_email;
+}
+
+/**
+ * Principal providers for each authentication method
+ */
+const principalProviders: Record<AuthMethod, () => Promise<string | undefined>> = {
+  [AuthMethod.GCLOUD_CLI]: getPrincipalFromGcloud,
+  [AuthMethod.SERVICE_ACCOUNT_KEY]: getPrincipalFromServiceAccount,
+  [AuthMethod.EXTERNAL_ACCOUNT]: getPrincipalFromExternalAccount,
+  [AuthMethod.APPLICATION_DEFAULT]: getPrincipalFromADC,
+  [AuthMethod.IMPERSONATION]: async () => loadAuthConfig().impersonateServiceAccount,
+  [AuthMethod.FAKE]: async () => FAKE_PRINCIPAL,
+};
+
+/**
+ * Look up principal email of an access token via the token info endpoint
+ * The token is sent in the request body, never in the URL
+ */
+async function getPrincipalFromTokenInfo(accessToken: string): Promise<string | undefined> {
+  const response = await fetch(TOKEN_INFO_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ access_token: accessToken }).toString(),
+  });
+  if (!response.ok) {
+    return undefined;
+  }
+
+  const tokenInfo = (await response.json()) as { email?: string };
+  return tokenInfo.email;
+}
+
+/**
+ * Get information about the active identity
+ * Reports method, principal and quota project without revealing the access token
+ * @returns Active identity information
+ */
+export async function getAuthIdentity(): Promise<AuthIdentity> {
+  const caller = getCallerToken();
+  if (caller) {
+    const config = loadAuthConfig();
+    return {
+      method: CALLER_TOKEN_METHOD,
+      principal: await getPrincipalFromTokenInfo(caller.accessToken).catch(() => undefined),
+      quotaProject: await resolveQuotaProject(caller.accessToken, caller.callerScope),
+      allowFallback: config.allowFallback,
+    };
+  }
+
+  const { accessToken, method } = await accessTokenCache.get();
+  const quotaProject = await resolveQuotaProject(accessToken);
+  const config = loadAuthConfig();
+
+  let principal: string | undefined;
+  try {
+    principal =
+      (await principalProviders[method]()) || (await getPrincipalFromTokenInfo(accessToken));
+  } catch {
+    // Principal lookup is best-effort
+    principal = undefined;
+  }
+
+  const expiresAt = accessTokenCache.peek()?.expiresAt;
+
+  return {
+    method,
+    principal,
+    quotaProject,
+    tokenExpiresAt:
+      expiresAt !== undefined && Number.isFinite(expiresAt)
+        ? new Date(expiresAt).toISOString()
+        : undefined,
+    pinnedMethod: config.method,
+    allowFallback: config.allowFallback,
+    gcloudConfiguration: config.gcloudConfiguration,
+    gcloudAccount: config.gcloudAccount,
+    impersonationDelegates:
+      method === AuthMethod.IMPERSONATION ? config.impersonationDelegates : undefined,
+  };
+}
+
+/**
+ * Clear all cached credentials
+ */
+export function clearCredentialCache(): void {
+  accessTokenCache.invalidate();
+  projectIdCache.invalidate();
+  clearVerifiedQuotaProjects();
 }
 
 /**
  * Generate authentication headers for Google Cloud Support API
+ * Uses the caller's token in HTTP passthrough mode, otherwise the server identity.
+ * X-Goog-User-Project is the quota project of the current request
  * @returns Authentication header object
+ * @throws {ConfigurationError} When the configured quota project cannot be used
  */
 export async function getAuthHeaders(): Promise<Record<string, string>> {
-  const accessToken = await getAccessToken();
-  const projectId = await getCurrentProjectId();
+  const caller = getCallerToken();
+  const accessToken = caller?.accessToken ?? (await getAccessToken());
+  const projectId = await resolveQuotaProject(accessToken, caller?.callerScope);
 
   return {
     Authorization: `Bearer ${accessToken}`,
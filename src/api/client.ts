@@ -1,15 +1,50 @@
 /**
- * Google Cloud Support API v2 client
+ * Google Cloud Support API client (v2 and v2beta)
  */
 
-import { getAuthHeaders } from './auth.js';
+import { randomUUID } from 'crypto';
+import { createWriteStream } from 'fs';
+import { rm } from 'fs/promises';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { getAuthHeaders, invalidateAccessToken } from './auth.js';
+import { ConfigurationError } from '../types/errors.js';
 import type { JsonSerializable, ApiRequestBody } from '../types/api-request-types.js';
+import type {
+  ApiVersion,
+  CaseReadMethod,
+  CaseReadMethodResponse,
+  ErrorResponse,
+  GoogleApiErrorDetails,
+} from '../types/api-response-types.js';
+import { extractErrorDetails, getServerRetryDelay, parseErrorResponse } from './error-response.js';
 
 /**
  * Base URL for Google Cloud Support API
  */
 export const SUPPORT_API_BASE_URL = 'https://cloudsupport.googleapis.com';
 
+/**
+ * Path suffix of each case read method, by API version
+ */
+const CASE_READ_METHOD_PATHS: {
+  readonly [V in ApiVersion]: Readonly<Record<CaseReadMethod<V>, string>>;
+} = {
+  v2: {
+    getCase: '',
+    listComments: '/comments',
+    listAttachments: '/attachments',
+  },
+  v2beta: {
+    getCase: '',
+    listComments: '/comments',
+    listAttachments: '/attachments',
+    showFeed: ':showFeed',
+    listEmailMessages: '/emailMessages',
+  },
+};
+
 /**
  * Request body type definition
  *
@@ -17,6 +52,19 @@ export const SUPPORT_API_BASE_URL = 'https://cloudsupport.googleapis.com';
  */
 export type RequestBody = ApiRequestBody | JsonSerializable | string | null;
 
+/**
+ * Multipart (media upload) request payload
+ *
+ * Sent as multipart/related: a JSON metadata part followed by the media part
+ */
+export interface MultipartUpload {
+  readonly metadata: JsonSerializable;
+  readonly media: {
+    readonly data: Uint8Array;
+    readonly mimeType: string;
+  };
+}
+
 /**
  * API request options
  *
@@ -24,9 +72,26 @@ export type RequestBody = ApiRequestBody | JsonSerializable | string | null;
 export interface ApiRequestOptions {
   readonly method?: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
   readonly body?: RequestBody;
+  readonly multipart?: MultipartUpload;
   readonly queryParams?: Readonly<Record<string, string | number | boolean | undefined>>;
 }
 
+/**
+ * Preview of a request that would be sent (dry run)
+ * Multipart uploads are described by their metadata and media size instead of the raw bytes.
+ */
+export interface ApiRequestPreview {
+  readonly method: NonNullable<ApiRequestOptions['method']>;
+  readonly url: string;
+  readonly endpoint: string;
+  readonly queryParams: Readonly<Record<string, string>>;
+  readonly body?: JsonSerializable | string;
+  readonly multipart?: {
+    readonly metadata: JsonSerializable;
+    readonly media: { readonly mimeType: string; readonly sizeBytes: number };
+  };
+}
+
 /**
  * API response type
  *
@@ -37,19 +102,79 @@ export interface ApiResponse<TData = unknown> {
   readonly headers: Headers;
 }
 
+/**
+ * Media download result type
+ *
+ */
+export interface DownloadResult {
+  readonly bytesWritten: number;
+  readonly contentType?: string;
+  readonly status: number;
+  readonly headers: Headers;
+}
+
+/**
+ * Hard upper bound on items collected by automatic pagination
+ */
+export const MAX_PAGINATED_ITEMS = 1000;
+
+/**
+ * Hard upper bound on pages fetched by automatic pagination
+ */
+export const MAX_PAGINATED_PAGES = 50;
+
+/**
+ * Paginated list response shape (items are stored under a resource-specific key)
+ */
+export interface PageResponse {
+  readonly nextPageToken?: string;
+}
+
+/**
+ * Automatic pagination options
+ *
+ */
+export interface PaginationOptions {
+  readonly maxItems?: number;
+}
+
+/**
+ * Automatic pagination result type
+ *
+ */
+export interface PaginatedResult<TItem> {
+  readonly items: TItem[];
+  readonly truncated: boolean;
+  readonly pagesFetched: number;
+  readonly nextPageToken?: string;
+}
+
 /**
  * API error type
+ * response holds the parsed error envelope, or the raw body when it is not one.
+ * retryAfterMs is the delay requested by the server (RetryInfo or Retry-After).
  *
  */
 export class ApiError extends Error {
   constructor(
     message: string,
     public readonly status: number,
-    public readonly response?: JsonSerializable | string | null
+    public readonly response?: ErrorResponse | string | null,
+    public readonly retryAfterMs?: number,
+    public readonly statusText?: string
   ) {
     super(message);
     this.name = 'ApiError';
   }
+
+  /**
+   * Typed details of the error envelope (undefined when the body was not one)
+   */
+  get details(): GoogleApiErrorDetails | undefined {
+    return this.response && typeof this.response === 'object'
+      ? extractErrorDetails(this.response)
+      : undefined;
+  }
 }
 
 /**
@@ -57,10 +182,71 @@ export class ApiError extends Error {
  *
  */
 export class CloudSupportApiClient {
-  private readonly baseUrl: string;
+  private readonly explicitBaseUrl?: string;
+
+  /**
+   * @param baseUrl API base URL (default: CLOUD_SUPPORT_API_BASE_URL, then SUPPORT_API_BASE_URL)
+   */
+  constructor(baseUrl?: string) {
+    this.explicitBaseUrl = baseUrl;
+  }
+
+  /**
+   * API base URL
+   * Resolved per request so the shared client follows CLOUD_SUPPORT_API_BASE_URL
+   * set after import (e.g. by mock mode).
+   */
+  get baseUrl(): string {
+    return (
+      this.explicitBaseUrl ||
+      process.env.CLOUD_SUPPORT_API_BASE_URL ||
+      SUPPORT_API_BASE_URL
+    ).replace(/\/+$/, '');
+  }
 
-  constructor(baseUrl: string = SUPPORT_API_BASE_URL) {
-    this.baseUrl = baseUrl;
+  /**
+   * Build endpoint for a resource in the given API version
+   *
+   * @param version API version
+   * @param resourcePath Resource name or collection path (e.g. projects/{project}/cases)
+   * @returns API endpoint (e.g. /v2beta/projects/{project}/cases)
+   */
+  versionedEndpoint(version: ApiVersion, resourcePath: string): string {
+    return `/${version}/${resourcePath}`;
+  }
+
+  /**
+   * Build endpoint of a case read method
+   *
+   * @param version API version (v2beta-only methods cannot be requested from v2)
+   * @param method Case read method
+   * @param caseName Case resource name
+   * @returns API endpoint (e.g. /v2beta/projects/{project}/cases/{case}:showFeed)
+   */
+  caseMethodEndpoint<V extends ApiVersion>(
+    version: V,
+    method: CaseReadMethod<V>,
+    caseName: string
+  ): string {
+    const paths: Readonly<Record<string, string>> = CASE_READ_METHOD_PATHS[version];
+    return this.versionedEndpoint(version, `${caseName}${paths[method]}`);
+  }
+
+  /**
+   * Send GET request to a case read method
+   * The response type is resolved from the API version and method.
+   *
+   */
+  async readCase<V extends ApiVersion, M extends CaseReadMethod<V>>(
+    version: V,
+    method: M,
+    caseName: string,
+    queryParams?: Readonly<Record<string, string | number | boolean | undefined>>
+  ): Promise<ApiResponse<CaseReadMethodResponse<V, M>>> {
+    return this.get<CaseReadMethodResponse<V, M>>(
+      this.caseMethodEndpoint(version, method, caseName),
+      queryParams
+    );
   }
 
   /**
@@ -75,27 +261,26 @@ export class CloudSupportApiClient {
     endpoint: string,
     options: ApiRequestOptions = {}
   ): Promise<ApiResponse<TData>> {
-    const { method = 'GET', body, queryParams } = options;
+    const { method = 'GET', body, multipart, queryParams } = options;
 
-    // Build URL
-    const url = new URL(`${this.baseUrl}${endpoint}`);
-
-    // Add query parameters
-    if (queryParams) {
-      Object.entries(queryParams).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          url.searchParams.append(key, String(value));
-        }
-      });
-    }
+    const url = this.buildUrl(endpoint, queryParams);
 
     try {
       // Get authentication headers
       const authHeaders = await getAuthHeaders();
+      let headers: Record<string, string> = authHeaders;
 
       // Validate and prepare request body
-      let requestBody: string | undefined;
-      if (body !== null && body !== undefined) {
+      let requestBody: BodyInit | undefined;
+      if (multipart) {
+        if (body !== null && body !== undefined) {
+          throw new Error('Invalid request: body and multipart cannot be used together');
+        }
+        const boundary = `cloud-support-mcp-${randomUUID()}`;
+        url.searchParams.set('uploadType', 'multipart');
+        requestBody = this.buildMultipartBody(multipart, boundary);
+        headers = { ...authHeaders, 'Content-Type': `multipart/related; boundary=${boundary}` };
+      } else if (body !== null && body !== undefined) {
         if (typeof body === 'string') {
           requestBody = body;
         } else {
@@ -113,7 +298,7 @@ export class CloudSupportApiClient {
       // Execute request
       const response = await fetch(url.toString(), {
         method,
-        headers: authHeaders,
+        headers,
         body: requestBody,
       });
 
@@ -132,29 +317,218 @@ export class CloudSupportApiClient {
           headers: response.headers,
         };
       } else {
-        // For error responses, get text
-        let errorText = '';
-        try {
-          errorText = await response.text();
-        } catch {
-          // Use empty string if text retrieval fails
-          errorText = '';
-        }
+        throw await this.createApiError(response);
+      }
+    } catch (error) {
+      // Configuration errors (e.g. unusable quota project) are reported as is
+      if (error instanceof ApiError || error instanceof ConfigurationError) {
+        throw error;
+      }
+      throw new Error(`Request failed: ${error}`);
+    }
+  }
+
+  /**
+   * Describe the request that request() would send, without authenticating or sending it
+   *
+   * @param endpoint API endpoint
+   * @param options Request options
+   * @returns Method, URL, query parameters and serialized body
+   */
+  previewRequest(endpoint: string, options: ApiRequestOptions = {}): ApiRequestPreview {
+    const { method = 'GET', body, multipart, queryParams } = options;
+
+    const url = this.buildUrl(endpoint, queryParams);
+    if (multipart) {
+      url.searchParams.set('uploadType', 'multipart');
+    }
+
+    let previewBody: JsonSerializable | string | undefined;
+    if (typeof body === 'string') {
+      previewBody = body;
+    } else if (body !== null && body !== undefined) {
+      if (!this.isValidRequestBody(body)) {
+        throw new Error(
+          'Invalid request body: must be ApiRequestBody, JsonSerializable, string, or null'
+        );
+      }
+      // Round trip so the preview matches the serialized body (undefined fields dropped)
+      previewBody = JSON.parse(JSON.stringify(body)) as JsonSerializable;
+    }
+
+    return {
+      method,
+      url: url.toString(),
+      endpoint,
+      queryParams: Object.fromEntries(url.searchParams),
+      ...(previewBody !== undefined && { body: previewBody }),
+      ...(multipart && {
+        multipart: {
+          metadata: multipart.metadata,
+          media: {
+            mimeType: multipart.media.mimeType,
+            sizeBytes: multipart.media.data.byteLength,
+          },
+        },
+      }),
+    };
+  }
+
+  /**
+   * Download media content to a local file
+   *
+   * The response body is streamed to disk chunk by chunk and never buffered as a whole.
+   * The destination file is removed if the transfer fails or is aborted.
+   *
+   * @param endpoint API endpoint (e.g. /v2/{attachment}:download)
+   * @param destinationPath Local file path to write to
+   * @param queryParams Additional query parameters
+   * @param signal Signal that cancels the request and the transfer
+   * @returns Download result including the number of bytes written
+   *
+   */
+  async download(
+    endpoint: string,
+    destinationPath: string,
+    queryParams?: Readonly<Record<string, string | number | boolean | undefined>>,
+    signal?: AbortSignal
+  ): Promise<DownloadResult> {
+    const url = this.buildUrl(endpoint, { ...queryParams, alt: 'media' });
 
-        const errorMessage = errorText
-          ? `HTTP ${response.status}: ${response.statusText} - ${errorText}`
-          : `HTTP ${response.status}: ${response.statusText}`;
+    try {
+      // Get authentication headers
+      const authHeaders = await getAuthHeaders();
 
-        throw new ApiError(errorMessage, response.status, null);
+      // Execute request
+      const response = await fetch(url.toString(), {
+        method: 'GET',
+        headers: authHeaders,
+        signal,
+      });
+
+      if (!response.ok) {
+        throw await this.createApiError(response);
+      }
+
+      if (!response.body) {
+        throw new Error('Invalid response format: expected media body');
+      }
+
+      // Count bytes while streaming to disk
+      let bytesWritten = 0;
+      const byteCounter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          bytesWritten += chunk.length;
+          callback(null, chunk);
+        },
+      });
+
+      try {
+        await pipeline(
+          Readable.fromWeb(response.body as NodeReadableStream),
+          byteCounter,
+          createWriteStream(destinationPath),
+          { signal }
+        );
+      } catch (error) {
+        await rm(destinationPath, { force: true });
+        throw error;
       }
+
+      return {
+        bytesWritten,
+        contentType: response.headers.get('content-type') ?? undefined,
+        status: response.status,
+        headers: response.headers,
+      };
     } catch (error) {
-      if (error instanceof ApiError) {
+      // Configuration errors (e.g. unusable quota project) are reported as is
+      if (error instanceof ApiError || error instanceof ConfigurationError) {
         throw error;
       }
-      throw new Error(`Request failed: ${error}`);
+      throw new Error(`Download failed: ${error}`);
     }
   }
 
+  /**
+   * Iterate over all pages of a list endpoint
+   *
+   * Follows nextPageToken until it is exhausted or MAX_PAGINATED_PAGES pages have been fetched
+   *
+   * @param endpoint API endpoint
+   * @param queryParams Query parameters sent with every page request
+   * @returns Async iterator of page responses
+   *
+   */
+  async *paginate<TPage extends PageResponse>(
+    endpoint: string,
+    queryParams: Readonly<Record<string, string | number | boolean | undefined>> = {}
+  ): AsyncGenerator<TPage, void, undefined> {
+    let pageToken = queryParams.pageToken as string | undefined;
+
+    for (let page = 0; page < MAX_PAGINATED_PAGES; page++) {
+      const response = await this.get<TPage>(endpoint, { ...queryParams, pageToken });
+      yield response.data;
+
+      pageToken = response.data.nextPageToken;
+      if (!pageToken) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Collect items from all pages of a list endpoint
+   *
+   * @param endpoint API endpoint
+   * @param itemsKey Response field that holds the items (e.g. cases, comments)
+   * @param queryParams Query parameters sent with every page request
+   * @param options Pagination options (maxItems is capped at MAX_PAGINATED_ITEMS)
+   * @returns Collected items and whether the result was truncated
+   *
+   */
+  async fetchAll<TItem>(
+    endpoint: string,
+    itemsKey: string,
+    queryParams: Readonly<Record<string, string | number | boolean | undefined>> = {},
+    options: PaginationOptions = {}
+  ): Promise<PaginatedResult<TItem>> {
+    const maxItems = Math.max(
+      1,
+      Math.min(options.maxItems ?? MAX_PAGINATED_ITEMS, MAX_PAGINATED_ITEMS)
+    );
+    const items: TItem[] = [];
+    let pagesFetched = 0;
+    let nextPageToken: string | undefined;
+
+    for await (const page of this.paginate<PageResponse & Record<string, unknown>>(
+      endpoint,
+      queryParams
+    )) {
+      pagesFetched++;
+      nextPageToken = page.nextPageToken;
+      const pageItems = (page[itemsKey] as TItem[] | undefined) || [];
+
+      if (items.length + pageItems.length > maxItems) {
+        // Page only partially consumed, so its nextPageToken cannot be used to resume
+        items.push(...pageItems.slice(0, maxItems - items.length));
+        return { items, truncated: true, pagesFetched };
+      }
+
+      items.push(...pageItems);
+      if (items.length >= maxItems && nextPageToken) {
+        break;
+      }
+    }
+
+    return {
+      items,
+      truncated: Boolean(nextPageToken),
+      pagesFetched,
+      ...(nextPageToken && { nextPageToken }),
+    };
+  }
+
   /**
    * Send GET request
    *
@@ -190,6 +564,100 @@ export class CloudSupportApiClient {
     return this.request<TData>(endpoint, { method: 'PATCH', body, queryParams });
   }
 
+  /**
+   * Send multipart media upload request
+   *
+   */
+  async upload<TData = unknown>(
+    endpoint: string,
+    multipart: MultipartUpload,
+    queryParams?: Readonly<Record<string, string | number | boolean | undefined>>
+  ): Promise<ApiResponse<TData>> {
+    return this.request<TData>(endpoint, { method: 'POST', multipart, queryParams });
+  }
+
+  /**
+   * Build request URL with query parameters
+   *
+   * @private
+   */
+  private buildUrl(
+    endpoint: string,
+    queryParams?: Readonly<Record<string, string | number | boolean | undefined>>
+  ): URL {
+    const url = new URL(`${this.baseUrl}${endpoint}`);
+
+    // Add query parameters
+    if (queryParams) {
+      Object.entries(queryParams).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          url.searchParams.append(key, String(value));
+        }
+      });
+    }
+
+    return url;
+  }
+
+  /**
+   * Create ApiError from an error response
+   *
+   * @private
+   */
+  private async createApiError(response: Response): Promise<ApiError> {
+    // Rejected token: make the next request obtain a fresh one
+    if (response.status === 401) {
+      invalidateAccessToken();
+    }
+
+    // For error responses, get text
+    let errorText = '';
+    try {
+      errorText = await response.text();
+    } catch {
+      // Use empty string if text retrieval fails
+      errorText = '';
+    }
+
+    // Error envelopes are summarized by their message, other bodies are included as received
+    const errorResponse = errorText ? parseErrorResponse(errorText) : undefined;
+    const errorDescription = errorResponse?.error.message || errorText;
+    const errorMessage = errorDescription
+      ? `HTTP ${response.status}: ${response.statusText} - ${errorDescription}`
+      : `HTTP ${response.status}: ${response.statusText}`;
+
+    const retryAfterMs = getServerRetryDelay(errorResponse, response.headers?.get('retry-after'));
+
+    return new ApiError(
+      errorMessage,
+      response.status,
+      errorResponse ?? (errorText || null),
+      retryAfterMs,
+      response.statusText
+    );
+  }
+
+  /**
+   * Build multipart/related request body
+   *
+   * @private
+   */
+  private buildMultipartBody(multipart: MultipartUpload, boundary: string): Blob {
+    if (!this.isValidRequestBody(multipart.metadata)) {
+      throw new Error('Invalid multipart metadata: must be JsonSerializable');
+    }
+
+    const metadataPart =
+      `--${boundary}\r\n` +
+      'Content-Type: application/json; charset=UTF-8\r\n\r\n' +
+      `${JSON.stringify(multipart.metadata)}\r\n` +
+      `--${boundary}\r\n` +
+      `Content-Type: ${multipart.media.mimeType}\r\n\r\n`;
+    const closingDelimiter = `\r\n--${boundary}--`;
+
+    return new Blob([metadataPart, new Uint8Array(multipart.media.data), closingDelimiter]);
+  }
+
   /**
    * Validate request body validity
    *
@@ -0,0 +1,98 @@
+/**
+ * Credential cache
+ *
+ * Caches credentials (access tokens, project IDs) with their expiry time.
+ * Refreshes proactively shortly before expiry and deduplicates concurrent refreshes,
+ * so bursts of API calls share a single credential lookup.
+ */
+
+import { logger } from '../utils/logger.js';
+
+/**
+ * Default margin before expiry at which a refresh is started (60 seconds)
+ */
+export const DEFAULT_REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * Cached credential entry
+ */
+export interface CachedCredential<T> {
+  readonly value: T;
+  readonly expiresAt: number; // Epoch milliseconds (Infinity when the value never expires)
+}
+
+/**
+ * Credential loader function type
+ */
+export type CredentialLoader<T> = () => Promise<CachedCredential<T>>;
+
+/**
+ * Single-value credential cache
+ */
+export class CredentialCache<T> {
+  private entry?: CachedCredential<T>;
+  private pending?: Promise<CachedCredential<T>>;
+
+  constructor(
+    private readonly name: string,
+    private readonly loader: CredentialLoader<T>,
+    private readonly refreshMarginMs: number = DEFAULT_REFRESH_MARGIN_MS,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Get cached value, loading or refreshing it when required
+   *
+   * - No value or expired value: waits for a refresh
+   * - Value within the refresh margin: returns it and refreshes in the background
+   */
+  async get(): Promise<T> {
+    const entry = this.entry;
+    const now = this.now();
+
+    if (entry && now < entry.expiresAt) {
+      if (now >= entry.expiresAt - this.refreshMarginMs) {
+        this.refresh().catch((error) => {
+          logger.warn(`Background credential refresh failed: ${this.name}`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      }
+      return entry.value;
+    }
+
+    return (await this.refresh()).value;
+  }
+
+  /**
+   * Refresh value (concurrent callers share the same in-flight refresh)
+   */
+  refresh(): Promise<CachedCredential<T>> {
+    if (!this.pending) {
+      logger.debug(`Refreshing credential: ${this.name}`);
+      this.pending = this.loader()
+        .then((entry) => {
+          this.entry = entry;
+          return entry;
+        })
+        .finally(() => {
+          this.pending = undefined;
+        });
+    }
+    return this.pending;
+  }
+
+  /**
+   * Drop cached value (e.g. after the API rejected the token)
+   */
+  invalidate(): void {
+    this.entry = undefined;
+  }
+
+  /**
+   * Get cached entry without loading
+   */
+  peek(): CachedCredential<T> | undefined {
+    return this.entry;
+  }
+}
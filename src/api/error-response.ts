@@ -0,0 +1,131 @@
+/**
+ * Google API error responses
+ *
+ * Parses the google.rpc.Status envelope returned with error responses into
+ * typed details (ErrorInfo, BadRequest field violations, Help links), and the
+ * retry delay the server asks for, either as a google.rpc.RetryInfo detail or
+ * as a Retry-After header.
+ * Reference: https://cloud.google.com/apis/design/errors
+ */
+
+import {
+  ResponseTypeGuards,
+  type BadRequestDetail,
+  type ErrorDetail,
+  type ErrorInfoDetail,
+  type ErrorResponse,
+  type GoogleApiErrorDetails,
+  type HelpDetail,
+  type RetryInfoDetail,
+} from '../types/api-response-types.js';
+
+/**
+ * Type URL of google.rpc.RetryInfo details
+ */
+export const RETRY_INFO_TYPE = 'type.googleapis.com/google.rpc.RetryInfo';
+
+/**
+ * Type URL of google.rpc.ErrorInfo details
+ */
+export const ERROR_INFO_TYPE = 'type.googleapis.com/google.rpc.ErrorInfo';
+
+/**
+ * Type URL of google.rpc.BadRequest details
+ */
+export const BAD_REQUEST_TYPE = 'type.googleapis.com/google.rpc.BadRequest';
+
+/**
+ * Type URL of google.rpc.Help details
+ */
+export const HELP_TYPE = 'type.googleapis.com/google.rpc.Help';
+
+/**
+ * Parse an error response body
+ * @param text Response body
+ * @returns Error envelope, or undefined when the body is not a google.rpc.Status envelope
+ */
+export function parseErrorResponse(text: string): ErrorResponse | undefined {
+  try {
+    const parsed: unknown = JSON.parse(text);
+    return ResponseTypeGuards.isErrorResponse(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Extract typed details from an error envelope
+ * Details of the same type are merged (field violations and links are concatenated)
+ * @param errorResponse Parsed error envelope
+ * @returns Error details
+ */
+export function extractErrorDetails(errorResponse: ErrorResponse): GoogleApiErrorDetails {
+  const { code, status, message, details = [] } = errorResponse.error;
+  const ofType = <T extends ErrorDetail>(type: string) =>
+    details.filter((detail): detail is T => detail['@type'] === type);
+
+  const errorInfo = ofType<ErrorInfoDetail>(ERROR_INFO_TYPE)[0];
+  return {
+    code,
+    status,
+    message,
+    ...(errorInfo?.reason && { reason: errorInfo.reason }),
+    ...(errorInfo?.domain && { domain: errorInfo.domain }),
+    ...(errorInfo?.metadata && { metadata: errorInfo.metadata }),
+    fieldViolations: ofType<BadRequestDetail>(BAD_REQUEST_TYPE).flatMap(
+      (detail) => detail.fieldViolations || []
+    ),
+    helpLinks: ofType<HelpDetail>(HELP_TYPE).flatMap((detail) => detail.links || []),
+  };
+}
+
+/**
+ * Parse a Duration in its JSON form
+ * @param value Seconds with an "s" suffix (e.g. "30s", "1.500s")
+ * @returns Milliseconds, or undefined when the value is not a valid duration
+ */
+export function parseDuration(value: string): number | undefined {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)s$/);
+  return match ? Math.round(Number(match[1]) * 1000) : undefined;
+}
+
+/**
+ * Parse a Retry-After header
+ * @param value Header value (delay in seconds or an HTTP date)
+ * @param now Current time (epoch milliseconds)
+ * @returns Milliseconds to wait, or undefined when the header is absent or invalid
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now()
+): number | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Get the retry delay supplied by the server
+ * RetryInfo takes precedence over the Retry-After header
+ * @param errorResponse Parsed error envelope
+ * @param retryAfter Retry-After header value
+ * @param now Current time (epoch milliseconds)
+ * @returns Milliseconds to wait, or undefined when the server supplied no delay
+ */
+export function getServerRetryDelay(
+  errorResponse: ErrorResponse | undefined,
+  retryAfter: string | null | undefined,
+  now: number = Date.now()
+): number | undefined {
+  const retryInfo = errorResponse?.error.details?.find(
+    (detail): detail is RetryInfoDetail => detail['@type'] === RETRY_INFO_TYPE
+  );
+  const retryInfoDelay = retryInfo?.retryDelay ? parseDuration(retryInfo.retryDelay) : undefined;
+  return retryInfoDelay ?? parseRetryAfter(retryAfter, now);
+}
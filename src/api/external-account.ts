@@ -0,0 +1,110 @@
+/**
+ * External account credentials (Workload Identity Federation)
+ *
+ * Loads external_account credential configuration files (OIDC/file-sourced,
+ * URL-sourced, AWS and executable-sourced) and exchanges the subject token for a
+ * Google Cloud access token through the STS endpoint in the file.
+ * Reference: https://cloud.google.com/iam/docs/workload-identity-federation-with-other-providers
+ */
+
+import { readFile } from 'fs/promises';
+import { ExternalAccountClient, type ExternalAccountClientOptions } from 'google-auth-library';
+
+/**
+ * Credential file type of external account configurations
+ */
+export const EXTERNAL_ACCOUNT_TYPE = 'external_account';
+
+/**
+ * External account credential configuration (fields used by this module)
+ */
+export interface ExternalAccountCredentials {
+  type: typeof EXTERNAL_ACCOUNT_TYPE;
+  audience: string;
+  subject_token_type: string;
+  token_url?: string;
+  credential_source?: Record<string, unknown>;
+  service_account_impersonation_url?: string;
+  quota_project_id?: string;
+  workforce_pool_user_project?: string;
+}
+
+/**
+ * External account access token
+ */
+export interface ExternalAccountToken {
+  token: string;
+  expiresAt?: number; // Epoch milliseconds (undefined when the STS response has no expiry)
+}
+
+/**
+ * Read and validate an external account credential configuration file
+ * @param path Credential configuration file path
+ * @returns Parsed credentials
+ * @throws When the file is not an external_account configuration
+ */
+export async function readExternalAccountCredentials(
+  path: string
+): Promise<ExternalAccountCredentials> {
+  const credentials = JSON.parse(await readFile(path, 'utf8'));
+
+  if (credentials.type !== EXTERNAL_ACCOUNT_TYPE) {
+    throw new Error(
+      `${path} is not an ${EXTERNAL_ACCOUNT_TYPE} credential configuration (type: ${credentials.type})`
+    );
+  }
+  if (!credentials.audience || !credentials.subject_token_type) {
+    throw new Error(`${path} is missing audience or subject_token_type`);
+  }
+
+  return credentials as ExternalAccountCredentials;
+}
+
+/**
+ * Exchange external account credentials for a Google Cloud access token
+ * @param credentials External account credential configuration
+ * @returns Access token with its expiry time
+ */
+export async function getExternalAccountAccessToken(
+  credentials: ExternalAccountCredentials
+): Promise<ExternalAccountToken> {
+  const client = ExternalAccountClient.fromJSON({
+    ...credentials,
+    scopes: ['https://www.googleapis.com/auth/cloud-platform'],
+  } as ExternalAccountClientOptions);
+  if (!client) {
+    throw new Error('Failed to create external account client');
+  }
+
+  const { token } = await client.getAccessToken();
+  if (!token) {
+    throw new Error('Failed to obtain access token from external account credentials');
+  }
+
+  return { token, expiresAt: client.credentials.expiry_date ?? undefined };
+}
+
+/**
+ * Get the service account impersonated by the configuration, if any
+ * @param credentials External account credential configuration
+ * @returns Service account email from service_account_impersonation_url
+ */
+export function getImpersonatedServiceAccount(
+  credentials: ExternalAccountCredentials
+): string | undefined {
+  const match = credentials.service_account_impersonation_url?.match(
+    /serviceAccounts\/([^/:]+):generateAccessToken$/
+  );
+  return match ? decodeURIComponent(match[1]) : undefined;
+}
+
+/**
+ * Get the quota project declared in the configuration
+ * @param credentials External account credential configuration
+ * @returns quota_project_id, or workforce_pool_user_project for workforce pools
+ */
+export function getExternalAccountQuotaProject(
+  credentials: ExternalAccountCredentials
+): string | undefined {
+  return credentials.quota_project_id || credentials.workforce_pool_user_project;
+}
@@ -0,0 +1,106 @@
+/**
+ * Service account impersonation
+ *
+ * Exchanges source credentials for a short-lived access token of a target
+ * service account using the IAM Credentials API generateAccessToken method.
+ * The caller (or the last delegate) needs roles/iam.serviceAccountTokenCreator
+ * on the target service account.
+ * Reference: https://cloud.google.com/iam/docs/reference/credentials/rest/v1/projects.serviceAccounts/generateAccessToken
+ */
+
+/**
+ * IAM Credentials API base URL
+ */
+export const IAM_CREDENTIALS_BASE_URL = 'https://iamcredentials.googleapis.com/v1';
+
+/**
+ * Default lifetime of impersonated tokens (1 hour, the API maximum without org policy changes)
+ */
+export const DEFAULT_IMPERSONATION_LIFETIME_SECONDS = 3600;
+
+/**
+ * Impersonation request options
+ */
+export interface ImpersonationOptions {
+  readonly targetServiceAccount: string; // Email of the service account to impersonate
+  readonly delegates?: readonly string[]; // Delegation chain (emails), in order from the caller
+  readonly scopes?: readonly string[];
+  readonly lifetimeSeconds?: number;
+}
+
+/**
+ * Impersonated access token
+ */
+export interface ImpersonatedToken {
+  token: string;
+  expiresAt: number; // Epoch milliseconds
+}
+
+/**
+ * generateAccessToken response body
+ */
+interface GenerateAccessTokenResponse {
+  accessToken?: string;
+  expireTime?: string; // RFC 3339 timestamp
+}
+
+/**
+ * Build service account resource name for the IAM Credentials API
+ * @param email Service account email
+ * @returns projects/-/serviceAccounts/{email}
+ */
+export function serviceAccountResourceName(email: string): string {
+  return `projects/-/serviceAccounts/${email}`;
+}
+
+/**
+ * Generate an access token for the target service account
+ * @param sourceToken Access token of the calling principal
+ * @param options Target service account, delegation chain, scopes and lifetime
+ * @returns Impersonated access token with its expiry time
+ * @throws When the IAM Credentials API rejects the request
+ */
+export async function generateImpersonatedAccessToken(
+  sourceToken: string,
+  options: ImpersonationOptions
+): Promise<ImpersonatedToken> {
+  const {
+    targetServiceAccount,
+    delegates = [],
+    scopes = ['https://www.googleapis.com/auth/cloud-platform'],
+    lifetimeSeconds = DEFAULT_IMPERSONATION_LIFETIME_SECONDS,
+  } = options;
+
+  const url = `${IAM_CREDENTIALS_BASE_URL}/${serviceAccountResourceName(targetServiceAccount)}:generateAccessToken`;
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${sourceToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      delegates: delegates.map(serviceAccountResourceName),
+      scope: scopes,
+      lifetime: `${lifetimeSeconds}s`,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => '');
+    throw new Error(
+      `Failed to impersonate ${targetServiceAccount}: HTTP ${response.status}: ${response.statusText}${errorText ? ` - ${errorText}` : ''}`
+    );
+  }
+
+  const data = (await response.json()) as GenerateAccessTokenResponse;
+  if (!data.accessToken) {
+    throw new Error(`IAM Credentials API returned no access token for ${targetServiceAccount}`);
+  }
+
+  const expiresAt = data.expireTime ? Date.parse(data.expireTime) : NaN;
+
+  return {
+    token: data.accessToken,
+    expiresAt: Number.isNaN(expiresAt) ? Date.now() + lifetimeSeconds * 1000 : expiresAt,
+  };
+}
@@ -11,17 +11,105 @@ export {
   getCurrentProjectId,
   getAuthHeaders,
   getAccessTokenWithMethod,
+  invalidateAccessToken,
+  clearCredentialCache,
+  getAuthIdentity,
   AuthMethod,
+  CALLER_TOKEN_METHOD,
   type AuthResult,
+  type AuthIdentity,
 } from './auth.js';
 
+// Service account impersonation
+export {
+  generateImpersonatedAccessToken,
+  serviceAccountResourceName,
+  IAM_CREDENTIALS_BASE_URL,
+  DEFAULT_IMPERSONATION_LIFETIME_SECONDS,
+  type ImpersonationOptions,
+  type ImpersonatedToken,
+} from './impersonation.js';
+
+// External account credentials (Workload Identity Federation)
+export {
+  readExternalAccountCredentials,
+  getExternalAccountAccessToken,
+  getExternalAccountQuotaProject,
+  getImpersonatedServiceAccount,
+  EXTERNAL_ACCOUNT_TYPE,
+  type ExternalAccountCredentials,
+  type ExternalAccountToken,
+} from './external-account.js';
+
+// Per-call request context
+export {
+  runWithRequestContext,
+  getRequestContext,
+  type RequestContext,
+} from './request-context.js';
+
+// Quota project verification
+export {
+  verifyQuotaProject,
+  clearVerifiedQuotaProjects,
+  QUOTA_PROJECT_PERMISSION,
+  RESOURCE_MANAGER_BASE_URL,
+} from './quota-project.js';
+
+// Authentication configuration
+export {
+  loadAuthConfig,
+  resetAuthConfig,
+  getAuthMethodOrder,
+  DEFAULT_AUTH_METHOD_ORDER,
+  FAKE_AUTH_PROJECT_ID,
+  PROJECT_PATTERN,
+  type AuthConfig,
+} from './auth-config.js';
+
+// Credential caching
+export {
+  CredentialCache,
+  DEFAULT_REFRESH_MARGIN_MS,
+  type CachedCredential,
+  type CredentialLoader,
+} from './credential-cache.js';
+
 // API client functionality
 export {
   CloudSupportApiClient,
   apiClient,
   ApiError,
   SUPPORT_API_BASE_URL,
+  MAX_PAGINATED_ITEMS,
+  MAX_PAGINATED_PAGES,
   type ApiRequestOptions,
+  type ApiRequestPreview,
+  type MultipartUpload,
   type ApiResponse,
+  type DownloadResult,
+  type PageResponse,
+  type PaginationOptions,
+  type PaginatedResult,
   type RequestBody,
 } from './client.js';
+
+// Error responses
+export {
+  RETRY_INFO_TYPE,
+  ERROR_INFO_TYPE,
+  BAD_REQUEST_TYPE,
+  HELP_TYPE,
+  parseErrorResponse,
+  extractErrorDetails,
+  parseDuration,
+  parseRetryAfter,
+  getServerRetryDelay,
+} from './error-response.js';
+
+// Search query compilation
+export {
+  compileCaseSearchQuery,
+  quoteQueryValue,
+  type CaseSearchCriteria,
+} from './query-compiler.js';
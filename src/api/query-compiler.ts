@@ -0,0 +1,86 @@
+/**
+ * Case search query compiler
+ *
+ * Compiles structured search criteria into the query syntax of the
+ * Google Cloud Support API cases:search endpoint.
+ * Reference: https://cloud.google.com/support/docs/reference/rest/v2/cases/search
+ */
+
+import type { CasePriority } from '../types/common-types.js';
+
+/**
+ * Structured case search criteria
+ */
+export interface CaseSearchCriteria {
+  readonly text?: string; // Free text matched against displayName, description and comments
+  readonly organization?: string; // organizations/{organization_id}
+  readonly project?: string; // projects/{project_id}
+  readonly state?: 'OPEN' | 'CLOSED' | 'ALL';
+  readonly priorities?: readonly CasePriority[];
+  readonly creatorEmail?: string;
+  readonly billingAccount?: string; // billingAccounts/{billing_account_id}
+  readonly updatedAfter?: string; // RFC 3339 timestamp
+}
+
+/**
+ * Quote a value for use in a query expression
+ * @param value Raw value
+ * @returns Double-quoted value with backslashes and quotes escaped
+ */
+export function quoteQueryValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Compile structured criteria into a cases:search query expression
+ *
+ * Restrictions are joined with AND. Multiple priorities are combined with OR,
+ * and free text is added as a global restriction.
+ *
+ * @param criteria Search criteria
+ * @returns Query expression (empty string when there are no restrictions)
+ */
+export function compileCaseSearchQuery(criteria: CaseSearchCriteria): string {
+  const terms: string[] = [];
+
+  if (criteria.organization) {
+    terms.push(`organization=${quoteQueryValue(criteria.organization)}`);
+  }
+
+  if (criteria.project) {
+    terms.push(`project=${quoteQueryValue(criteria.project)}`);
+  }
+
+  if (criteria.state && criteria.state !== 'ALL') {
+    terms.push(`state=${criteria.state}`);
+  }
+
+  const priorities = (criteria.priorities || []).filter(
+    (priority) => priority !== 'PRIORITY_UNSPECIFIED'
+  );
+  if (priorities.length === 1) {
+    terms.push(`priority=${priorities[0]}`);
+  } else if (priorities.length > 1) {
+    terms.push(`(${priorities.map((priority) => `priority=${priority}`).join(' OR ')})`);
+  }
+
+  if (criteria.creatorEmail) {
+    terms.push(`creator.email=${quoteQueryValue(criteria.creatorEmail)}`);
+  }
+
+  if (criteria.billingAccount) {
+    terms.push(`billingAccount=${quoteQueryValue(criteria.billingAccount)}`);
+  }
+
+  // update_time only supports the greater than operator
+  if (criteria.updatedAfter) {
+    terms.push(`update_time>${quoteQueryValue(criteria.updatedAfter)}`);
+  }
+
+  const text = criteria.text?.trim();
+  if (text) {
+    terms.push(quoteQueryValue(text));
+  }
+
+  return terms.join(' AND ');
+}
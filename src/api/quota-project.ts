@@ -0,0 +1,104 @@
+/**
+ * Quota project verification
+ *
+ * Requests billed to a quota project (X-Goog-User-Project) require the caller to
+ * have serviceusage.services.use on that project. Explicitly configured quota
+ * projects are checked once via Resource Manager testIamPermissions so that a
+ * missing permission surfaces as a clear configuration error instead of an
+ * opaque 403 from the Support API.
+ */
+
+import { ConfigurationError } from '../types/errors.js';
+import { logger } from '../utils/logger.js';
+import { PROJECT_PATTERN } from './auth-config.js';
+
+/**
+ * Resource Manager API base URL
+ */
+export const RESOURCE_MANAGER_BASE_URL = 'https://cloudresourcemanager.googleapis.com/v1';
+
+/**
+ * Permission required to use a project as quota project
+ */
+export const QUOTA_PROJECT_PERMISSION = 'serviceusage.services.use';
+
+/**
+ * Projects verified in this process (keyed by project and caller scope)
+ */
+const verifiedProjects = new Set<string>();
+
+/**
+ * Verify that the caller may use the project as quota project
+ *
+ * Successful checks are cached. Transient failures of the check itself
+ * (network errors, 5xx) are logged and do not block the request.
+ *
+ * @param projectId Quota project ID or number
+ * @param accessToken Access token of the caller
+ * @param callerScope Identifies the caller when tokens of different users are used
+ * @throws {ConfigurationError} When the project is invalid or the permission is missing
+ */
+export async function verifyQuotaProject(
+  projectId: string,
+  accessToken: string,
+  callerScope: string = 'server'
+): Promise<void> {
+  const cacheKey = `${callerScope}:${projectId}`;
+  if (verifiedProjects.has(cacheKey)) {
+    return;
+  }
+
+  if (!PROJECT_PATTERN.test(projectId)) {
+    throw new ConfigurationError(`Invalid quota project "${projectId}"`, 'QUOTA_PROJECT_INVALID');
+  }
+
+  let response: Response;
+  try {
+    // Sent without X-Goog-User-Project: the project under test may not be usable yet
+    response = await fetch(
+      `${RESOURCE_MANAGER_BASE_URL}/projects/${projectId}:testIamPermissions`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ permissions: [QUOTA_PROJECT_PERMISSION] }),
+      }
+    );
+  } catch (error) {
+    logger.warn(`Could not verify quota project: ${projectId}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return;
+  }
+
+  if (response.status === 403 || response.status === 404) {
+    throw new ConfigurationError(
+      `Quota project "${projectId}" does not exist or is not accessible. Grant ${QUOTA_PROJECT_PERMISSION} (e.g. roles/serviceusage.serviceUsageConsumer) on it or choose another quota project`,
+      'QUOTA_PROJECT_PERMISSION_DENIED'
+    );
+  }
+
+  if (!response.ok) {
+    logger.warn(`Could not verify quota project: ${projectId}`, { status: response.status });
+    return;
+  }
+
+  const { permissions = [] } = (await response.json()) as { permissions?: string[] };
+  if (!permissions.includes(QUOTA_PROJECT_PERMISSION)) {
+    throw new ConfigurationError(
+      `Missing permission ${QUOTA_PROJECT_PERMISSION} on quota project "${projectId}". Grant roles/serviceusage.serviceUsageConsumer or choose another quota project`,
+      'QUOTA_PROJECT_PERMISSION_DENIED'
+    );
+  }
+
+  verifiedProjects.add(cacheKey);
+}
+
+/**
+ * Forget verified quota projects
+ */
+export function clearVerifiedQuotaProjects(): void {
+  verifiedProjects.clear();
+}
@@ -0,0 +1,38 @@
+/**
+ * Request context
+ *
+ * Carries per-call settings (such as the quota project override of a tool call,
+ * or the caller's access token in HTTP passthrough mode)
+ * from the tool dispatcher down to the API client without threading them
+ * through every handler.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Per-call request settings
+ */
+export interface RequestContext {
+  readonly quotaProject?: string; // Quota/billing project override
+  readonly accessToken?: string; // Caller's access token (HTTP passthrough mode)
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function with the given request context
+ * @param context Request settings for everything called from fn
+ * @param fn Function to run
+ * @returns Result of fn
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Get the current request context
+ * @returns Active context (empty outside of runWithRequestContext)
+ */
+export function getRequestContext(): RequestContext {
+  return storage.getStore() ?? {};
+}
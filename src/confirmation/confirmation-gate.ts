@@ -0,0 +1,333 @@
+/**
+ * Human confirmation gate for destructive actions
+ *
+ * Before a guarded tool call runs, the human on the client side is asked to
+ * confirm it via MCP elicitation. The request shows the case name, its current
+ * state and the proposed change. Calls are refused when the human declines,
+ * or when the client does not support elicitation. Dry runs are never gated
+ * because nothing is sent.
+ *
+ * Environment variables:
+ * - CLOUD_SUPPORT_CONFIRM_ACTIONS: Comma-separated actions that require confirmation,
+ *   or "none" (default: close,escalate,priority)
+ *   - close: close_support_case
+ *   - escalate: escalate_support_case
+ *   - priority: update_support_case setting priority to P0 or P1
+ *   - create-high-priority: create_support_case with priority P0 or P1
+ *   - comment: create_case_comment
+ *   - upload: upload_case_attachment
+ */
+
+import type {
+  ClientCapabilities,
+  ElicitRequest,
+  ElicitResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import { apiClient, runWithRequestContext, type RequestContext } from '../api/index.js';
+import { ValidationPatterns } from '../handlers/base-handler.js';
+import { ConfigurationError } from '../types/errors.js';
+import type { SupportedToolName } from '../types/index.js';
+import { isDryRun } from '../utils/dry-run.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Actions that can require confirmation
+ */
+export const CONFIRMATION_ACTIONS = [
+  'close',
+  'escalate',
+  'priority',
+  'create-high-priority',
+  'comment',
+  'upload',
+] as const;
+
+export type ConfirmationAction = (typeof CONFIRMATION_ACTIONS)[number];
+
+/**
+ * Actions that require confirmation by default
+ */
+export const DEFAULT_CONFIRMATION_ACTIONS: readonly ConfirmationAction[] = [
+  'close',
+  'escalate',
+  'priority',
+];
+
+/**
+ * How long to wait for the human to answer (5 minutes)
+ */
+export const CONFIRMATION_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Priorities whose selection requires confirmation
+ */
+const HIGH_PRIORITIES: readonly unknown[] = ['P0', 'P1'];
+
+/**
+ * Maximum length of free text (comment bodies) in the confirmation message
+ */
+const MAX_PREVIEW_LENGTH = 500;
+
+/**
+ * Confirmation policy
+ */
+export interface ConfirmationPolicy {
+  readonly actions: ReadonlySet<ConfirmationAction>;
+}
+
+/**
+ * Session that can ask its client for confirmation (one MCP server instance)
+ */
+export interface ConfirmationSession {
+  getClientCapabilities(): ClientCapabilities | undefined;
+  elicitInput(
+    params: ElicitRequest['params'],
+    options?: { timeout?: number }
+  ): Promise<ElicitResult>;
+}
+
+/**
+ * Outcome of the confirmation gate
+ */
+export type ConfirmationOutcome =
+  | { readonly allowed: true }
+  | { readonly allowed: false; readonly reason: string };
+
+/**
+ * Change that needs confirmation
+ */
+interface ProposedChange {
+  readonly action: ConfirmationAction;
+  readonly caseName?: string; // Existing case affected by the change
+  readonly description: string;
+}
+
+/**
+ * Resolve confirmation policy
+ * @param env Environment variables
+ * @returns Confirmation policy
+ * @throws {ConfigurationError} When an action name is unknown
+ */
+export function resolveConfirmationPolicy(
+  env: NodeJS.ProcessEnv = process.env
+): ConfirmationPolicy {
+  const value = env.CLOUD_SUPPORT_CONFIRM_ACTIONS?.trim();
+  if (!value) {
+    return { actions: new Set(DEFAULT_CONFIRMATION_ACTIONS) };
+  }
+  if (value.toLowerCase() === 'none') {
+    return { actions: new Set() };
+  }
+
+  const actions = value
+    .split(',')
+    .map((action) => action.trim())
+    .filter(Boolean);
+  for (const action of actions) {
+    if (!(CONFIRMATION_ACTIONS as readonly string[]).includes(action)) {
+      throw new ConfigurationError(
+        `Invalid action "${action}" in CLOUD_SUPPORT_CONFIRM_ACTIONS. Expected "none" or any of: ${CONFIRMATION_ACTIONS.join(', ')}`,
+        'CONFIRMATION_CONFIG_INVALID_ACTION'
+      );
+    }
+  }
+  return { actions: new Set(actions as ConfirmationAction[]) };
+}
+
+/**
+ * Confirmation gate
+ */
+export class ConfirmationGate {
+  constructor(private readonly policy: ConfirmationPolicy = resolveConfirmationPolicy()) {}
+
+  /**
+   * Ask the human to confirm a tool call when the policy requires it
+   * @param session Session of the calling client
+   * @param toolName Tool name
+   * @param args Validated tool arguments
+   * @param context Request context used to read the current case state
+   * @returns Whether the call may proceed, with the reason when it may not
+   */
+  async confirm(
+    session: ConfirmationSession,
+    toolName: SupportedToolName,
+    args: unknown,
+    context: RequestContext = {}
+  ): Promise<ConfirmationOutcome> {
+    const params = (args && typeof args === 'object' ? args : {}) as Record<string, unknown>;
+    const change = this.getProposedChange(toolName, params);
+    if (!change || !this.policy.actions.has(change.action)) {
+      return { allowed: true };
+    }
+    // Dry runs send nothing
+    if (isDryRun(typeof params.dryRun === 'boolean' ? params.dryRun : undefined)) {
+      return { allowed: true };
+    }
+    // Malformed case names are refused before the case is read or the human is asked
+    if (
+      change.caseName !== undefined &&
+      !ValidationPatterns.RESOURCE_CASE_NAME.test(change.caseName)
+    ) {
+      return {
+        allowed: false,
+        reason: `${toolName} was not run: invalid case name "${change.caseName}". Expected projects/{project_id}/cases/{case_id} or organizations/{org_id}/cases/{case_id}.`,
+      };
+    }
+
+    if (!session.getClientCapabilities()?.elicitation) {
+      logger.warn('Refusing unconfirmed action: client does not support elicitation', {
+        toolName,
+        action: change.action,
+      });
+      return {
+        allowed: false,
+        reason: `${toolName} requires human confirmation ("${change.action}" action), but this client does not support MCP elicitation. Ask the user to perform the action with a client that supports elicitation, or to change CLOUD_SUPPORT_CONFIRM_ACTIONS.`,
+      };
+    }
+
+    const lines = [`Confirm ${toolName}?`, ''];
+    if (change.caseName) {
+      lines.push(`Case: ${change.caseName}`);
+      lines.push(`Current state: ${await this.describeCase(change.caseName, params, context)}`);
+    }
+    lines.push(`Proposed change: ${change.description}`);
+
+    let result: ElicitResult;
+    try {
+      result = await session.elicitInput(
+        {
+          message: lines.join('\n'),
+          requestedSchema: {
+            type: 'object',
+            properties: {
+              confirm: {
+                type: 'boolean',
+                title: 'Confirm',
+                description: 'Check to allow this change',
+              },
+            },
+            required: ['confirm'],
+          },
+        },
+        { timeout: CONFIRMATION_TIMEOUT_MS }
+      );
+    } catch (error) {
+      logger.warn('Confirmation request failed', {
+        toolName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        allowed: false,
+        reason: `${toolName} was not confirmed: the confirmation request failed (${error instanceof Error ? error.message : String(error)})`,
+      };
+    }
+
+    if (result.action === 'accept' && result.content?.confirm === true) {
+      logger.info('Action confirmed by user', { toolName, action: change.action });
+      return { allowed: true };
+    }
+
+    logger.info('Action not confirmed by user', { toolName, result: result.action });
+    return {
+      allowed: false,
+      reason: `${toolName} was not confirmed by the user (${result.action === 'accept' ? 'not checked' : result.action}). Do not retry without asking the user.`,
+    };
+  }
+
+  /**
+   * Get the change a tool call would make, when it is a guarded action
+   */
+  private getProposedChange(
+    toolName: SupportedToolName,
+    args: Record<string, unknown>
+  ): ProposedChange | undefined {
+    const asString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+    switch (toolName) {
+      case 'close_support_case':
+        return {
+          action: 'close',
+          caseName: asString(args.name),
+          description: 'Close the case (closed cases cannot be reopened)',
+        };
+
+      case 'escalate_support_case':
+        return {
+          action: 'escalate',
+          caseName: asString(args.name),
+          description: `Escalate the case (reason: ${String(args.reason)}; justification: ${String(args.justification)})`,
+        };
+
+      case 'update_support_case':
+        if (!HIGH_PRIORITIES.includes(args.priority)) {
+          return undefined;
+        }
+        return {
+          action: 'priority',
+          caseName: asString(args.name),
+          description: `Change priority to ${String(args.priority)}`,
+        };
+
+      case 'create_support_case':
+        if (!HIGH_PRIORITIES.includes(args.priority)) {
+          return undefined;
+        }
+        return {
+          action: 'create-high-priority',
+          description: `Create a ${String(args.priority)} case "${String(args.displayName)}" under ${String(args.parent)}`,
+        };
+
+      case 'create_case_comment':
+        return {
+          action: 'comment',
+          caseName: asString(args.parent),
+          description: `Add comment: ${this.truncate(String(args.body))}`,
+        };
+
+      case 'upload_case_attachment':
+        return {
+          action: 'upload',
+          caseName: asString(args.parent),
+          description: `Upload attachment ${String(args.filename ?? args.filePath)}`,
+        };
+
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Truncate long free text shown in the confirmation message
+   */
+  private truncate(text: string): string {
+    return text.length > MAX_PREVIEW_LENGTH ? `${text.substring(0, MAX_PREVIEW_LENGTH)}...` : text;
+  }
+
+  /**
+   * Describe the current state of a case (best effort)
+   */
+  private async describeCase(
+    caseName: string,
+    args: Record<string, unknown>,
+    context: RequestContext
+  ): Promise<string> {
+    const quotaProject = typeof args.quotaProject === 'string' ? args.quotaProject : undefined;
+    try {
+      const { data } = await runWithRequestContext({ ...context, quotaProject }, () =>
+        apiClient.readCase('v2beta', 'getCase', caseName)
+      );
+      return [
+        `"${data.displayName || ''}"`,
+        data.state || 'unknown state',
+        data.priority || 'no priority',
+        ...(data.escalated ? ['escalated'] : []),
+      ].join(', ');
+    } catch (error) {
+      logger.warn('Failed to read case for confirmation', {
+        caseName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return 'unknown (the case could not be read)';
+    }
+  }
+}
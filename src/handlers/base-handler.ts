@@ -5,9 +5,21 @@
  */
 
 import { getCurrentProjectId } from '../api/index.js';
-import { BaseError, ErrorClassifier, ValidationError, ErrorCollector } from '../types/errors.js';
+import type { GoogleApiErrorDetails } from '../types/index.js';
+import {
+  BaseError,
+  ErrorClassifier,
+  ErrorCollector,
+  TimeoutError,
+  ValidationError,
+} from '../types/errors.js';
 import { logger, generateCorrelationId } from '../utils/logger.js';
-import { robustExecutor, LIGHT_RETRY_CONFIG } from '../utils/retry.js';
+import {
+  robustExecutor,
+  RETRY_PROFILES,
+  type RetryConfig,
+  type RetryProfile,
+} from '../utils/retry.js';
 
 /**
  * MCP response format
@@ -17,15 +29,60 @@ export interface MCPResponse {
     type: 'text';
     text: string;
   }>;
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
+/**
+ * Idempotency of a handler operation
+ * - read-only: Only reads data
+ * - idempotent: Sending the request again has the same effect as sending it once
+ * - reconcilable: Sending the request again may apply it twice, but an applied attempt can be
+ *   found before retrying (creates carrying an idempotency marker)
+ * - non-idempotent: Sending the request again may apply it twice (e.g. escalating a case)
+ */
+export type OperationIdempotency = 'read-only' | 'idempotent' | 'reconcilable' | 'non-idempotent';
+
+/**
+ * Declarative handler configuration
+ */
+export interface HandlerConfig {
+  readonly operation: string; // Operation name used in logs and error messages (e.g. "closing support case")
+  readonly retryProfile: RetryProfile;
+  readonly idempotency: OperationIdempotency;
+  readonly timeoutMs?: number; // Default: 30 seconds
+  readonly retryOnTimeout?: boolean; // Default: true
+}
+
+/**
+ * Reconciliation of a reconcilable operation
+ * Returns the result of an earlier attempt that the server applied, or undefined when none was
+ */
+export type Reconciler<T> = () => Promise<T | undefined>;
+
+/**
+ * Per-call execution options
+ */
+export interface ExecutionOptions<T> {
+  readonly reconcile?: Reconciler<T>; // Required to retry reconcilable operations
+}
+
+/**
+ * Default operation timeout (30 seconds)
+ */
+const DEFAULT_OPERATION_TIMEOUT_MS = 30000;
+
 /**
  * Base class that all handlers should inherit from
  */
 export abstract class BaseHandler {
   private readonly errorCollector = ErrorCollector.getInstance();
 
+  /**
+   * Handler configuration (operation name, retry profile, idempotency)
+   */
+  protected abstract readonly config: HandlerConfig;
+
   constructor() {
     // Generate correlation ID and set it to logger
     const correlationId = generateCorrelationId();
@@ -34,14 +91,16 @@ export abstract class BaseHandler {
 
   /**
    * Execute handler with error handling
-   * @param operation Operation name (for error messages)
-   * @param handler Handler function to execute
+   * Retry, timeout and error messages follow the handler configuration
+   * @param handler Handler function to execute (its signal is aborted when an attempt times out)
+   * @param options Execution options (reconciliation of reconcilable operations)
    * @returns Result in MCP response format
    */
-  protected async executeWithErrorHandling<T>(
-    operation: string,
-    handler: () => Promise<T>
+  protected async executeWithErrorHandling<T extends object>(
+    handler: (signal: AbortSignal) => Promise<T>,
+    options: ExecutionOptions<T> = {}
   ): Promise<MCPResponse> {
+    const { operation, timeoutMs = DEFAULT_OPERATION_TIMEOUT_MS } = this.config;
     const startTime = Date.now();
 
     try {
@@ -51,10 +110,15 @@ export abstract class BaseHandler {
       const isTestEnvironment = process.env.NODE_ENV === 'test' || process.env.VITEST === 'true';
 
       // Robust execution (retry, timeout, circuit breaker)
-      const result = await robustExecutor.execute(handler, {
+      const { reconcile } = options;
+      const operationToRun =
+        this.config.idempotency === 'reconcilable' && reconcile
+          ? this.withReconciliation(handler, reconcile)
+          : handler;
+      const result = await robustExecutor.execute(operationToRun, {
         operationName: operation,
-        timeoutMs: 30000,
-        retryConfig: LIGHT_RETRY_CONFIG,
+        timeoutMs,
+        retryConfig: this.getRetryConfig(Boolean(reconcile)),
         enableCircuitBreaker: !isTestEnvironment, // Disabled in test environments
       });
 
@@ -84,6 +148,70 @@ export abstract class BaseHandler {
     }
   }
 
+  /**
+   * Get retry configuration
+   * Non-idempotent operations, and reconcilable operations called without a reconciler,
+   * are never retried, whatever their retry profile. Timeouts are not retried when
+   * retryOnTimeout is false.
+   * @param canReconcile Whether the call provides a reconciler
+   */
+  private getRetryConfig(canReconcile: boolean): RetryConfig {
+    const { idempotency, retryProfile, retryOnTimeout = true } = this.config;
+    if (idempotency === 'non-idempotent' || (idempotency === 'reconcilable' && !canReconcile)) {
+      return RETRY_PROFILES.none;
+    }
+
+    const retryConfig = RETRY_PROFILES[retryProfile];
+    if (retryOnTimeout) {
+      return retryConfig;
+    }
+    return {
+      ...retryConfig,
+      retryableErrors: (error) =>
+        !(error instanceof TimeoutError) && retryConfig.retryableErrors(error),
+    };
+  }
+
+  /**
+   * Wrap a reconcilable operation so that it is reconciled before every retry
+   * A retry first waits for the previous attempt to settle, since it may still be in
+   * flight after a timeout. The request is only sent again when that attempt failed and
+   * reconciliation found nothing; otherwise the applied result is returned.
+   */
+  private withReconciliation<T>(
+    handler: (signal: AbortSignal) => Promise<T>,
+    reconcile: Reconciler<T>
+  ): (signal: AbortSignal) => Promise<T> {
+    let previousAttempt: Promise<T> | undefined;
+
+    return async (signal) => {
+      if (previousAttempt) {
+        const settled = await previousAttempt.then(
+          (result) => ({ result }),
+          () => undefined
+        );
+        if (settled) {
+          logger.info(`Previous attempt completed late: ${this.config.operation}`, {
+            operation: this.config.operation,
+          });
+          return settled.result;
+        }
+
+        // Reconciliation errors fail this attempt, so the request is never sent unreconciled
+        const existing = await reconcile();
+        if (existing !== undefined) {
+          logger.info(`Reconciled applied attempt: ${this.config.operation}`, {
+            operation: this.config.operation,
+          });
+          return existing;
+        }
+      }
+
+      previousAttempt = handler(signal);
+      return previousAttempt;
+    };
+  }
+
   /**
    * Input value validation
    * @param data Data to be validated
@@ -192,16 +320,26 @@ export abstract class BaseHandler {
 
     // API-specific error handling
     if (error instanceof Error && error.name === 'ApiError') {
-      const apiError = error as Error & { status?: number; response?: unknown };
+      const apiError = error as Error & {
+        status?: number;
+        statusText?: string;
+        response?: unknown;
+        details?: GoogleApiErrorDetails;
+      };
+      // Parsed error envelopes are passed on as JSON, other bodies as received
+      const responseBody =
+        typeof apiError.response === 'string'
+          ? apiError.response
+          : apiError.response
+            ? JSON.stringify(apiError.response)
+            : undefined;
       if (apiError.status) {
-        // Extract statusText from error message
-        const match = error.message.match(/HTTP \d+: ([^-]+)/);
-        const statusText = match ? match[1].trim() : 'Unknown';
         return ErrorClassifier.fromHttpResponse(
           apiError.status,
-          statusText,
-          apiError.response ? JSON.stringify(apiError.response) : undefined,
-          error
+          apiError.statusText || 'Unknown',
+          responseBody,
+          error,
+          apiError.details
         );
       }
     }
@@ -227,15 +365,19 @@ export abstract class BaseHandler {
 
   /**
    * Format success response
+   * The result is returned both as JSON text and as structuredContent (conforming to the tool's outputSchema)
    */
-  protected formatSuccessResponse<T>(result: T): MCPResponse {
+  protected formatSuccessResponse<T extends object>(result: T): MCPResponse {
+    const text = JSON.stringify(result, null, 2);
     return {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(result, null, 2),
+          text,
         },
       ],
+      // Parsed back from the text so both carry the same fields (undefined values dropped)
+      structuredContent: JSON.parse(text) as Record<string, unknown>,
       isError: false,
     };
   }
@@ -254,6 +396,10 @@ export abstract class BaseHandler {
         ? classifiedError.getSafeMessage()
         : classifiedError.message;
 
+    // Google API error details tell the caller how to fix the request
+    const details = this.getApiErrorDetails(error);
+    const detailSections = details ? this.formatApiErrorDetails(details) : [];
+
     // Add original error for debugging
     const debugInfo = error instanceof Error ? error.message : String(error);
 
@@ -261,13 +407,65 @@ export abstract class BaseHandler {
       content: [
         {
           type: 'text',
-          text: `Error ${operation}: ${userMessage}\n\nDebug info: ${debugInfo}`,
+          text: [
+            `Error ${operation}: ${userMessage}`,
+            ...detailSections,
+            `Debug info: ${debugInfo}`,
+          ].join('\n\n'),
         },
       ],
       isError: true,
     };
   }
 
+  /**
+   * Get the Google API error details of an error (or of the API error that caused it)
+   */
+  private getApiErrorDetails(error: unknown): GoogleApiErrorDetails | undefined {
+    const apiError = error instanceof BaseError ? error.cause : error;
+    return apiError instanceof Error && apiError.name === 'ApiError'
+      ? (apiError as Error & { details?: GoogleApiErrorDetails }).details
+      : undefined;
+  }
+
+  /**
+   * Format Google API error details
+   * Field violations and help links refer to the caller's own request, so they are shown in
+   * production too; ErrorInfo metadata is omitted there
+   */
+  private formatApiErrorDetails(details: GoogleApiErrorDetails): string[] {
+    const sections: string[] = [];
+
+    if (details.fieldViolations.length > 0) {
+      sections.push(
+        [
+          'Field violations:',
+          ...details.fieldViolations.map(
+            (violation) => `- ${violation.field}: ${violation.description}`
+          ),
+        ].join('\n')
+      );
+    }
+
+    if (details.reason) {
+      const lines = [`Reason: ${details.reason}${details.domain ? ` (${details.domain})` : ''}`];
+      if (details.metadata && process.env.NODE_ENV !== 'production') {
+        lines.push(...Object.entries(details.metadata).map(([key, value]) => `- ${key}: ${value}`));
+      }
+      sections.push(lines.join('\n'));
+    }
+
+    if (details.helpLinks.length > 0) {
+      sections.push(
+        ['Help:', ...details.helpLinks.map((link) => `- ${link.description}: ${link.url}`)].join(
+          '\n'
+        )
+      );
+    }
+
+    return sections;
+  }
+
   /**
    * Data sanitization for logging
    */
@@ -326,6 +524,13 @@ export const ValidationPatterns = {
   // Case name pattern
   CASE_NAME: /^projects\/[a-z0-9\-]+\/cases\/[0-9]+$/,
 
+  // Case name pattern (project or organization parent)
+  RESOURCE_CASE_NAME: /^(projects\/[a-z0-9\-]+|organizations\/[0-9]+)\/cases\/[0-9]+$/,
+
+  // Attachment name pattern (project or organization parent)
+  ATTACHMENT_NAME:
+    /^(projects\/[a-z0-9\-]+|organizations\/[0-9]+)\/cases\/[0-9]+\/attachments\/[^/]+$/,
+
   // Parent resource name pattern (for cases)
   CASE_PARENT: /^projects\/[a-z0-9\-]+\/cases\/[0-9]+$/,
 
@@ -1,6 +1,11 @@
-import { BaseHandler } from './base-handler.js';
-import type { CloseSupportCaseArgs, SupportCaseData } from '../types/index.js';
+import { BaseHandler, type HandlerConfig } from './base-handler.js';
+import type {
+  CloseSupportCaseArgs,
+  SupportCaseData,
+  SupportCaseMutationResult,
+} from '../types/index.js';
 import { apiClient } from '../api/index.js';
+import { buildDryRunResult, isDryRun } from '../utils/dry-run.js';
 
 /**
  * CloseSupportCaseHandler - Support case close functionality handler
@@ -9,8 +14,14 @@ import { apiClient } from '../api/index.js';
  * and returns closed case information.
  */
 export class CloseSupportCaseHandler extends BaseHandler {
+  protected readonly config: HandlerConfig = {
+    operation: 'closing support case',
+    retryProfile: 'light',
+    idempotency: 'idempotent',
+  };
+
   async handle(args: CloseSupportCaseArgs) {
-    try {
+    return this.executeWithErrorHandling(async () => {
       const { name } = args;
 
       // Validate required fields
@@ -20,52 +31,36 @@ export class CloseSupportCaseHandler extends BaseHandler {
 
       // Send POST request using API client (with :close suffix)
       const endpoint = `/v2/${name}:close`;
+      if (isDryRun(args.dryRun)) {
+        return buildDryRunResult(
+          'closing support case',
+          apiClient.previewRequest(endpoint, { method: 'POST', body: {} })
+        );
+      }
       const response = await apiClient.post(endpoint, {});
       const closedCase = response.data as SupportCaseData;
 
-      // Return close result in MCP response format
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify(
-              {
-                message: 'Support case successfully closed',
-                case: {
-                  name: closedCase.name || '',
-                  displayName: closedCase.displayName || '',
-                  description: closedCase.description || '',
-                  state: closedCase.state || '',
-                  priority: closedCase.priority || '',
-                  classification: closedCase.classification || {},
-                  createTime: closedCase.createTime || '',
-                  updateTime: closedCase.updateTime || '',
-                  creator: closedCase.creator || {},
-                  subscriberEmailAddresses: closedCase.subscriberEmailAddresses || [],
-                  testCase: closedCase.testCase || false,
-                  timeZone: closedCase.timeZone || '',
-                  languageCode: closedCase.languageCode || '',
-                  escalated: closedCase.escalated || false,
-                },
-              },
-              null,
-              2
-            ),
-          },
-        ],
-      };
-    } catch (error) {
-      // Error response
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `Error closing support case: ${errorMessage}`,
-          },
-        ],
-        isError: true,
+      // Return close result (BaseHandler converts to MCP format)
+      const result: SupportCaseMutationResult = {
+        message: 'Support case successfully closed',
+        case: {
+          name: closedCase.name || '',
+          displayName: closedCase.displayName || '',
+          description: closedCase.description || '',
+          state: closedCase.state || '',
+          priority: closedCase.priority || '',
+          classification: closedCase.classification || {},
+          createTime: closedCase.createTime || '',
+          updateTime: closedCase.updateTime || '',
+          creator: closedCase.creator || {},
+          subscriberEmailAddresses: closedCase.subscriberEmailAddresses || [],
+          testCase: closedCase.testCase || false,
+          timeZone: closedCase.timeZone || '',
+          languageCode: closedCase.languageCode || '',
+          escalated: closedCase.escalated || false,
+        },
       };
-    }
+      return result;
+    });
   }
 }
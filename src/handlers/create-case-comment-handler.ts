@@ -1,111 +1,156 @@
-import { BaseHandler } from './base-handler.js';
-import type { CreateCaseCommentArgs } from '../types/index.js';
+import { BaseHandler, type HandlerConfig } from './base-handler.js';
+import type {
+  CommentData,
+  CreateCaseCommentArgs,
+  CreateCaseCommentResponse,
+  CreateCaseCommentResult,
+} from '../types/index.js';
+import type { ListCaseCommentsResponse } from '../types/api-response-types.js';
 import { apiClient } from '../api/index.js';
+import { buildDryRunResult, isDryRun } from '../utils/dry-run.js';
+import {
+  appendIdempotencyMarker,
+  creationWindowStart,
+  findMarkedResource,
+  generateIdempotencyMarker,
+  startCreationWindow,
+  type CreationWindow,
+} from '../utils/idempotency.js';
 
 /**
- * CommentData - Comment data type in API response
+ * Maximum comment body length
  */
-interface CommentData {
-  name: string;
-  createTime: string;
-  creator?: {
-    displayName?: string;
-    email?: string;
-    googleSupport?: boolean;
-  };
-  body: string;
-}
+const MAX_COMMENT_BODY_LENGTH = 12800;
 
 /**
  * CreateCaseCommentHandler - Handler for case comment creation functionality
  *
  * Adds comments to cases in compliance with Google Cloud Support API v2 official specifications
- * and returns created comment information.
+ * and returns created comment information. The body carries an idempotency marker, so a
+ * failed attempt is reconciled against the case comments before the comment is sent again.
  */
 export class CreateCaseCommentHandler extends BaseHandler {
+  protected readonly config: HandlerConfig = {
+    operation: 'creating case comment',
+    retryProfile: 'light',
+    idempotency: 'reconcilable',
+  };
+
   async handle(args: CreateCaseCommentArgs) {
-    try {
-      // Validate required parameters
-      if (!args.parent) {
-        throw new Error('parent is required');
-      }
-      if (args.body === undefined || args.body === null) {
-        throw new Error('body is required');
-      }
+    // One marker and creation window per tool call, shared by all of its attempts
+    const marker = generateIdempotencyMarker();
+    const window = startCreationWindow();
+    // Bodies too long to carry the marker cannot be reconciled, so they are sent only once
+    const markable =
+      typeof args.body === 'string' &&
+      appendIdempotencyMarker(args.body, marker).length <= MAX_COMMENT_BODY_LENGTH;
 
-      // Validate body content
-      if (args.body.trim() === '') {
-        throw new Error('body cannot be empty');
-      }
+    return this.executeWithErrorHandling(
+      async () => {
+        // Validate required parameters
+        if (!args.parent) {
+          throw new Error('parent is required');
+        }
+        if (args.body === undefined || args.body === null) {
+          throw new Error('body is required');
+        }
 
-      // Validate body maximum characters (12800 characters)
-      if (args.body.length > 12800) {
-        throw new Error('body exceeds maximum length of 12800 characters');
-      }
+        // Validate body content
+        if (args.body.trim() === '') {
+          throw new Error('body cannot be empty');
+        }
 
-      // Validate parent name format
-      const parentParts = args.parent.split('/');
-      if (
-        parentParts.length !== 4 ||
-        (parentParts[0] !== 'projects' && parentParts[0] !== 'organizations') ||
-        parentParts[2] !== 'cases'
-      ) {
-        throw new Error(
-          'Invalid parent format. Expected: projects/{project_id}/cases/{case_id} or organizations/{org_id}/cases/{case_id}'
-        );
-      }
+        // Validate body maximum characters (12800 characters)
+        if (args.body.length > MAX_COMMENT_BODY_LENGTH) {
+          throw new Error(`body exceeds maximum length of ${MAX_COMMENT_BODY_LENGTH} characters`);
+        }
 
-      const resourceType = parentParts[0];
-      const resourceId = parentParts[1];
-      const caseId = parentParts[3];
+        // Validate parent name format
+        const parentParts = args.parent.split('/');
+        if (
+          parentParts.length !== 4 ||
+          (parentParts[0] !== 'projects' && parentParts[0] !== 'organizations') ||
+          parentParts[2] !== 'cases'
+        ) {
+          throw new Error(
+            'Invalid parent format. Expected: projects/{project_id}/cases/{case_id} or organizations/{org_id}/cases/{case_id}'
+          );
+        }
 
-      // Request body for comment creation
-      const requestBody = {
-        body: args.body,
-      };
+        const resourceType = parentParts[0];
+        const resourceId = parentParts[1];
+        const caseId = parentParts[3];
 
-      // Send POST request using API client
-      const endpoint = `/v2/${resourceType}/${resourceId}/cases/${caseId}/comments`;
-      const response = await apiClient.post(endpoint, requestBody);
-      const createdComment = response.data as unknown as CommentData;
+        // Request body for comment creation; the dry-run preview shows the same marked body
+        const requestBody = {
+          body: markable ? appendIdempotencyMarker(args.body, marker) : args.body,
+        };
 
-      // Return comment creation result in MCP response format
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify(
-              {
-                message: `Comment has been successfully added to case ${args.parent}.`,
-                comment: {
-                  name: createdComment.name || '',
-                  createTime: createdComment.createTime || '',
-                  creator: {
-                    displayName: createdComment.creator?.displayName || 'Unknown',
-                    email: createdComment.creator?.email || '',
-                    googleSupport: createdComment.creator?.googleSupport || false,
-                  },
-                  body: createdComment.body || '',
-                },
-              },
-              null,
-              2
-            ),
-          },
-        ],
-      };
-    } catch (error) {
-      // Error response
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `Error creating case comment: ${errorMessage}`,
-          },
-        ],
-        isError: true,
-      };
+        // Send POST request using API client
+        const endpoint = `/v2/${resourceType}/${resourceId}/cases/${caseId}/comments`;
+        if (isDryRun(args.dryRun)) {
+          return buildDryRunResult(
+            'creating case comment',
+            apiClient.previewRequest(endpoint, { method: 'POST', body: requestBody })
+          );
+        }
+
+        const response = await apiClient.post<CreateCaseCommentResponse>(endpoint, requestBody);
+
+        // Return comment creation result (BaseHandler converts to MCP format)
+        return this.formatResult(args.parent, response.data);
+      },
+      markable ? { reconcile: () => this.findCreatedComment(args.parent, marker, window) } : {}
+    );
+  }
+
+  /**
+   * Find the comment created by an earlier attempt of this call
+   * @param parent Case resource name
+   * @param marker Idempotency marker of the call
+   * @param window Creation window of the call
+   * @returns Creation result, or undefined when no attempt was applied
+   */
+  private async findCreatedComment(
+    parent: string,
+    marker: string,
+    window: CreationWindow
+  ): Promise<CreateCaseCommentResult | undefined> {
+    const windowStart = Date.parse(creationWindowStart(window));
+
+    // Comments are listed newest first, so paging stops at the first comment older than the window
+    for await (const page of apiClient.paginate<ListCaseCommentsResponse>(
+      apiClient.caseMethodEndpoint('v2', 'listComments', parent),
+      { pageSize: 100 }
+    )) {
+      const items = page.comments || [];
+      const comment = findMarkedResource(items, marker, window, (item) => item.body);
+      if (comment) {
+        return this.formatResult(parent, comment);
+      }
+      if (items.some((item) => item.createTime && Date.parse(item.createTime) < windowStart)) {
+        return undefined;
+      }
     }
+    return undefined;
+  }
+
+  /**
+   * Format comment creation result
+   */
+  private formatResult(parent: string, createdComment: CommentData): CreateCaseCommentResult {
+    return {
+      message: `Comment has been successfully added to case ${parent}.`,
+      comment: {
+        name: createdComment.name || '',
+        createTime: createdComment.createTime || '',
+        creator: {
+          displayName: createdComment.creator?.displayName || 'Unknown',
+          email: createdComment.creator?.email || '',
+          googleSupport: createdComment.creator?.googleSupport || false,
+        },
+        body: createdComment.body || '',
+      },
+    };
   }
 }
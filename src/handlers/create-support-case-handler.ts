@@ -1,100 +1,151 @@
-import { BaseHandler } from './base-handler.js';
-import { apiClient } from '../api/index.js';
-import type { CreateSupportCaseArgs } from '../types/index.js';
+import { BaseHandler, type HandlerConfig } from './base-handler.js';
+import { apiClient, compileCaseSearchQuery } from '../api/index.js';
+import type {
+  CreateSupportCaseArgs,
+  SupportCaseData,
+  SupportCaseMutationResult,
+} from '../types/index.js';
 import type { CreateSupportCaseResponse } from '../types/api-response-types.js';
 import type { CreateSupportCaseRequestBody } from '../types/api-request-types.js';
+import { buildDryRunResult, isDryRun } from '../utils/dry-run.js';
+import {
+  appendIdempotencyMarker,
+  creationWindowStart,
+  findMarkedResource,
+  generateIdempotencyMarker,
+  startCreationWindow,
+  type CreationWindow,
+} from '../utils/idempotency.js';
 
 /**
  * CreateSupportCaseHandler
  * Handler responsible for support case creation functionality
+ * The description carries an idempotency marker, so a failed attempt is reconciled
+ * against recently updated cases before the case is sent again.
  */
 export class CreateSupportCaseHandler extends BaseHandler {
+  protected readonly config: HandlerConfig = {
+    operation: 'creating support case',
+    retryProfile: 'light',
+    idempotency: 'reconcilable',
+  };
+
   /**
    * Execute support case creation
    * @param args Case creation conditions (parent resource, display name, description, classification, etc.)
    * @returns Created support case information
    */
   async handle(args: CreateSupportCaseArgs) {
-    try {
-      const {
-        parent,
-        displayName,
-        description,
-        classification,
-        priority,
-        subscriberEmailAddresses,
-        testCase,
-        timeZone,
-        languageCode,
-      } = args;
+    // One marker and creation window per tool call, shared by all of its attempts
+    const marker = generateIdempotencyMarker();
+    const window = startCreationWindow();
+
+    return this.executeWithErrorHandling(
+      async () => {
+        const {
+          parent,
+          displayName,
+          description,
+          classification,
+          priority,
+          subscriberEmailAddresses,
+          testCase,
+          timeZone,
+          languageCode,
+        } = args;
 
-      // Validate required fields
-      if (!parent || !displayName || !description || !classification || !priority) {
-        throw new Error(
-          'Missing required fields: parent, displayName, description, classification, and priority are required'
-        );
-      }
+        // Validate required fields
+        if (!parent || !displayName || !description || !classification || !priority) {
+          throw new Error(
+            'Missing required fields: parent, displayName, description, classification, and priority are required'
+          );
+        }
 
-      // Validate classification.id
-      if (!classification.id) {
-        throw new Error('Missing required field: classification.id is required');
-      }
+        // Validate classification.id
+        if (!classification.id) {
+          throw new Error('Missing required field: classification.id is required');
+        }
 
-      // Get current project ID (for logging)
-      await this.getCurrentProjectIdWithLogging();
+        // Get current project ID (for logging)
+        await this.getCurrentProjectIdWithLogging();
 
-      // Build request body (type-safe)
-      const requestBody: CreateSupportCaseRequestBody = {
-        displayName,
-        description,
-        classification,
-        priority,
-        subscriberEmailAddresses,
-        testCase,
-        timeZone,
-        languageCode,
-      };
+        // Build request body (type-safe); the dry-run preview shows the same marked body
+        const requestBody: CreateSupportCaseRequestBody = {
+          displayName,
+          description: appendIdempotencyMarker(description, marker),
+          classification,
+          priority,
+          subscriberEmailAddresses,
+          testCase,
+          timeZone,
+          languageCode,
+        };
 
-      // Send POST request using API client (type-safe)
-      const endpoint = `/v2/${parent}/cases`;
-      const response = await apiClient.post<CreateSupportCaseResponse>(endpoint, requestBody);
+        // Send POST request using API client (type-safe)
+        const endpoint = `/v2/${parent}/cases`;
+        if (isDryRun(args.dryRun)) {
+          return buildDryRunResult(
+            'creating support case',
+            apiClient.previewRequest(endpoint, { method: 'POST', body: requestBody })
+          );
+        }
+        const response = await apiClient.post<CreateSupportCaseResponse>(endpoint, requestBody);
 
-      const createdCase = response.data as CreateSupportCaseResponse;
+        // Return creation result (BaseHandler converts to MCP format)
+        return this.formatResult(response.data);
+      },
+      { reconcile: () => this.findCreatedCase(args.parent, marker, window) }
+    );
+  }
 
-      // Return creation result in MCP response format
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(
-              {
-                message: 'Support case created successfully',
-                case: {
-                  name: createdCase.name || '',
-                  displayName: createdCase.displayName || '',
-                  description: createdCase.description || '',
-                  state: createdCase.state || '',
-                  priority: createdCase.priority || '',
-                  classification: createdCase.classification || {},
-                  createTime: createdCase.createTime || '',
-                  updateTime: createdCase.updateTime || '',
-                  creator: createdCase.creator || {},
-                  escalated: createdCase.escalated || false,
-                  subscriberEmailAddresses: createdCase.subscriberEmailAddresses || [],
-                  testCase: createdCase.testCase || false,
-                  timeZone: createdCase.timeZone || '',
-                  languageCode: createdCase.languageCode || '',
-                },
-              },
-              null,
-              2
-            ),
-          },
-        ],
-      };
-    } catch (error) {
-      // Use BaseHandler's error handling
-      return this.formatErrorResponse('creating support case', error);
-    }
+  /**
+   * Find the case created by an earlier attempt of this call
+   * New cases are among the cases updated since the creation window started
+   * @param parent Parent resource (projects/{project_id} or organizations/{org_id})
+   * @param marker Idempotency marker of the call
+   * @param window Creation window of the call
+   * @returns Creation result, or undefined when no attempt was applied
+   */
+  private async findCreatedCase(
+    parent: string,
+    marker: string,
+    window: CreationWindow
+  ): Promise<SupportCaseMutationResult | undefined> {
+    const query = compileCaseSearchQuery({
+      ...(parent.startsWith('organizations/') ? { organization: parent } : { project: parent }),
+      updatedAfter: creationWindowStart(window),
+    });
+    const { items } = await apiClient.fetchAll<SupportCaseData>(
+      `/v2/${parent}/cases:search`,
+      'cases',
+      { query, pageSize: 100 }
+    );
+    const createdCase = findMarkedResource(items, marker, window, (item) => item.description);
+    return createdCase && this.formatResult(createdCase);
+  }
+
+  /**
+   * Format case creation result
+   */
+  private formatResult(createdCase: CreateSupportCaseResponse): SupportCaseMutationResult {
+    return {
+      message: 'Support case created successfully',
+      case: {
+        name: createdCase.name || '',
+        displayName: createdCase.displayName || '',
+        description: createdCase.description || '',
+        state: createdCase.state || '',
+        priority: createdCase.priority || '',
+        classification: createdCase.classification || {},
+        createTime: createdCase.createTime || '',
+        updateTime: createdCase.updateTime || '',
+        creator: createdCase.creator || {},
+        escalated: createdCase.escalated || false,
+        subscriberEmailAddresses: createdCase.subscriberEmailAddresses || [],
+        testCase: createdCase.testCase || false,
+        timeZone: createdCase.timeZone || '',
+        languageCode: createdCase.languageCode || '',
+      },
+    };
   }
 }
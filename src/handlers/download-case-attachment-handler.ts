@@ -0,0 +1,203 @@
+/**
+ * DownloadCaseAttachmentHandler - download_case_attachment tool handler
+ *
+ * Downloads attachment content in compliance with Google Cloud Support API v2 official specification
+ * (media download), saving it inside a sandboxed download directory.
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, rename, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, isAbsolute, join, relative, resolve } from 'path';
+import { BaseHandler, type HandlerConfig, ValidationPatterns } from './base-handler.js';
+import { apiClient } from '../api/index.js';
+import { ResourceError, ValidationError } from '../types/errors.js';
+import type {
+  AttachmentData,
+  DownloadCaseAttachmentArgs,
+  DownloadCaseAttachmentResult,
+} from '../types/index.js';
+import type { ListCaseAttachmentsResponse } from '../types/api-response-types.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Maximum number of attachment list pages scanned when looking up metadata
+ */
+const MAX_METADATA_PAGES = 10;
+
+/**
+ * Timeout of one download attempt (10 minutes)
+ */
+const DOWNLOAD_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Resolve the download directory
+ * Uses CLOUD_SUPPORT_DOWNLOAD_DIR when set, otherwise a directory under the OS temp dir
+ */
+export function resolveDownloadDirectory(): string {
+  return resolve(
+    process.env.CLOUD_SUPPORT_DOWNLOAD_DIR || join(tmpdir(), 'cloud-support-mcp', 'attachments')
+  );
+}
+
+/**
+ * Case attachment download handler
+ */
+export class DownloadCaseAttachmentHandler extends BaseHandler {
+  protected readonly config: HandlerConfig = {
+    operation: 'downloading case attachment',
+    retryProfile: 'light',
+    idempotency: 'idempotent',
+    timeoutMs: DOWNLOAD_TIMEOUT_MS,
+    // A timed-out transfer may have been slow rather than failed, so it is not started again
+    retryOnTimeout: false,
+  };
+
+  /**
+   * Download the specified attachment to the download directory
+   * @param args Download conditions (name: attachment resource name, outputFilename, overwrite)
+   * @returns Saved file path and attachment information
+   */
+  async handle(args: DownloadCaseAttachmentArgs) {
+    return await this.executeWithErrorHandling(async (signal) => {
+      this.validateInput(
+        { ...args },
+        [
+          {
+            field: 'name',
+            required: true,
+            type: 'string',
+            pattern: ValidationPatterns.ATTACHMENT_NAME,
+          },
+          { field: 'outputFilename', type: 'string', maxLength: 255 },
+          { field: 'overwrite', type: 'boolean' },
+        ],
+        'downloading case attachment'
+      );
+
+      const { name, overwrite = false } = args;
+
+      // Attachment metadata is only available from the list endpoint
+      const attachment = await this.findAttachment(name);
+
+      const downloadDir = resolveDownloadDirectory();
+      const filename = args.outputFilename || attachment.filename || basename(name);
+      const targetPath = this.resolveSandboxedPath(downloadDir, filename);
+
+      if (!overwrite && (await this.fileExists(targetPath))) {
+        throw new ValidationError(
+          `File already exists: ${targetPath}. Set overwrite to true to replace it.`,
+          'DOWNLOAD_FILE_EXISTS'
+        );
+      }
+
+      await mkdir(downloadDir, { recursive: true });
+
+      // Download to a temporary file and move it into place only after verification
+      // (unique per attempt, so an aborted attempt never touches another attempt's file)
+      const partialPath = `${targetPath}.${randomUUID()}.partial`;
+      const result = await apiClient.download(
+        `/v2/${name}:download`,
+        partialPath,
+        undefined,
+        signal
+      );
+
+      const expectedSize = attachment.sizeBytes !== undefined ? Number(attachment.sizeBytes) : null;
+      if (expectedSize !== null && result.bytesWritten !== expectedSize) {
+        await rm(partialPath, { force: true });
+        throw new ResourceError(
+          `Downloaded size mismatch for ${name}: expected ${expectedSize} bytes, received ${result.bytesWritten} bytes`,
+          'DOWNLOAD_SIZE_MISMATCH'
+        );
+      }
+
+      await rename(partialPath, targetPath);
+
+      logger.info('Attachment downloaded', {
+        attachment: name,
+        bytesWritten: result.bytesWritten,
+      });
+
+      const downloaded: DownloadCaseAttachmentResult = {
+        message: `Attachment has been successfully downloaded to ${targetPath}.`,
+        filePath: targetPath,
+        bytesWritten: result.bytesWritten,
+        attachment: {
+          name: attachment.name || name,
+          filename: attachment.filename || '',
+          mimeType: attachment.mimeType || result.contentType || '',
+          sizeBytes: attachment.sizeBytes || String(result.bytesWritten),
+          createTime: attachment.createTime || '',
+        },
+      };
+      return downloaded;
+    });
+  }
+
+  /**
+   * Find attachment metadata by scanning the case attachment list
+   */
+  private async findAttachment(name: string): Promise<AttachmentData> {
+    const parent = name.substring(0, name.indexOf('/attachments/'));
+    let pageToken: string | undefined;
+
+    for (let page = 0; page < MAX_METADATA_PAGES; page++) {
+      const response = await apiClient.get<ListCaseAttachmentsResponse>(
+        `/v2/${parent}/attachments`,
+        { pageSize: 100, pageToken }
+      );
+      const found = (response.data.attachments || []).find((item) => item.name === name);
+      if (found) {
+        return found;
+      }
+
+      pageToken = response.data.nextPageToken;
+      if (!pageToken) {
+        break;
+      }
+    }
+
+    throw new ResourceError(`Attachment not found: ${name}`, 'ATTACHMENT_NOT_FOUND');
+  }
+
+  /**
+   * Resolve file path and ensure it stays inside the download directory
+   */
+  private resolveSandboxedPath(downloadDir: string, filename: string): string {
+    // Drop any directory components and control characters from the name
+    const safeName = basename(filename.replace(/\\/g, '/'))
+      .replace(/[\x00-\x1f]/g, '')
+      .trim();
+
+    if (!safeName || safeName === '.' || safeName === '..') {
+      throw new ValidationError(
+        `Invalid output filename: ${filename}`,
+        'DOWNLOAD_INVALID_FILENAME'
+      );
+    }
+
+    const targetPath = resolve(downloadDir, safeName);
+    const relativePath = relative(downloadDir, targetPath);
+    if (!relativePath || relativePath.startsWith('..') || isAbsolute(relativePath)) {
+      throw new ValidationError(
+        `Output path escapes the download directory: ${filename}`,
+        'DOWNLOAD_PATH_OUTSIDE_SANDBOX'
+      );
+    }
+
+    return targetPath;
+  }
+
+  /**
+   * Check whether a file exists
+   */
+  private async fileExists(path: string): Promise<boolean> {
+    try {
+      await stat(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * EscalateSupportCaseHandler - escalate_support_case tool handler
+ *
+ * Escalates cases in compliance with Google Cloud Support API v2 official specification.
+ * Inherits from BaseHandler to utilize common error handling and response formatting
+ */
+
+import { BaseHandler, type HandlerConfig, ValidationPatterns } from './base-handler.js';
+import { apiClient } from '../api/index.js';
+import { ValidationError } from '../types/errors.js';
+import {
+  ESCALATION_REASONS,
+  type EscalateSupportCaseArgs,
+  type EscalateSupportCaseResult,
+  type EscalationReason,
+  type SupportCaseData,
+} from '../types/index.js';
+import type {
+  EscalateSupportCaseResponse,
+  GetSupportCaseResponse,
+} from '../types/api-response-types.js';
+import type { EscalateSupportCaseRequestBody } from '../types/api-request-types.js';
+import { buildDryRunResult, isDryRun } from '../utils/dry-run.js';
+
+/**
+ * Maximum length of the escalation justification (API limit)
+ */
+const MAX_JUSTIFICATION_LENGTH = 1000;
+
+/**
+ * Support case escalation handler
+ */
+export class EscalateSupportCaseHandler extends BaseHandler {
+  protected readonly config: HandlerConfig = {
+    operation: 'escalating support case',
+    retryProfile: 'none',
+    idempotency: 'non-idempotent',
+  };
+
+  /**
+   * Escalate the specified support case
+   * @param args Escalation conditions (name: full resource name, reason, justification)
+   * @returns Escalated support case information
+   */
+  async handle(args: EscalateSupportCaseArgs) {
+    return await this.executeWithErrorHandling(async () => {
+      this.validateInput(
+        { ...args },
+        [
+          {
+            field: 'name',
+            required: true,
+            type: 'string',
+            pattern: ValidationPatterns.RESOURCE_CASE_NAME,
+          },
+          {
+            field: 'reason',
+            required: true,
+            type: 'string',
+            customValidator: (value) =>
+              ESCALATION_REASONS.includes(value as EscalationReason)
+                ? null
+                : `must be one of ${ESCALATION_REASONS.join(', ')}`,
+          },
+          {
+            field: 'justification',
+            required: true,
+            type: 'string',
+            maxLength: MAX_JUSTIFICATION_LENGTH,
+            customValidator: (value) =>
+              typeof value === 'string' && value.trim() === '' ? 'cannot be empty' : null,
+          },
+        ],
+        'escalating support case'
+      );
+
+      const { name, reason, justification } = args;
+
+      // Build request body (type-safe)
+      const requestBody: EscalateSupportCaseRequestBody = {
+        escalation: {
+          reason,
+          justification,
+        },
+      };
+      const endpoint = `/v2/${name}:escalate`;
+
+      // Dry run skips the case state check too, so nothing is sent
+      if (isDryRun(args.dryRun)) {
+        return buildDryRunResult(
+          'escalating support case',
+          apiClient.previewRequest(endpoint, { method: 'POST', body: requestBody })
+        );
+      }
+
+      // Check the current case state before escalating
+      const current = await apiClient.get<GetSupportCaseResponse>(`/v2/${name}`);
+      this.assertEscalatable(current.data);
+
+      // Send POST request using API client (with :escalate suffix)
+      const response = await apiClient.post<EscalateSupportCaseResponse>(endpoint, requestBody);
+      const escalatedCase = response.data;
+
+      const result: EscalateSupportCaseResult = {
+        message: 'Support case successfully escalated',
+        escalation: { reason, justification },
+        case: {
+          name: escalatedCase.name || '',
+          displayName: escalatedCase.displayName || '',
+          state: escalatedCase.state || '',
+          priority: escalatedCase.priority || '',
+          createTime: escalatedCase.createTime || '',
+          updateTime: escalatedCase.updateTime || '',
+          escalated: escalatedCase.escalated || false,
+        },
+      };
+      return result;
+    });
+  }
+
+  /**
+   * Reject cases that are closed or have already been escalated
+   */
+  private assertEscalatable(supportCase: SupportCaseData): void {
+    if (supportCase.state === 'CLOSED') {
+      throw new ValidationError(
+        `Support case ${supportCase.name} is closed and cannot be escalated`,
+        'CASE_CLOSED'
+      );
+    }
+
+    if (supportCase.escalated) {
+      throw new ValidationError(
+        `Support case ${supportCase.name} has already been escalated`,
+        'CASE_ALREADY_ESCALATED'
+      );
+    }
+  }
+}
@@ -5,22 +5,28 @@
  * Inherits from BaseHandler to utilize common error handling and response formatting
  */
 
-import { BaseHandler } from './base-handler.js';
+import { BaseHandler, type HandlerConfig } from './base-handler.js';
 import { apiClient } from '../api/index.js';
-import { GetCaseCommentsArgs, CommentData } from '../types/index.js';
+import { GetCaseCommentsArgs, GetCaseCommentsResult, CommentData } from '../types/index.js';
 
 /**
  * Support case comment history retrieval handler
  */
 export class GetCaseCommentsHandler extends BaseHandler {
+  protected readonly config: HandlerConfig = {
+    operation: 'getting case comments',
+    retryProfile: 'light',
+    idempotency: 'read-only',
+  };
+
   /**
    * Retrieve support case comment history
    * @param args Case specification (name: full resource name of the case)
    * @returns List of comment history
    */
   async handle(args: GetCaseCommentsArgs) {
-    return await this.executeWithErrorHandling('getting case comments', async () => {
-      const { name, pageToken } = args;
+    return await this.executeWithErrorHandling(async () => {
+      const { name, pageToken, fetchAll = false, maxItems } = args;
 
       // Validate required fields
       if (!name || !name.trim()) {
@@ -31,13 +37,29 @@ export class GetCaseCommentsHandler extends BaseHandler {
       await this.getCurrentProjectIdWithLogging();
 
       // Send request using API client (using v2 endpoint)
-      const endpoint = `/v2/${name}/comments`;
+      const endpoint = apiClient.caseMethodEndpoint('v2', 'listComments', name);
       const queryParams = pageToken ? { pageToken } : {};
-      const response = await apiClient.get(endpoint, queryParams);
-      const data = response.data as {
-        comments?: CommentData[];
-        nextPageToken?: string;
-      };
+      let data: { comments?: CommentData[]; nextPageToken?: string; truncated?: boolean };
+      if (fetchAll) {
+        // Walk all pages using the largest page size
+        const result = await apiClient.fetchAll<CommentData>(
+          endpoint,
+          'comments',
+          { ...queryParams, pageSize: 100 },
+          { maxItems }
+        );
+        data = {
+          comments: result.items,
+          nextPageToken: result.nextPageToken,
+          truncated: result.truncated,
+        };
+      } else {
+        const response = await apiClient.get(endpoint, queryParams);
+        data = response.data as {
+          comments?: CommentData[];
+          nextPageToken?: string;
+        };
+      }
       const comments = data.comments || [];
 
       // Format comment data
@@ -49,17 +71,7 @@ export class GetCaseCommentsHandler extends BaseHandler {
       }));
 
       // Return response data (BaseHandler converts to MCP format)
-      const result: {
-        caseName: string;
-        totalComments: number;
-        comments: Array<{
-          name: string;
-          createTime: string;
-          creator: string;
-          body: string;
-        }>;
-        nextPageToken?: string;
-      } = {
+      const result: GetCaseCommentsResult = {
         caseName: name,
         totalComments: formattedComments.length,
         comments: formattedComments,
@@ -70,6 +82,11 @@ export class GetCaseCommentsHandler extends BaseHandler {
         result.nextPageToken = data.nextPageToken;
       }
 
+      // Report whether fetchAll stopped before the last page
+      if (fetchAll) {
+        result.truncated = data.truncated || false;
+      }
+
       return result;
     });
   }
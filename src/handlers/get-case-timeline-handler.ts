@@ -0,0 +1,181 @@
+/**
+ * GetCaseTimelineHandler - get_case_timeline tool handler
+ *
+ * Fetches case details, all comments and all attachments concurrently and merges
+ * them into one chronological timeline, so an assistant gets the full history of
+ * a case in a single compact response.
+ */
+
+import { BaseHandler, type HandlerConfig, ValidationPatterns } from './base-handler.js';
+import { apiClient } from '../api/index.js';
+import type {
+  AttachmentData,
+  CommentData,
+  GetCaseTimelineArgs,
+  GetCaseTimelineResult,
+  TimelineActor,
+  TimelineEvent,
+  TimelineEventType,
+} from '../types/index.js';
+import type { Actor } from '../types/common-types.js';
+
+/**
+ * Default maximum comment body length in the timeline
+ */
+const DEFAULT_MAX_BODY_LENGTH = 1000;
+
+/**
+ * Case timeline retrieval handler
+ */
+export class GetCaseTimelineHandler extends BaseHandler {
+  protected readonly config: HandlerConfig = {
+    operation: 'getting case timeline',
+    retryProfile: 'light',
+    idempotency: 'read-only',
+  };
+
+  /**
+   * Retrieve case timeline
+   * @param args Case specification (name: full resource name of the case)
+   * @returns Chronological list of case events
+   */
+  async handle(args: GetCaseTimelineArgs) {
+    return await this.executeWithErrorHandling(async () => {
+      const { name, maxItems, maxBodyLength = DEFAULT_MAX_BODY_LENGTH } = args;
+
+      // Validate required fields
+      this.validateInput(
+        { ...args },
+        [
+          {
+            field: 'name',
+            required: true,
+            type: 'string',
+            pattern: ValidationPatterns.RESOURCE_CASE_NAME,
+          },
+          {
+            field: 'maxBodyLength',
+            type: 'number',
+            customValidator: (value) =>
+              Number.isInteger(value) && (value as number) >= 0
+                ? null
+                : 'must be a non-negative integer',
+          },
+        ],
+        'getting case timeline'
+      );
+
+      // Get current project ID (for logging purposes)
+      await this.getCurrentProjectIdWithLogging();
+
+      // Fetch case, comments and attachments concurrently
+      const [caseResponse, comments, attachments] = await Promise.all([
+        apiClient.readCase('v2beta', 'getCase', name),
+        apiClient.fetchAll<CommentData>(
+          apiClient.caseMethodEndpoint('v2', 'listComments', name),
+          'comments',
+          { pageSize: 100 },
+          { maxItems }
+        ),
+        apiClient.fetchAll<AttachmentData>(
+          apiClient.caseMethodEndpoint('v2', 'listAttachments', name),
+          'attachments',
+          { pageSize: 100 },
+          { maxItems }
+        ),
+      ]);
+      const case_ = caseResponse.data || {};
+
+      const events: TimelineEvent[] = [];
+
+      if (case_.createTime) {
+        events.push({
+          time: case_.createTime,
+          type: 'created',
+          actor: this.getActor(case_.creator),
+          author: this.getAuthor(case_.creator),
+          text: `Case created: ${case_.displayName || name} (${case_.priority || 'no priority'})`,
+        });
+      }
+
+      for (const comment of comments.items) {
+        events.push({
+          time: comment.createTime || '',
+          type: 'comment',
+          actor: this.getActor(comment.creator),
+          author: this.getAuthor(comment.creator),
+          text: this.truncate((comment.body || '').trim(), maxBodyLength),
+        });
+      }
+
+      for (const attachment of attachments.items) {
+        events.push({
+          time: attachment.createTime || '',
+          type: 'attachment',
+          actor: this.getActor(attachment.creator),
+          author: this.getAuthor(attachment.creator),
+          text: `Attached ${attachment.filename || attachment.name || 'file'}${
+            attachment.sizeBytes ? ` (${attachment.sizeBytes} bytes)` : ''
+          }`,
+        });
+      }
+
+      // The API only exposes the current state, so it is marked at the last update
+      if (case_.updateTime && case_.state) {
+        events.push({
+          time: case_.updateTime,
+          type: 'state',
+          actor: 'system',
+          text: `State is ${case_.state}${case_.escalated ? ' (escalated)' : ''}`,
+        });
+      }
+
+      // Sort chronologically (state marker last among events with the same time)
+      const typeOrder: Record<TimelineEventType, number> = {
+        created: 0,
+        comment: 1,
+        attachment: 1,
+        state: 2,
+      };
+      events.sort(
+        (a, b) =>
+          (Date.parse(a.time) || 0) - (Date.parse(b.time) || 0) ||
+          typeOrder[a.type] - typeOrder[b.type]
+      );
+
+      const timeline: GetCaseTimelineResult = {
+        caseName: name,
+        displayName: case_.displayName || '',
+        state: case_.state || '',
+        priority: case_.priority || '',
+        escalated: case_.escalated || false,
+        totalComments: comments.items.length,
+        totalAttachments: attachments.items.length,
+        truncated: comments.truncated || attachments.truncated,
+        events,
+      };
+      return timeline;
+    });
+  }
+
+  /**
+   * Label actor as Google Support or customer
+   */
+  private getActor(actor?: Actor): TimelineActor {
+    return actor?.googleSupport ? 'googleSupport' : 'customer';
+  }
+
+  /**
+   * Get actor display name
+   */
+  private getAuthor(actor?: Actor): string | undefined {
+    return actor?.displayName || actor?.username || actor?.email || undefined;
+  }
+
+  /**
+   * Truncate text to the given length (0 disables truncation)
+   */
+  private truncate(text: string, maxLength: number): string {
+    return maxLength > 0 && text.length > maxLength ? text.substring(0, maxLength) + '...' : text;
+  }
+}
@@ -5,21 +5,27 @@
  * Inherits from BaseHandler to utilize common error handling and response formatting
  */
 
-import { BaseHandler } from './base-handler.js';
+import { BaseHandler, type HandlerConfig } from './base-handler.js';
 import { apiClient } from '../api/index.js';
-import { GetSupportCaseArgs, SupportCaseData } from '../types/index.js';
+import { GetSupportCaseArgs, GetSupportCaseResult, SupportCaseData } from '../types/index.js';
 
 /**
  * Individual support case retrieval handler
  */
 export class GetSupportCaseHandler extends BaseHandler {
+  protected readonly config: HandlerConfig = {
+    operation: 'getting support case',
+    retryProfile: 'light',
+    idempotency: 'read-only',
+  };
+
   /**
    * Retrieve detailed information for the specified support case
    * @param args Case specification (name: full resource name of the case)
    * @returns Detailed information of the support case
    */
   async handle(args: GetSupportCaseArgs) {
-    return await this.executeWithErrorHandling('getting support case', async () => {
+    return await this.executeWithErrorHandling(async () => {
       const { name } = args;
 
       // Validate required fields
@@ -31,12 +37,11 @@ export class GetSupportCaseHandler extends BaseHandler {
       await this.getCurrentProjectIdWithLogging();
 
       // Send request using API client
-      const endpoint = `/v2beta/${name}`;
-      const response = await apiClient.get(endpoint);
-      const supportCase = response.data as SupportCaseData;
+      const response = await apiClient.readCase('v2beta', 'getCase', name);
+      const supportCase: SupportCaseData = response.data;
 
       // Format response data (preserve all fields)
-      const formattedCase = {
+      const formattedCase: GetSupportCaseResult = {
         name: supportCase.name || '',
         displayName: supportCase.displayName || '',
         description: supportCase.description || '',
@@ -12,6 +12,12 @@ export { ListSupportCasesHandler } from './list-support-cases-handler.js';
 export { SearchSupportCasesHandler } from './search-support-cases-handler.js';
 export { UpdateSupportCaseHandler } from './update-support-case-handler.js';
 export { CloseSupportCaseHandler } from './close-support-case-handler.js';
+export { EscalateSupportCaseHandler } from './escalate-support-case-handler.js';
 export { CreateCaseCommentHandler } from './create-case-comment-handler.js';
 export { ListCaseAttachmentsHandler } from './list-case-attachments-handler.js';
+export { UploadCaseAttachmentHandler } from './upload-case-attachment-handler.js';
+export { DownloadCaseAttachmentHandler } from './download-case-attachment-handler.js';
 export { SearchCaseClassificationsHandler } from './search-case-classifications-handler.js';
+export { GetCaseTimelineHandler } from './get-case-timeline-handler.js';
+export { ShowCaseFeedHandler } from './show-case-feed-handler.js';
+export { WhoamiHandler } from './whoami-handler.js';
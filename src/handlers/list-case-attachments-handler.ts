@@ -1,5 +1,10 @@
-import { BaseHandler } from './base-handler.js';
-import type { ListCaseAttachmentsArgs } from '../types/index.js';
+import { BaseHandler, type HandlerConfig } from './base-handler.js';
+import type {
+  AttachmentData,
+  ListCaseAttachmentsArgs,
+  ListCaseAttachmentsResponse,
+  ListCaseAttachmentsResult,
+} from '../types/index.js';
 import { apiClient } from '../api/index.js';
 
 /**
@@ -9,8 +14,14 @@ import { apiClient } from '../api/index.js';
  * and returns attachment information.
  */
 export class ListCaseAttachmentsHandler extends BaseHandler {
+  protected readonly config: HandlerConfig = {
+    operation: 'listing case attachments',
+    retryProfile: 'light',
+    idempotency: 'read-only',
+  };
+
   async handle(args: ListCaseAttachmentsArgs) {
-    try {
+    return this.executeWithErrorHandling(async () => {
       // Validate required parameters
       if (!args.parent) {
         throw new Error('parent is required');
@@ -47,13 +58,29 @@ export class ListCaseAttachmentsHandler extends BaseHandler {
         queryParamsObj.pageToken = args.pageToken;
       }
 
+      if (args.fetchAll) {
+        // Walk all pages using the largest page size
+        const result = await apiClient.fetchAll<AttachmentData>(
+          endpoint,
+          'attachments',
+          { ...queryParamsObj, pageSize: 100 },
+          { maxItems: args.maxItems }
+        );
+
+        const attachments: ListCaseAttachmentsResult = {
+          attachments: result.items,
+          ...(result.nextPageToken && { nextPageToken: result.nextPageToken }),
+          truncated: result.truncated,
+        };
+        return attachments;
+      }
+
       // Execute API call
-      const response = await apiClient.get(endpoint, queryParamsObj);
+      const response = await apiClient.get<ListCaseAttachmentsResponse>(endpoint, queryParamsObj);
 
       // Return response data
-      return this.formatSuccessResponse(response.data);
-    } catch (error) {
-      return this.formatErrorResponse('An error occurred while retrieving attachment list', error);
-    }
+      const attachments: ListCaseAttachmentsResult = response.data;
+      return attachments;
+    });
   }
 }
@@ -5,22 +5,28 @@
  * Inherits from BaseHandler and utilizes common error handling and response format
  */
 
-import { BaseHandler } from './base-handler.js';
+import { BaseHandler, type HandlerConfig } from './base-handler.js';
 import { apiClient } from '../api/index.js';
-import { ListSupportCasesArgs, SupportCaseData } from '../types/index.js';
+import { ListSupportCasesArgs, ListSupportCasesResult, SupportCaseData } from '../types/index.js';
 
 /**
  * Support case list retrieval handler
  */
 export class ListSupportCasesHandler extends BaseHandler {
+  protected readonly config: HandlerConfig = {
+    operation: 'listing support cases',
+    retryProfile: 'light',
+    idempotency: 'read-only',
+  };
+
   /**
    * Get support case list
    * @param args Retrieval conditions (parent: parent resource, filter: filter, pageSize: page size, etc.)
    * @returns Support case list
    */
   async handle(args: ListSupportCasesArgs) {
-    return this.executeWithErrorHandling('listing support cases', async () => {
-      const { parent, filter, pageSize = 50, pageToken } = args;
+    return this.executeWithErrorHandling(async () => {
+      const { parent, filter, pageSize = 50, pageToken, fetchAll = false, maxItems } = args;
 
       // Required field validation
       if (!parent) {
@@ -38,15 +44,31 @@ export class ListSupportCasesHandler extends BaseHandler {
         pageToken,
       };
 
-      const response = await apiClient.get(endpoint, queryParams);
-      const data = response.data as {
-        cases?: SupportCaseData[];
-        nextPageToken?: string;
-      };
+      let data: { cases?: SupportCaseData[]; nextPageToken?: string; truncated?: boolean };
+      if (fetchAll) {
+        // Walk all pages using the largest page size
+        const result = await apiClient.fetchAll<SupportCaseData>(
+          endpoint,
+          'cases',
+          { ...queryParams, pageSize: 100 },
+          { maxItems }
+        );
+        data = {
+          cases: result.items,
+          nextPageToken: result.nextPageToken,
+          truncated: result.truncated,
+        };
+      } else {
+        const response = await apiClient.get(endpoint, queryParams);
+        data = response.data as {
+          cases?: SupportCaseData[];
+          nextPageToken?: string;
+        };
+      }
       const cases = data.cases || [];
 
       // Maintain complete response data structure (API specification compliant)
-      const formattedResponse = {
+      const formattedResponse: ListSupportCasesResult = {
         cases: cases.map((case_: SupportCaseData) => ({
           // Required fields
           name: case_.name || '',
@@ -71,6 +93,7 @@ export class ListSupportCasesHandler extends BaseHandler {
         })),
         ...(data.nextPageToken && { nextPageToken: data.nextPageToken }),
         totalCount: cases.length,
+        ...(fetchAll && { truncated: data.truncated || false }),
       };
 
       return formattedResponse;
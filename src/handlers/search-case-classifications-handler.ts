@@ -1,5 +1,9 @@
-import { BaseHandler } from './base-handler.js';
-import type { SearchCaseClassificationsArgs } from '../types/index.js';
+import { BaseHandler, type HandlerConfig } from './base-handler.js';
+import type {
+  SearchCaseClassificationsArgs,
+  SearchCaseClassificationsResponse,
+  SearchCaseClassificationsResult,
+} from '../types/index.js';
 import { apiClient } from '../api/index.js';
 
 /**
@@ -9,8 +13,14 @@ import { apiClient } from '../api/index.js';
  * and returns classification list.
  */
 export class SearchCaseClassificationsHandler extends BaseHandler {
+  protected readonly config: HandlerConfig = {
+    operation: 'searching case classifications',
+    retryProfile: 'light',
+    idempotency: 'read-only',
+  };
+
   async handle(args: SearchCaseClassificationsArgs) {
-    try {
+    return this.executeWithErrorHandling(async () => {
       // Build API endpoint URL
       const url = '/v2/caseClassifications:search';
 
@@ -30,12 +40,11 @@ export class SearchCaseClassificationsHandler extends BaseHandler {
       }
 
       // Execute API call (X-Goog-User-Project is automatically added in authentication processing)
-      const response = await apiClient.get(url, queryParams);
+      const response = await apiClient.get<SearchCaseClassificationsResponse>(url, queryParams);
 
       // Return response data
-      return this.formatSuccessResponse(response.data);
-    } catch (error) {
-      return this.formatErrorResponse('Error occurred while searching case classifications', error);
-    }
+      const classifications: SearchCaseClassificationsResult = response.data;
+      return classifications;
+    });
   }
 }
@@ -1,20 +1,46 @@
-import { BaseHandler } from './base-handler.js';
-import { apiClient } from '../api/index.js';
-import type { SearchSupportCasesArgs, SupportCaseData } from '../types/index.js';
+import { BaseHandler, type HandlerConfig, ValidationPatterns } from './base-handler.js';
+import { apiClient, compileCaseSearchQuery } from '../api/index.js';
+import type {
+  AppliedSearchFilters,
+  SearchSupportCasesArgs,
+  SearchSupportCasesResult,
+  SupportCaseData,
+} from '../types/index.js';
 
 /**
  * SearchSupportCasesHandler
  * Handler responsible for support case search and filtering functionality
  */
 export class SearchSupportCasesHandler extends BaseHandler {
+  protected readonly config: HandlerConfig = {
+    operation: 'searching support cases',
+    retryProfile: 'light',
+    idempotency: 'read-only',
+  };
+
   /**
    * Execute support case search and filtering
-   * @param args Search conditions (parent resource, query, state, priority, max results)
+   * @param args Search conditions (parent resource, free text, structured filters, max results)
    * @returns Filtered support case list
    */
   async handle(args: SearchSupportCasesArgs) {
-    return this.executeWithErrorHandling('searching support cases', async () => {
-      const { parent, query, state = 'ALL', priority, maxResults = 20 } = args;
+    return this.executeWithErrorHandling(async () => {
+      const {
+        parent,
+        query,
+        state = 'ALL',
+        priority,
+        creatorEmail,
+        billingAccount,
+        updatedAfter,
+        updatedBefore,
+        organization,
+        project,
+        clientSideFilter = false,
+        maxResults = 20,
+        fetchAll = false,
+        maxItems,
+      } = args;
 
       // Validate required parameters
       if (!parent) {
@@ -26,25 +52,50 @@ export class SearchSupportCasesHandler extends BaseHandler {
         throw new Error('Invalid parent format. Must start with "projects/" or "organizations/"');
       }
 
-      // Build API filters
-      let filter = '';
-      const filters = [];
-
-      // Filter by state
-      if (state !== 'ALL') {
-        filters.push(`state=${state}`);
+      // Validate structured criteria
+      if (organization && project) {
+        throw new Error('Only one of organization or project can be specified');
       }
-
-      // Filter by priority
-      if (priority) {
-        filters.push(`priority=${priority}`);
+      if (creatorEmail && !ValidationPatterns.EMAIL.test(creatorEmail)) {
+        throw new Error('creatorEmail format is invalid');
       }
-
-      // Combine filter conditions
-      if (filters.length > 0) {
-        filter = filters.join(' AND ');
+      for (const [field, value] of [
+        ['updatedAfter', updatedAfter],
+        ['updatedBefore', updatedBefore],
+      ] as const) {
+        if (value !== undefined && Number.isNaN(Date.parse(value))) {
+          throw new Error(`${field} must be an RFC 3339 timestamp`);
+        }
       }
 
+      // Compile server-side query (scope defaults to the parent resource)
+      const scope =
+        organization || project
+          ? { organization, project }
+          : parent.startsWith('organizations/')
+            ? { organization: parent.split('/').slice(0, 2).join('/') }
+            : { project: parent.split('/').slice(0, 2).join('/') };
+      const compiledQuery = compileCaseSearchQuery({
+        ...scope,
+        text: clientSideFilter ? undefined : query,
+        state,
+        priorities: priority ? [priority] : undefined,
+        creatorEmail,
+        billingAccount: billingAccount && this.normalizeBillingAccount(billingAccount),
+        updatedAfter,
+      });
+
+      const appliedFilters: AppliedSearchFilters = {
+        state,
+        priority,
+        ...(creatorEmail && { creatorEmail }),
+        ...(billingAccount && { billingAccount }),
+        ...(updatedAfter && { updatedAfter }),
+        ...(updatedBefore && { updatedBefore }),
+        ...scope,
+        clientSideFilter,
+      };
+
       // Get current project ID (for logging purposes)
       await this.getCurrentProjectIdWithLogging();
 
@@ -55,19 +106,36 @@ export class SearchSupportCasesHandler extends BaseHandler {
         pageSize,
       };
 
-      if (filter) queryParams.filter = filter;
-
-      const response = await apiClient.get(endpoint, queryParams);
-      const data = response.data as {
-        cases?: SupportCaseData[];
-        nextPageToken?: string;
-      };
+      if (compiledQuery) queryParams.query = compiledQuery;
+
+      let data: { cases?: SupportCaseData[]; nextPageToken?: string; truncated?: boolean };
+      if (fetchAll) {
+        // Walk all pages using the largest page size
+        const result = await apiClient.fetchAll<SupportCaseData>(
+          endpoint,
+          'cases',
+          { ...queryParams, pageSize: 100 },
+          { maxItems }
+        );
+        data = {
+          cases: result.items,
+          nextPageToken: result.nextPageToken,
+          truncated: result.truncated,
+        };
+      } else {
+        const response = await apiClient.get(endpoint, queryParams);
+        data = response.data as {
+          cases?: SupportCaseData[];
+          nextPageToken?: string;
+        };
+      }
 
       // Handle null or undefined cases
       if (!data) {
         return {
           searchQuery: query,
-          appliedFilters: { state, priority },
+          compiledQuery,
+          appliedFilters,
           totalFound: 0,
           cases: [],
         };
@@ -75,8 +143,8 @@ export class SearchSupportCasesHandler extends BaseHandler {
 
       let cases = data.cases || [];
 
-      // Search filtering by query (client-side)
-      if (query) {
+      // Search filtering by query (client-side, opt-in fallback)
+      if (query && clientSideFilter) {
         const searchTerm = query.toLowerCase();
         cases = cases.filter((case_: SupportCaseData) => {
           const displayName = (case_.displayName || '').toLowerCase();
@@ -95,8 +163,17 @@ export class SearchSupportCasesHandler extends BaseHandler {
         });
       }
 
-      // Format search results and limit count
-      const formattedCases = cases.slice(0, maxResults).map((case_: SupportCaseData) => {
+      // update_time only supports ">" on the server, so upper bounds are applied locally
+      if (updatedBefore) {
+        const upperBound = Date.parse(updatedBefore);
+        cases = cases.filter(
+          (case_: SupportCaseData) => !case_.updateTime || Date.parse(case_.updateTime) < upperBound
+        );
+      }
+
+      // Format search results and limit count (fetchAll is limited by maxItems instead)
+      const limitedCases = fetchAll ? cases : cases.slice(0, maxResults);
+      const formattedCases = limitedCases.map((case_: SupportCaseData) => {
         const description = case_.description || '';
         const truncatedDescription =
           description.length > 200 ? description.substring(0, 200) + '...' : description;
@@ -115,25 +192,10 @@ export class SearchSupportCasesHandler extends BaseHandler {
       });
 
       // Return search results in MCP response format
-      const responseData: {
-        searchQuery: string | undefined;
-        appliedFilters: { state: string; priority: string | undefined };
-        totalFound: number;
-        cases: Array<{
-          name: string;
-          displayName: string;
-          description: string;
-          state: string;
-          priority: string;
-          createTime: string;
-          updateTime: string;
-          creator: string;
-          escalated: boolean;
-        }>;
-        nextPageToken?: string;
-      } = {
+      const responseData: SearchSupportCasesResult = {
         searchQuery: query,
-        appliedFilters: { state, priority },
+        compiledQuery,
+        appliedFilters,
         totalFound: formattedCases.length,
         cases: formattedCases,
       };
@@ -143,7 +205,21 @@ export class SearchSupportCasesHandler extends BaseHandler {
         responseData.nextPageToken = data.nextPageToken;
       }
 
+      // Report whether fetchAll stopped before the last page
+      if (fetchAll) {
+        responseData.truncated = data.truncated || false;
+      }
+
       return responseData;
     });
   }
+
+  /**
+   * Normalize billing account to billingAccounts/{id} form
+   */
+  private normalizeBillingAccount(billingAccount: string): string {
+    return billingAccount.startsWith('billingAccounts/')
+      ? billingAccount
+      : `billingAccounts/${billingAccount}`;
+  }
 }
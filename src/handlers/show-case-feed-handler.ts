@@ -0,0 +1,156 @@
+/**
+ * ShowCaseFeedHandler - show_case_feed tool handler
+ *
+ * Retrieves the unified case feed (v2beta cases.showFeed), which includes email
+ * replies from Google Support that do not appear in the comment list.
+ */
+
+import { BaseHandler, type HandlerConfig, ValidationPatterns } from './base-handler.js';
+import { apiClient } from '../api/index.js';
+import type {
+  CaseFeedItem,
+  FeedItemData,
+  ShowCaseFeedArgs,
+  ShowCaseFeedResult,
+} from '../types/index.js';
+import type { Actor } from '../types/common-types.js';
+
+/**
+ * Case feed retrieval handler
+ */
+export class ShowCaseFeedHandler extends BaseHandler {
+  protected readonly config: HandlerConfig = {
+    operation: 'showing case feed',
+    retryProfile: 'light',
+    idempotency: 'read-only',
+  };
+
+  /**
+   * Retrieve the case feed
+   * @param args Case specification (name: full resource name of the case) and paging options
+   * @returns Comments, email messages and attachments as one feed
+   */
+  async handle(args: ShowCaseFeedArgs) {
+    return await this.executeWithErrorHandling(async () => {
+      this.validateInput(
+        { ...args },
+        [
+          {
+            field: 'name',
+            required: true,
+            type: 'string',
+            pattern: ValidationPatterns.RESOURCE_CASE_NAME,
+          },
+          {
+            field: 'orderBy',
+            type: 'string',
+            pattern: /^creation_time( desc)?$/,
+          },
+        ],
+        'showing case feed'
+      );
+
+      const { name, pageSize, pageToken, orderBy, fetchAll = false, maxItems } = args;
+
+      // Get current project ID (for logging purposes)
+      await this.getCurrentProjectIdWithLogging();
+
+      // showFeed is only available in v2beta
+      const queryParams: Record<string, string | number | undefined> = { pageToken, orderBy };
+      let data: {
+        feedItems?: readonly FeedItemData[];
+        nextPageToken?: string;
+        truncated?: boolean;
+      };
+      if (fetchAll) {
+        // Walk all pages using the largest page size
+        const result = await apiClient.fetchAll<FeedItemData>(
+          apiClient.caseMethodEndpoint('v2beta', 'showFeed', name),
+          'feedItems',
+          { ...queryParams, pageSize: 100 },
+          { maxItems }
+        );
+        data = {
+          feedItems: result.items,
+          nextPageToken: result.nextPageToken,
+          truncated: result.truncated,
+        };
+      } else {
+        const response = await apiClient.readCase('v2beta', 'showFeed', name, {
+          ...queryParams,
+          pageSize: pageSize !== undefined ? Math.max(1, Math.min(pageSize, 100)) : undefined,
+        });
+        data = response.data;
+      }
+
+      const items = (data.feedItems || []).map((item) => this.formatFeedItem(item));
+
+      const result: ShowCaseFeedResult = {
+        caseName: name,
+        totalItems: items.length,
+        items,
+      };
+
+      // Include nextPageToken if it exists
+      if (data.nextPageToken) {
+        result.nextPageToken = data.nextPageToken;
+      }
+
+      // Report whether fetchAll stopped before the last page
+      if (fetchAll) {
+        result.truncated = data.truncated || false;
+      }
+
+      return result;
+    });
+  }
+
+  /**
+   * Format feed item (exactly one of its payload fields is set)
+   */
+  private formatFeedItem(item: FeedItemData): CaseFeedItem {
+    const time = item.eventTime || '';
+
+    if (item.emailMessage) {
+      const email = item.emailMessage;
+      return {
+        time,
+        type: 'emailMessage',
+        name: email.name || '',
+        ...this.formatActor(email.actor),
+        subject: email.subject || '',
+        body: email.bodyContent?.plainText || '',
+        recipients: [...(email.recipientEmailAddresses || []), ...(email.ccEmailAddresses || [])],
+      };
+    }
+
+    const attachment = item.attachment || item.deletedAttachment;
+    if (attachment) {
+      return {
+        time,
+        type: item.attachment ? 'attachment' : 'deletedAttachment',
+        name: attachment.name || '',
+        ...this.formatActor(attachment.creator),
+        filename: attachment.filename || '',
+      };
+    }
+
+    return {
+      time,
+      type: 'comment',
+      name: item.comment?.name || '',
+      ...this.formatActor(item.comment?.creator),
+      body: item.comment?.body || '',
+    };
+  }
+
+  /**
+   * Label actor as Google Support or customer
+   */
+  private formatActor(actor?: Actor): Pick<CaseFeedItem, 'actor' | 'author'> {
+    return {
+      actor: actor?.googleSupport ? 'googleSupport' : 'customer',
+      author: actor?.displayName || actor?.username || actor?.email || '',
+    };
+  }
+}
@@ -1,6 +1,11 @@
-import { BaseHandler } from './base-handler.js';
-import type { UpdateSupportCaseArgs, SupportCaseData } from '../types/index.js';
+import { BaseHandler, type HandlerConfig } from './base-handler.js';
+import type {
+  UpdateSupportCaseArgs,
+  SupportCaseData,
+  SupportCaseMutationResult,
+} from '../types/index.js';
 import { apiClient } from '../api/index.js';
+import { buildDryRunResult, isDryRun } from '../utils/dry-run.js';
 
 /**
  * UpdateSupportCaseHandler - Handler for support case update functionality
@@ -9,8 +14,14 @@ import { apiClient } from '../api/index.js';
  * and returns updated case information.
  */
 export class UpdateSupportCaseHandler extends BaseHandler {
+  protected readonly config: HandlerConfig = {
+    operation: 'updating support case',
+    retryProfile: 'light',
+    idempotency: 'idempotent',
+  };
+
   async handle(args: UpdateSupportCaseArgs) {
-    try {
+    return this.executeWithErrorHandling(async () => {
       const { name, updateMask, priority, displayName, subscriberEmailAddresses } = args;
 
       // Validate required fields
@@ -42,52 +53,36 @@ export class UpdateSupportCaseHandler extends BaseHandler {
 
       // Send PATCH request using API client
       const endpoint = `/v2/${name}`;
+      if (isDryRun(args.dryRun)) {
+        return buildDryRunResult(
+          'updating support case',
+          apiClient.previewRequest(endpoint, { method: 'PATCH', body: requestBody, queryParams })
+        );
+      }
       const response = await apiClient.patch(endpoint, requestBody, queryParams);
       const updatedCase = response.data as SupportCaseData;
 
-      // Return update result in MCP response format
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: JSON.stringify(
-              {
-                message: 'Support case successfully updated',
-                case: {
-                  name: updatedCase.name || '',
-                  displayName: updatedCase.displayName || '',
-                  description: updatedCase.description || '',
-                  state: updatedCase.state || '',
-                  priority: updatedCase.priority || '',
-                  classification: updatedCase.classification || {},
-                  createTime: updatedCase.createTime || '',
-                  updateTime: updatedCase.updateTime || '',
-                  creator: updatedCase.creator || {},
-                  subscriberEmailAddresses: updatedCase.subscriberEmailAddresses || [],
-                  testCase: updatedCase.testCase || false,
-                  timeZone: updatedCase.timeZone || '',
-                  languageCode: updatedCase.languageCode || '',
-                  escalated: updatedCase.escalated || false,
-                },
-              },
-              null,
-              2
-            ),
-          },
-        ],
-      };
-    } catch (error) {
-      // Error response
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      return {
-        content: [
-          {
-            type: 'text' as const,
-            text: `Error updating support case: ${errorMessage}`,
-          },
-        ],
-        isError: true,
+      // Return update result (BaseHandler converts to MCP format)
+      const result: SupportCaseMutationResult = {
+        message: 'Support case successfully updated',
+        case: {
+          name: updatedCase.name || '',
+          displayName: updatedCase.displayName || '',
+          description: updatedCase.description || '',
+          state: updatedCase.state || '',
+          priority: updatedCase.priority || '',
+          classification: updatedCase.classification || {},
+          createTime: updatedCase.createTime || '',
+          updateTime: updatedCase.updateTime || '',
+          creator: updatedCase.creator || {},
+          subscriberEmailAddresses: updatedCase.subscriberEmailAddresses || [],
+          testCase: updatedCase.testCase || false,
+          timeZone: updatedCase.timeZone || '',
+          languageCode: updatedCase.languageCode || '',
+          escalated: updatedCase.escalated || false,
+        },
       };
-    }
+      return result;
+    });
   }
 }
@@ -0,0 +1,211 @@
+/**
+ * UploadCaseAttachmentHandler - upload_case_attachment tool handler
+ *
+ * Uploads attachments to cases in compliance with Google Cloud Support API v2 official specification
+ * (media upload), using a local file or base64-encoded content as the source.
+ */
+
+import { stat, readFile, realpath } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, isAbsolute, join, relative, resolve } from 'path';
+import { BaseHandler, type HandlerConfig, ValidationPatterns } from './base-handler.js';
+import { apiClient } from '../api/index.js';
+import { ValidationError } from '../types/errors.js';
+import type { UploadCaseAttachmentArgs, UploadCaseAttachmentResult } from '../types/index.js';
+import type { UploadCaseAttachmentResponse } from '../types/api-response-types.js';
+import { detectMimeType } from '../utils/mime-types.js';
+import { buildDryRunResult, isDryRun } from '../utils/dry-run.js';
+
+/**
+ * Maximum attachment size accepted by the Support API (30 MiB)
+ */
+export const MAX_ATTACHMENT_SIZE_BYTES = 30 * 1024 * 1024;
+
+/**
+ * Base64 content pattern (whitespace is stripped before matching)
+ */
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * Resolve the upload directory
+ * Uses CLOUD_SUPPORT_UPLOAD_DIR when set, otherwise a directory under the OS temp dir
+ */
+export function resolveUploadDirectory(): string {
+  return resolve(
+    process.env.CLOUD_SUPPORT_UPLOAD_DIR || join(tmpdir(), 'cloud-support-mcp', 'uploads')
+  );
+}
+
+/**
+ * Case attachment upload handler
+ * Local files are only read from inside the upload directory
+ */
+export class UploadCaseAttachmentHandler extends BaseHandler {
+  protected readonly config: HandlerConfig = {
+    operation: 'uploading case attachment',
+    retryProfile: 'none',
+    idempotency: 'non-idempotent',
+  };
+
+  /**
+   * Upload an attachment to the specified support case
+   * @param args Upload conditions (parent: case name, filePath or content, filename, mimeType)
+   * @returns Created attachment information
+   */
+  async handle(args: UploadCaseAttachmentArgs) {
+    return await this.executeWithErrorHandling(async () => {
+      this.validateInput(
+        { ...args },
+        [
+          {
+            field: 'parent',
+            required: true,
+            type: 'string',
+            pattern: ValidationPatterns.RESOURCE_CASE_NAME,
+          },
+          { field: 'filePath', type: 'string' },
+          { field: 'content', type: 'string' },
+          { field: 'filename', type: 'string', maxLength: 255 },
+          { field: 'mimeType', type: 'string' },
+        ],
+        'uploading case attachment'
+      );
+
+      const { parent, filePath, content } = args;
+
+      if ((filePath === undefined) === (content === undefined)) {
+        throw new ValidationError(
+          'Exactly one of filePath or content must be specified',
+          'ATTACHMENT_SOURCE_INVALID'
+        );
+      }
+
+      const filename = args.filename || (filePath ? basename(filePath) : undefined);
+      if (!filename) {
+        throw new ValidationError(
+          'filename is required when uploading base64 content',
+          'ATTACHMENT_FILENAME_REQUIRED'
+        );
+      }
+
+      const data = filePath ? await this.readLocalFile(filePath) : this.decodeContent(content!);
+      if (data.byteLength === 0) {
+        throw new ValidationError('Attachment content is empty', 'ATTACHMENT_EMPTY');
+      }
+
+      const mimeType = args.mimeType || detectMimeType(filename);
+
+      // Send multipart media upload request using API client
+      const endpoint = `/upload/v2/${parent}/attachments`;
+      const multipart = {
+        metadata: { attachment: { filename } },
+        media: { data, mimeType },
+      };
+      if (isDryRun(args.dryRun)) {
+        return buildDryRunResult(
+          'uploading case attachment',
+          apiClient.previewRequest(endpoint, { method: 'POST', multipart })
+        );
+      }
+      const response = await apiClient.upload<UploadCaseAttachmentResponse>(endpoint, multipart);
+      const attachment = response.data;
+
+      const result: UploadCaseAttachmentResult = {
+        message: `Attachment has been successfully uploaded to case ${parent}.`,
+        attachment: {
+          name: attachment.name || '',
+          filename: attachment.filename || filename,
+          mimeType: attachment.mimeType || mimeType,
+          sizeBytes: attachment.sizeBytes || String(data.byteLength),
+          createTime: attachment.createTime || '',
+          creator: attachment.creator || {},
+        },
+      };
+      return result;
+    });
+  }
+
+  /**
+   * Read local file after checking location, type and size limit
+   */
+  private async readLocalFile(filePath: string): Promise<Buffer> {
+    const sandboxedPath = await this.resolveSandboxedPath(filePath);
+
+    let fileStats;
+    try {
+      fileStats = await stat(sandboxedPath);
+    } catch (error) {
+      throw new ValidationError(
+        `File not found or not accessible: ${filePath}`,
+        'ATTACHMENT_FILE_NOT_FOUND',
+        {},
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    if (!fileStats.isFile()) {
+      throw new ValidationError(`Not a regular file: ${filePath}`, 'ATTACHMENT_NOT_A_FILE');
+    }
+
+    this.assertWithinSizeLimit(fileStats.size);
+    return readFile(sandboxedPath);
+  }
+
+  /**
+   * Resolve file path and ensure it stays inside the upload directory
+   * Relative paths are resolved against the upload directory. Symbolic links are
+   * resolved before the check, so they cannot point outside of it.
+   */
+  private async resolveSandboxedPath(filePath: string): Promise<string> {
+    const uploadDir = resolveUploadDirectory();
+    let realUploadDir: string;
+    let realFilePath: string;
+    try {
+      realUploadDir = await realpath(uploadDir);
+      realFilePath = await realpath(resolve(uploadDir, filePath));
+    } catch (error) {
+      throw new ValidationError(
+        `File not found or not accessible: ${filePath}`,
+        'ATTACHMENT_FILE_NOT_FOUND',
+        {},
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    const relativePath = relative(realUploadDir, realFilePath);
+    if (!relativePath || relativePath.startsWith('..') || isAbsolute(relativePath)) {
+      throw new ValidationError(
+        `File is outside the upload directory (${uploadDir}): ${filePath}`,
+        'ATTACHMENT_PATH_OUTSIDE_SANDBOX'
+      );
+    }
+
+    return realFilePath;
+  }
+
+  /**
+   * Decode base64 content after checking format and size limit
+   */
+  private decodeContent(content: string): Buffer {
+    const normalized = content.replace(/\s+/g, '');
+    if (!BASE64_PATTERN.test(normalized)) {
+      throw new ValidationError('content must be valid base64', 'ATTACHMENT_CONTENT_INVALID');
+    }
+
+    // Check the decoded size before allocating the buffer
+    this.assertWithinSizeLimit(Math.floor((normalized.length * 3) / 4));
+    return Buffer.from(normalized, 'base64');
+  }
+
+  /**
+   * Enforce the Support API attachment size limit
+   */
+  private assertWithinSizeLimit(sizeBytes: number): void {
+    if (sizeBytes > MAX_ATTACHMENT_SIZE_BYTES) {
+      throw new ValidationError(
+        `Attachment size ${sizeBytes} bytes exceeds the maximum of ${MAX_ATTACHMENT_SIZE_BYTES} bytes`,
+        'ATTACHMENT_TOO_LARGE'
+      );
+    }
+  }
+}
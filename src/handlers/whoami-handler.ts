@@ -0,0 +1,46 @@
+/**
+ * WhoamiHandler - whoami tool handler
+ *
+ * Reports the active authentication method, principal and quota project.
+ * The access token itself is never included in the response.
+ */
+
+import { BaseHandler, type HandlerConfig } from './base-handler.js';
+import { getAuthIdentity } from '../api/index.js';
+import type { WhoamiResult } from '../types/index.js';
+
+/**
+ * Authentication identity handler
+ */
+export class WhoamiHandler extends BaseHandler {
+  protected readonly config: HandlerConfig = {
+    operation: 'getting authentication identity',
+    retryProfile: 'light',
+    idempotency: 'read-only',
+  };
+
+  /**
+   * Get the active authentication identity (the tool takes no arguments of its own)
+   * @returns Authentication method, principal and quota project
+   */
+  async handle() {
+    return await this.executeWithErrorHandling(async () => {
+      const identity = await getAuthIdentity();
+
+      const result: WhoamiResult = {
+        method: identity.method,
+        principal: identity.principal || 'unknown',
+        quotaProject: identity.quotaProject,
+        tokenExpiresAt: identity.tokenExpiresAt,
+        configuration: {
+          pinnedMethod: identity.pinnedMethod,
+          allowFallback: identity.allowFallback,
+          gcloudConfiguration: identity.gcloudConfiguration,
+          gcloudAccount: identity.gcloudAccount,
+          impersonationDelegates: identity.impersonationDelegates,
+        },
+      };
+      return result;
+    });
+  }
+}
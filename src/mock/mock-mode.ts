@@ -0,0 +1,34 @@
+/**
+ * Offline mock mode
+ *
+ * Runs the whole MCP server without Google Cloud: starts the in-process mock
+ * Support API, points the API client at it (CLOUD_SUPPORT_API_BASE_URL) and
+ * pins the fake authentication method (CLOUD_SUPPORT_AUTH_METHOD=fake).
+ */
+
+import { AuthMethod, clearCredentialCache, resetAuthConfig } from '../api/index.js';
+import { logger } from '../utils/logger.js';
+import { MockSupportApiServer, type MockSupportApiOptions } from './mock-support-api.js';
+
+/**
+ * Start mock mode
+ * @param options Mock server options
+ * @returns Running mock server (close it on shutdown)
+ */
+export async function startMockMode(
+  options: MockSupportApiOptions = {}
+): Promise<MockSupportApiServer> {
+  const mockServer = new MockSupportApiServer(options);
+  const baseUrl = await mockServer.start();
+
+  process.env.CLOUD_SUPPORT_API_BASE_URL = baseUrl;
+  process.env.CLOUD_SUPPORT_AUTH_METHOD = AuthMethod.FAKE;
+  // Drop configuration and credentials resolved before the switch
+  resetAuthConfig();
+  clearCredentialCache();
+
+  logger.warn('Mock mode enabled: serving from the mock Support API with fake credentials', {
+    baseUrl,
+  });
+  return mockServer;
+}
@@ -0,0 +1,861 @@
+/**
+ * Mock Google Cloud Support API server
+ *
+ * In-process fake of the Support API for local development and tests.
+ * Keeps cases, comments, email messages and attachments in memory and serves
+ * the v2 / v2beta endpoints used by this server:
+ *
+ * - cases: list, get, create, patch, search, close, escalate, showFeed
+ * - comments: list, create
+ * - attachments: list, upload (multipart), download (alt=media)
+ * - emailMessages: list (v2beta)
+ * - caseClassifications: search
+ *
+ * List endpoints are paginated with pageSize / pageToken. Errors can be
+ * injected per method and path to exercise error handling. Any bearer token is
+ * accepted, but requests without one are rejected like the real API.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { FAKE_AUTH_PROJECT_ID } from '../api/auth-config.js';
+import { BAD_REQUEST_TYPE, RETRY_INFO_TYPE } from '../api/error-response.js';
+import type {
+  Actor,
+  AttachmentData,
+  CaseClassification,
+  CommentData,
+  EmailMessageData,
+  ErrorDetail,
+  FeedItemData,
+  SupportCaseData,
+} from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Project seeded with sample cases (the project of the fake authentication method)
+ */
+export const MOCK_PROJECT_ID = FAKE_AUTH_PROJECT_ID;
+
+/**
+ * Default page size of list endpoints
+ */
+const DEFAULT_PAGE_SIZE = 10;
+
+/**
+ * Maximum page size of list endpoints
+ */
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Maximum request body size (attachments included)
+ */
+const MAX_BODY_BYTES = 32 * 1024 * 1024;
+
+/**
+ * Customer actor used for resources created through the mock
+ */
+const MOCK_CUSTOMER: Actor = {
+  displayName: 'Mock User',
+  email: 'mock-user@example.com',
+  googleSupport: false,
+};
+
+/**
+ * Google Support actor used for seeded replies
+ */
+const MOCK_GOOGLE_SUPPORT: Actor = {
+  displayName: 'Google Cloud Support',
+  googleSupport: true,
+};
+
+/**
+ * Case classifications returned by caseClassifications:search
+ */
+const MOCK_CLASSIFICATIONS: readonly CaseClassification[] = [
+  { id: '100001', displayName: 'Compute > Compute Engine > Instance' },
+  { id: '100002', displayName: 'Compute > Google Kubernetes Engine > Cluster' },
+  { id: '100003', displayName: 'Storage > Cloud Storage > Bucket' },
+  { id: '100004', displayName: 'Databases > Cloud SQL > Instance' },
+  { id: '100005', displayName: 'Networking > Cloud Load Balancing' },
+  { id: '100006', displayName: 'Billing > Invoices' },
+];
+
+/**
+ * Canonical status names of HTTP error codes (google.rpc.Code)
+ */
+const STATUS_NAMES: Readonly<Record<number, string>> = {
+  400: 'INVALID_ARGUMENT',
+  401: 'UNAUTHENTICATED',
+  403: 'PERMISSION_DENIED',
+  404: 'NOT_FOUND',
+  409: 'ALREADY_EXISTS',
+  429: 'RESOURCE_EXHAUSTED',
+  500: 'INTERNAL',
+  501: 'UNIMPLEMENTED',
+  503: 'UNAVAILABLE',
+};
+
+/**
+ * Error injection rule
+ */
+export interface MockErrorInjection {
+  readonly method?: string; // HTTP method (any method when omitted)
+  readonly path?: string | RegExp; // Substring or pattern of the request path (any path when omitted)
+  readonly status: number; // HTTP status to return
+  readonly message?: string; // Error message
+  readonly times?: number; // Number of requests to fail (default: 1)
+  readonly retryDelay?: string; // Retry delay sent as RetryInfo and Retry-After (e.g. "1s")
+}
+
+/**
+ * Recorded request
+ */
+export interface MockRequestRecord {
+  readonly method: string;
+  readonly path: string;
+}
+
+/**
+ * Mock server options
+ */
+export interface MockSupportApiOptions {
+  readonly host?: string; // Bind address (default: 127.0.0.1)
+  readonly port?: number; // Port (default: random free port)
+  readonly seed?: boolean; // Seed sample cases (default: true)
+}
+
+/**
+ * Stored attachment
+ */
+interface StoredAttachment {
+  readonly data: AttachmentData;
+  readonly content: Buffer;
+}
+
+/**
+ * Mock API error
+ */
+class MockApiError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly details: readonly ErrorDetail[] = []
+  ) {
+    super(message);
+  }
+
+  /**
+   * Invalid argument error with a BadRequest field violation
+   */
+  static fieldViolation(field: string, description: string): MockApiError {
+    return new MockApiError(400, description, [
+      { '@type': BAD_REQUEST_TYPE, fieldViolations: [{ field, description }] },
+    ]);
+  }
+}
+
+/**
+ * Mock Cloud Support API server
+ */
+export class MockSupportApiServer {
+  private httpServer?: Server;
+  private readonly cases = new Map<string, SupportCaseData>();
+  private readonly comments = new Map<string, CommentData[]>();
+  private readonly emailMessages = new Map<string, EmailMessageData[]>();
+  private readonly attachments = new Map<string, StoredAttachment[]>();
+  private injections: Array<MockErrorInjection & { remaining: number }> = [];
+  private nextId = 1000;
+  private url?: string;
+
+  /**
+   * Requests received so far (method and path, for assertions in tests)
+   */
+  readonly requests: MockRequestRecord[] = [];
+
+  constructor(private readonly options: MockSupportApiOptions = {}) {
+    if (options.seed ?? true) {
+      this.seed();
+    }
+  }
+
+  /**
+   * Base URL of the running server (pass to CloudSupportApiClient)
+   * @throws {Error} When the server has not been started
+   */
+  get baseUrl(): string {
+    if (!this.url) {
+      throw new Error('Mock Support API server is not running');
+    }
+    return this.url;
+  }
+
+  /**
+   * Start listening
+   * @returns Base URL of the server
+   */
+  async start(): Promise<string> {
+    const httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        logger.error('Mock Support API request failed', error);
+        if (!res.headersSent) {
+          this.sendError(res, 500, 'Internal mock server error');
+        }
+      });
+    });
+    this.httpServer = httpServer;
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port ?? 0, this.options.host ?? '127.0.0.1', () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    const address = httpServer.address() as AddressInfo;
+    const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+    this.url = `http://${host}:${address.port}`;
+    logger.info(`Mock Support API server listening on ${this.url}`);
+    return this.url;
+  }
+
+  /**
+   * Stop listening and close open connections
+   */
+  async close(): Promise<void> {
+    const httpServer = this.httpServer;
+    if (!httpServer) {
+      return;
+    }
+    this.httpServer = undefined;
+    this.url = undefined;
+    await new Promise<void>((resolve) => {
+      httpServer.close(() => resolve());
+      httpServer.closeAllConnections();
+    });
+  }
+
+  /**
+   * Fail matching requests with an error response
+   * @param injection Error injection rule
+   */
+  injectError(injection: MockErrorInjection): void {
+    this.injections.push({ ...injection, remaining: injection.times ?? 1 });
+  }
+
+  /**
+   * Drop all data, injected errors and recorded requests
+   * @param seed Seed sample cases again (default: true)
+   */
+  reset(seed = true): void {
+    this.cases.clear();
+    this.comments.clear();
+    this.emailMessages.clear();
+    this.attachments.clear();
+    this.injections = [];
+    this.requests.length = 0;
+    if (seed) {
+      this.seed();
+    }
+  }
+
+  /**
+   * Add a Google Support reply to a case (simulates activity on the support side)
+   * @param caseName Case resource name
+   * @param body Comment body
+   * @returns Created comment
+   */
+  addSupportComment(caseName: string, body: string): CommentData {
+    return this.addComment(this.getCase(caseName), body, MOCK_GOOGLE_SUPPORT);
+  }
+
+  /**
+   * Seed sample cases
+   */
+  private seed(): void {
+    const parent = `projects/${MOCK_PROJECT_ID}`;
+
+    const open = this.insertCase(parent, {
+      displayName: 'VM instances unreachable after maintenance',
+      description: 'Instances in us-central1-a stopped responding after a host maintenance event.',
+      classification: MOCK_CLASSIFICATIONS[0],
+      priority: 'P2',
+      state: 'IN_PROGRESS_GOOGLE_SUPPORT',
+    });
+    this.addComment(
+      open,
+      'Serial console shows a kernel panic after the live migration.',
+      MOCK_CUSTOMER
+    );
+    this.addComment(
+      open,
+      'Thank you for the details. We are investigating the affected hosts.',
+      MOCK_GOOGLE_SUPPORT
+    );
+    this.emailMessages.set(open.name!, [
+      {
+        name: `${open.name}/emailMessages/1`,
+        createTime: this.timestamp(),
+        actor: MOCK_GOOGLE_SUPPORT,
+        subject: `[${open.name}] Update on your case`,
+        recipientEmailAddresses: [MOCK_CUSTOMER.email!],
+        bodyContent: { plainText: 'A fix is being rolled out to the affected zone.' },
+      },
+    ]);
+
+    this.insertCase(parent, {
+      displayName: 'Invoice shows unexpected charges',
+      description: 'The October invoice includes charges for a deleted project.',
+      classification: MOCK_CLASSIFICATIONS[5],
+      priority: 'P4',
+      state: 'CLOSED',
+    });
+  }
+
+  /**
+   * Handle HTTP request
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = req.method || 'GET';
+    this.requests.push({ method, path: url.pathname });
+
+    try {
+      this.applyInjectedErrors(method, url.pathname);
+
+      if (!req.headers.authorization?.startsWith('Bearer ')) {
+        throw new MockApiError(401, 'Request is missing required authentication credential');
+      }
+
+      const match = url.pathname.match(/^(\/upload)?\/(v2|v2beta)\/(.+)$/);
+      if (!match) {
+        throw new MockApiError(404, `Unknown endpoint: ${url.pathname}`);
+      }
+      const isUpload = Boolean(match[1]);
+      const path = decodeURIComponent(match[3]);
+      const body = method === 'GET' ? Buffer.alloc(0) : await this.readBody(req);
+
+      if (isUpload) {
+        this.sendJson(res, this.uploadAttachment(path, req, body));
+        return;
+      }
+
+      if (path.endsWith(':download') && method === 'GET') {
+        const attachment = this.getAttachment(path.slice(0, -':download'.length));
+        res.writeHead(200, {
+          'Content-Type': attachment.data.mimeType || 'application/octet-stream',
+          'Content-Length': attachment.content.byteLength,
+        });
+        res.end(attachment.content);
+        return;
+      }
+
+      this.sendJson(res, this.route(method, path, url.searchParams, body));
+    } catch (error) {
+      if (error instanceof MockApiError) {
+        this.sendError(res, error.status, error.message, error.details);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Route JSON API request
+   */
+  private route(method: string, path: string, query: URLSearchParams, body: Buffer): unknown {
+    const key = `${method} ${path}`;
+    let match: RegExpMatchArray | null;
+
+    if (key === 'GET caseClassifications:search') {
+      return this.searchClassifications(query);
+    }
+
+    if ((match = path.match(/^((?:projects|organizations)\/[^/]+)\/cases$/))) {
+      if (method === 'GET') return this.listCases(match[1], query);
+      if (method === 'POST') return this.createCase(match[1], this.parseJson(body));
+    }
+
+    if ((match = path.match(/^((?:projects|organizations)\/[^/]+)\/cases:search$/))) {
+      if (method === 'GET') return this.searchCases(match[1], query);
+    }
+
+    if ((match = path.match(/^((?:projects|organizations)\/[^/]+\/cases\/[^/:]+)(.*)$/))) {
+      const caseName = match[1];
+      switch (`${method} ${match[2]}`) {
+        case 'GET ':
+          return this.getCase(caseName);
+        case 'PATCH ':
+          return this.updateCase(caseName, this.parseJson(body), query);
+        case 'POST :close':
+          return this.closeCase(caseName);
+        case 'POST :escalate':
+          return this.escalateCase(caseName, this.parseJson(body));
+        case 'GET :showFeed':
+          return this.showFeed(caseName, query);
+        case 'GET /comments':
+          // Newest first, like the Support API
+          return this.paginate(
+            [...(this.comments.get(this.getCase(caseName).name!) || [])].reverse(),
+            'comments',
+            query
+          );
+        case 'POST /comments':
+          return this.createComment(caseName, this.parseJson(body));
+        case 'GET /attachments':
+          return this.paginate(
+            (this.attachments.get(this.getCase(caseName).name!) || []).map((a) => a.data),
+            'attachments',
+            query
+          );
+        case 'GET /emailMessages':
+          return this.paginate(
+            this.emailMessages.get(this.getCase(caseName).name!) || [],
+            'emailMessages',
+            query
+          );
+      }
+    }
+
+    throw new MockApiError(404, `Unknown endpoint: ${method} ${path}`);
+  }
+
+  /**
+   * List cases of a parent (filter supports state= restrictions)
+   */
+  private listCases(parent: string, query: URLSearchParams): unknown {
+    const states = [...(query.get('filter') || '').matchAll(/state=(\w+)/g)].map((m) => m[1]);
+    const cases = this.casesOf(parent).filter((case_) =>
+      states.every((state) => this.matchesState(case_, state))
+    );
+    return this.paginate(cases, 'cases', query);
+  }
+
+  /**
+   * Search cases of a parent
+   * Supports state=, priority= (with OR), creator.email= and quoted free text restrictions;
+   * the scope restrictions (project=, organization=) are implied by the parent.
+   */
+  private searchCases(parent: string, query: URLSearchParams): unknown {
+    const expression = query.get('query') || '';
+    const states = [...expression.matchAll(/state=(\w+)/g)].map((m) => m[1]);
+    const priorities = [...expression.matchAll(/priority=(\w+)/g)].map((m) => m[1]);
+    const creator = expression.match(/creator\.email="([^"]*)"/)?.[1];
+    // Quoted values that are not the right-hand side of a restriction are free text
+    const texts = [...expression.matchAll(/(^|\sAND\s)"((?:[^"\\]|\\.)*)"/g)].map((m) =>
+      m[2].replace(/\\(.)/g, '$1').toLowerCase()
+    );
+
+    const cases = this.casesOf(parent).filter(
+      (case_) =>
+        states.every((state) => this.matchesState(case_, state)) &&
+        (priorities.length === 0 || priorities.includes(case_.priority || '')) &&
+        (!creator || case_.creator?.email === creator) &&
+        texts.every((text) =>
+          `${case_.displayName} ${case_.description}`.toLowerCase().includes(text)
+        )
+    );
+    return this.paginate(cases, 'cases', query);
+  }
+
+  /**
+   * Match state restriction (OPEN matches every state except CLOSED)
+   */
+  private matchesState(case_: SupportCaseData, state: string): boolean {
+    return state === 'OPEN' ? case_.state !== 'CLOSED' : case_.state === state;
+  }
+
+  /**
+   * Create case
+   */
+  private createCase(parent: string, body: Record<string, unknown>): SupportCaseData {
+    const classification = body.classification as CaseClassification | undefined;
+    if (typeof body.displayName !== 'string' || !body.displayName) {
+      throw MockApiError.fieldViolation('case.displayName', 'displayName is required');
+    }
+    if (!classification?.id) {
+      throw MockApiError.fieldViolation('case.classification.id', 'classification.id is required');
+    }
+    const known = MOCK_CLASSIFICATIONS.find((candidate) => candidate.id === classification.id);
+    if (!known) {
+      throw MockApiError.fieldViolation(
+        'case.classification.id',
+        `Unknown classification: ${classification.id}`
+      );
+    }
+
+    return this.insertCase(parent, {
+      ...(body as SupportCaseData),
+      classification: known,
+      priority: (body.priority as SupportCaseData['priority']) || 'P3',
+      state: 'NEW',
+    });
+  }
+
+  /**
+   * Update case fields listed in updateMask (all provided fields when omitted)
+   */
+  private updateCase(
+    caseName: string,
+    body: Record<string, unknown>,
+    query: URLSearchParams
+  ): SupportCaseData {
+    const case_ = this.getCase(caseName);
+    const updatable = ['displayName', 'description', 'priority', 'subscriberEmailAddresses'];
+    const mask =
+      query
+        .get('updateMask')
+        ?.split(',')
+        .map((field) => field.trim()) ?? Object.keys(body);
+
+    for (const field of mask) {
+      if (!updatable.includes(field)) {
+        throw MockApiError.fieldViolation('update_mask', `Field cannot be updated: ${field}`);
+      }
+      (case_ as Record<string, unknown>)[field] = body[field];
+    }
+    case_.updateTime = this.timestamp();
+    return case_;
+  }
+
+  /**
+   * Close case
+   */
+  private closeCase(caseName: string): SupportCaseData {
+    const case_ = this.getCase(caseName);
+    case_.state = 'CLOSED';
+    case_.updateTime = this.timestamp();
+    return case_;
+  }
+
+  /**
+   * Escalate case
+   */
+  private escalateCase(caseName: string, body: Record<string, unknown>): SupportCaseData {
+    const case_ = this.getCase(caseName);
+    const escalation = body.escalation as { reason?: string; justification?: string } | undefined;
+    if (!escalation?.reason || !escalation.justification) {
+      throw MockApiError.fieldViolation(
+        'escalation',
+        'escalation.reason and escalation.justification are required'
+      );
+    }
+    if (case_.state === 'CLOSED') {
+      throw new MockApiError(400, 'Closed cases cannot be escalated');
+    }
+    if (case_.escalated) {
+      throw new MockApiError(400, 'Case is already escalated');
+    }
+    case_.escalated = true;
+    case_.updateTime = this.timestamp();
+    return case_;
+  }
+
+  /**
+   * Create comment
+   */
+  private createComment(caseName: string, body: Record<string, unknown>): CommentData {
+    if (typeof body.body !== 'string' || !body.body) {
+      throw MockApiError.fieldViolation('comment.body', 'body is required');
+    }
+    return this.addComment(this.getCase(caseName), body.body, MOCK_CUSTOMER);
+  }
+
+  /**
+   * Show case feed (comments, email messages and attachments)
+   */
+  private showFeed(caseName: string, query: URLSearchParams): unknown {
+    const name = this.getCase(caseName).name!;
+    const items: FeedItemData[] = [
+      ...(this.comments.get(name) || []).map((comment) => ({
+        eventTime: comment.createTime,
+        comment,
+      })),
+      ...(this.emailMessages.get(name) || []).map((emailMessage) => ({
+        eventTime: emailMessage.createTime,
+        emailMessage,
+      })),
+      ...(this.attachments.get(name) || []).map(({ data }) => ({
+        eventTime: data.createTime,
+        attachment: data,
+      })),
+    ];
+    items.sort((a, b) => (a.eventTime || '').localeCompare(b.eventTime || ''));
+    if (query.get('orderBy') === 'creation_time desc') {
+      items.reverse();
+    }
+    return this.paginate(items, 'feedItems', query);
+  }
+
+  /**
+   * Search case classifications (displayName:"*text*" filters by substring)
+   */
+  private searchClassifications(query: URLSearchParams): unknown {
+    const text = (query.get('query') || '').match(/displayName:"\*?([^"*]*)\*?"/)?.[1];
+    const classifications = MOCK_CLASSIFICATIONS.filter(
+      (classification) =>
+        !text || classification.displayName!.toLowerCase().includes(text.toLowerCase())
+    );
+    return this.paginate(classifications, 'caseClassifications', query);
+  }
+
+  /**
+   * Store uploaded attachment (multipart/related: JSON metadata part, then media part)
+   */
+  private uploadAttachment(path: string, req: IncomingMessage, body: Buffer): AttachmentData {
+    const match = path.match(/^((?:projects|organizations)\/[^/]+\/cases\/[^/:]+)\/attachments$/);
+    if (req.method !== 'POST' || !match) {
+      throw new MockApiError(404, `Unknown upload endpoint: ${path}`);
+    }
+    const case_ = this.getCase(match[1]);
+
+    const boundary = req.headers['content-type']?.match(/boundary=([^;]+)/)?.[1];
+    if (!boundary) {
+      throw new MockApiError(400, 'multipart/related boundary is required');
+    }
+    const parts = this.splitMultipart(body, boundary);
+    if (parts.length !== 2) {
+      throw new MockApiError(400, 'Expected metadata and media parts');
+    }
+
+    const metadata = this.parseJson(parts[0].content) as {
+      attachment?: { filename?: string };
+    };
+    if (!metadata.attachment?.filename) {
+      throw new MockApiError(400, 'attachment.filename is required');
+    }
+
+    const attachments = this.attachments.get(case_.name!) || [];
+    const data: AttachmentData = {
+      name: `${case_.name}/attachments/${this.nextId++}`,
+      createTime: this.timestamp(),
+      creator: MOCK_CUSTOMER,
+      filename: metadata.attachment.filename,
+      mimeType: parts[1].contentType || 'application/octet-stream',
+      sizeBytes: String(parts[1].content.byteLength),
+    };
+    attachments.push({ data, content: parts[1].content });
+    this.attachments.set(case_.name!, attachments);
+    case_.updateTime = data.createTime;
+    return data;
+  }
+
+  /**
+   * Find attachment by resource name
+   */
+  private getAttachment(name: string): StoredAttachment {
+    const caseName = name.replace(/\/attachments\/[^/]+$/, '');
+    const attachment = (this.attachments.get(caseName) || []).find(
+      (candidate) => candidate.data.name === name
+    );
+    if (!attachment) {
+      throw new MockApiError(404, `Attachment not found: ${name}`);
+    }
+    return attachment;
+  }
+
+  /**
+   * Find case by resource name
+   */
+  private getCase(caseName: string): SupportCaseData {
+    const case_ = this.cases.get(caseName);
+    if (!case_) {
+      throw new MockApiError(404, `Case not found: ${caseName}`);
+    }
+    return case_;
+  }
+
+  /**
+   * Cases of a parent, newest first
+   */
+  private casesOf(parent: string): SupportCaseData[] {
+    return [...this.cases.values()]
+      .filter((case_) => case_.name!.startsWith(`${parent}/`))
+      .reverse();
+  }
+
+  /**
+   * Insert case with generated name and timestamps
+   */
+  private insertCase(parent: string, fields: SupportCaseData): SupportCaseData {
+    const now = this.timestamp();
+    const case_: SupportCaseData = {
+      ...fields,
+      name: `${parent}/cases/${this.nextId++}`,
+      createTime: now,
+      updateTime: now,
+      creator: MOCK_CUSTOMER,
+      escalated: false,
+    };
+    this.cases.set(case_.name!, case_);
+    return case_;
+  }
+
+  /**
+   * Append comment and bump the case update time
+   */
+  private addComment(case_: SupportCaseData, body: string, creator: Actor): CommentData {
+    const comments = this.comments.get(case_.name!) || [];
+    const comment: CommentData = {
+      name: `${case_.name}/comments/${this.nextId++}`,
+      createTime: this.timestamp(),
+      creator,
+      body,
+      plainTextBody: body,
+    };
+    comments.push(comment);
+    this.comments.set(case_.name!, comments);
+    case_.updateTime = comment.createTime;
+    return comment;
+  }
+
+  /**
+   * Return one page of items (pageToken is the offset of the page)
+   */
+  private paginate<T>(items: readonly T[], key: string, query: URLSearchParams): unknown {
+    const pageSize = Math.min(Number(query.get('pageSize')) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const pageToken = query.get('pageToken');
+    const offset = pageToken ? Number(pageToken) : 0;
+    if (!Number.isInteger(offset) || offset < 0 || offset > items.length) {
+      throw new MockApiError(400, 'Invalid page token');
+    }
+
+    const end = offset + pageSize;
+    return {
+      [key]: items.slice(offset, end),
+      ...(end < items.length && { nextPageToken: String(end) }),
+    };
+  }
+
+  /**
+   * Throw the first matching injected error
+   */
+  private applyInjectedErrors(method: string, path: string): void {
+    const injection = this.injections.find(
+      (candidate) =>
+        candidate.remaining > 0 &&
+        (!candidate.method || candidate.method.toUpperCase() === method) &&
+        (!candidate.path ||
+          (typeof candidate.path === 'string'
+            ? path.includes(candidate.path)
+            : candidate.path.test(path)))
+    );
+    if (injection) {
+      injection.remaining--;
+      throw new MockApiError(
+        injection.status,
+        injection.message || 'Injected error',
+        injection.retryDelay ? [{ '@type': RETRY_INFO_TYPE, retryDelay: injection.retryDelay }] : []
+      );
+    }
+  }
+
+  /**
+   * Split multipart body into parts
+   */
+  private splitMultipart(
+    body: Buffer,
+    boundary: string
+  ): Array<{ contentType?: string; content: Buffer }> {
+    const delimiter = Buffer.from(`--${boundary}`);
+    const parts: Array<{ contentType?: string; content: Buffer }> = [];
+
+    let start = body.indexOf(delimiter);
+    while (start !== -1) {
+      const next = body.indexOf(delimiter, start + delimiter.length);
+      if (next === -1) break;
+
+      // Part: CRLF, headers, blank line, content, CRLF
+      const part = body.subarray(start + delimiter.length + 2, next - 2);
+      const headerEnd = part.indexOf('\r\n\r\n');
+      if (headerEnd !== -1) {
+        const headers = part.subarray(0, headerEnd).toString('utf8');
+        parts.push({
+          contentType: headers.match(/content-type:\s*([^\r\n]+)/i)?.[1].trim(),
+          content: part.subarray(headerEnd + 4),
+        });
+      }
+      start = next;
+    }
+    return parts;
+  }
+
+  /**
+   * Read request body (bounded)
+   */
+  private async readBody(req: IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > MAX_BODY_BYTES) {
+        throw new MockApiError(400, 'Request body too large');
+      }
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Parse JSON request body
+   */
+  private parseJson(body: Buffer): Record<string, unknown> {
+    if (body.length === 0) {
+      return {};
+    }
+    try {
+      const parsed: unknown = JSON.parse(body.toString('utf8'));
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error('not an object');
+      }
+      return parsed as Record<string, unknown>;
+    } catch {
+      throw new MockApiError(400, 'Invalid JSON payload');
+    }
+  }
+
+  /**
+   * Current time as RFC 3339 timestamp
+   */
+  private timestamp(): string {
+    return new Date().toISOString();
+  }
+
+  /**
+   * Send JSON response
+   */
+  private sendJson(res: ServerResponse, data: unknown): void {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+  }
+
+  /**
+   * Send error in the google.rpc.Status format of the real API
+   */
+  private sendError(
+    res: ServerResponse,
+    status: number,
+    message: string,
+    details: readonly ErrorDetail[] = []
+  ): void {
+    const retryDelay = details.find((detail) => detail['@type'] === RETRY_INFO_TYPE)?.retryDelay;
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      // Retry-After only supports whole seconds
+      ...(typeof retryDelay === 'string' && {
+        'Retry-After': String(Math.ceil(parseFloat(retryDelay))),
+      }),
+    });
+    res.end(
+      JSON.stringify({
+        error: {
+          code: status,
+          message,
+          status: STATUS_NAMES[status] || 'UNKNOWN',
+          ...(details.length > 0 && { details }),
+        },
+      })
+    );
+  }
+}
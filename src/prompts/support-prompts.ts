@@ -0,0 +1,273 @@
+/**
+ * Support workflow prompts
+ *
+ * Prompt templates for common on-call support workflows. Case data is pulled
+ * through the support case resources (and therefore the same handlers as the
+ * tools) and embedded in the prompt messages, so the model starts from the
+ * current state of the case.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { GetPromptResult, Prompt, PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { getCurrentProjectId } from '../api/index.js';
+import { quoteQueryValue } from '../api/query-compiler.js';
+import type { ToolHandlerMap } from '../utils/tool-dispatcher.js';
+import { buildSupportCaseUri, parseSupportCaseUri } from '../resources/resource-uri.js';
+import type { SupportCaseResourceProvider } from '../resources/support-case-resources.js';
+
+/**
+ * Prompt names
+ */
+export const SUPPORT_PROMPT_NAMES = [
+  'draft_p1_case',
+  'summarize_case_handoff',
+  'request_eta_followup',
+] as const;
+
+export type SupportPromptName = (typeof SUPPORT_PROMPT_NAMES)[number];
+
+/**
+ * Handlers used to pre-fill prompts
+ */
+export type PromptHandlers = Pick<ToolHandlerMap, 'search_case_classifications'>;
+
+/**
+ * Maximum number of suggested classifications in the draft prompt
+ */
+const MAX_SUGGESTED_CLASSIFICATIONS = 10;
+
+/**
+ * Case parent pattern
+ */
+const PARENT_PATTERN = /^(projects\/[a-z0-9-]+|organizations\/[0-9]+)$/;
+
+/**
+ * Prompt definitions
+ */
+const PROMPT_DEFINITIONS: Record<SupportPromptName, Prompt> = {
+  draft_p1_case: {
+    name: 'draft_p1_case',
+    title: 'Draft a P1 case from an incident',
+    description:
+      'Draft a P1 support case (display name, description, classification) from an incident report',
+    arguments: [
+      {
+        name: 'incident',
+        description: 'Incident summary, impact, timeline and error messages',
+        required: true,
+      },
+      {
+        name: 'product',
+        description: 'Affected product (e.g. "Compute Engine"), used to suggest classifications',
+      },
+      {
+        name: 'parent',
+        description: 'Project or organization to file the case under (default: current project)',
+      },
+    ],
+  },
+  summarize_case_handoff: {
+    name: 'summarize_case_handoff',
+    title: 'Summarize case history for handoff',
+    description: 'Summarize the state and history of a support case for an on-call handoff',
+    arguments: [
+      {
+        name: 'caseName',
+        description: 'Case resource name (projects/{project}/cases/{caseId})',
+        required: true,
+      },
+    ],
+  },
+  request_eta_followup: {
+    name: 'request_eta_followup',
+    title: 'Write a follow-up asking for an ETA',
+    description: 'Write a follow-up comment asking Google Support for an ETA on a case',
+    arguments: [
+      {
+        name: 'caseName',
+        description: 'Case resource name (projects/{project}/cases/{caseId})',
+        required: true,
+      },
+      {
+        name: 'context',
+        description: 'Additional context, such as business impact or deadlines',
+      },
+    ],
+  },
+};
+
+/**
+ * Support workflow prompt provider
+ */
+export class SupportPromptProvider {
+  constructor(
+    private readonly resources: SupportCaseResourceProvider,
+    private readonly handlers: PromptHandlers
+  ) {}
+
+  /**
+   * List available prompts
+   */
+  listPrompts(): Prompt[] {
+    return SUPPORT_PROMPT_NAMES.map((name) => PROMPT_DEFINITIONS[name]);
+  }
+
+  /**
+   * Get a prompt with its messages pre-filled
+   * @param name Prompt name
+   * @param args Prompt arguments
+   * @returns Prompt description and messages
+   * @throws {McpError} When the prompt is unknown or an argument is invalid
+   */
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+    if (!this.isSupportedPrompt(name)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    for (const argument of PROMPT_DEFINITIONS[name].arguments || []) {
+      if (argument.required && !args[argument.name]?.trim()) {
+        throw new McpError(ErrorCode.InvalidParams, `${argument.name} is required`);
+      }
+    }
+
+    let messages: PromptMessage[];
+    switch (name) {
+      case 'draft_p1_case':
+        messages = await this.draftP1Case(args.incident, args.product, args.parent);
+        break;
+      case 'summarize_case_handoff':
+        messages = await this.summarizeCaseHandoff(args.caseName);
+        break;
+      case 'request_eta_followup':
+        messages = await this.requestEtaFollowup(args.caseName, args.context);
+        break;
+    }
+
+    return { description: PROMPT_DEFINITIONS[name].description, messages };
+  }
+
+  /**
+   * Check prompt name
+   */
+  private isSupportedPrompt(name: string): name is SupportPromptName {
+    return (SUPPORT_PROMPT_NAMES as readonly string[]).includes(name);
+  }
+
+  /**
+   * Build draft P1 case prompt
+   */
+  private async draftP1Case(
+    incident: string,
+    product?: string,
+    parent?: string
+  ): Promise<PromptMessage[]> {
+    if (parent && !PARENT_PATTERN.test(parent)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'parent must be projects/{project} or organizations/{organization}'
+      );
+    }
+    const caseParent = parent || `projects/${await getCurrentProjectId()}`;
+
+    const messages: PromptMessage[] = [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: [
+            `Draft a P1 Google Cloud support case under ${caseParent} for the incident below.`,
+            'P1 means high impact: a production system is severely impaired.',
+            'Provide a concise displayName, a description covering impact, timeline, affected',
+            'resources, error messages and troubleshooting done so far, and the best matching',
+            'classification. Then call create_support_case with priority P1 once the user confirms.',
+            '',
+            'Incident:',
+            incident,
+          ].join('\n'),
+        },
+      },
+    ];
+
+    if (product?.trim()) {
+      const result = await this.handlers.search_case_classifications.handle({
+        query: `displayName:${quoteQueryValue(`*${product.trim()}*`)}`,
+        pageSize: MAX_SUGGESTED_CLASSIFICATIONS,
+      });
+      if (!result.isError) {
+        messages.push({
+          role: 'user',
+          content: {
+            type: 'text',
+            text: `Candidate classifications for "${product.trim()}":\n${result.content[0]?.text ?? ''}`,
+          },
+        });
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Build case handoff summary prompt
+   */
+  private async summarizeCaseHandoff(caseName: string): Promise<PromptMessage[]> {
+    const caseMessages = await this.readCase(caseName);
+
+    return [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: [
+            `Summarize support case ${caseName} for an on-call handoff.`,
+            'Cover: current state and priority, the problem, what has been tried,',
+            'the latest update from Google Support, open action items and who owns them,',
+            'and what the next on-call engineer should watch for.',
+          ].join('\n'),
+        },
+      },
+      ...caseMessages,
+    ];
+  }
+
+  /**
+   * Build ETA follow-up prompt
+   */
+  private async requestEtaFollowup(caseName: string, context?: string): Promise<PromptMessage[]> {
+    const caseMessages = await this.readCase(caseName);
+    const lines = [
+      `Write a follow-up comment on support case ${caseName} asking Google Support for an ETA.`,
+      'Be polite and specific: reference the latest update, restate the business impact,',
+      'and ask for the expected time of the next update and of the resolution.',
+      'Then call create_case_comment with the comment once the user confirms.',
+    ];
+    if (context?.trim()) {
+      lines.push('', 'Additional context:', context.trim());
+    }
+
+    return [{ role: 'user', content: { type: 'text', text: lines.join('\n') } }, ...caseMessages];
+  }
+
+  /**
+   * Read case details and comments as embedded resources
+   */
+  private async readCase(caseName: string): Promise<PromptMessage[]> {
+    const uri = buildSupportCaseUri(caseName);
+    if (parseSupportCaseUri(uri)?.kind !== 'case') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'caseName must be projects/{project}/cases/{caseId} or organizations/{organization}/cases/{caseId}'
+      );
+    }
+
+    const results = await Promise.all([
+      this.resources.readResource(uri),
+      this.resources.readResource(buildSupportCaseUri(caseName, 'comments')),
+    ]);
+
+    return results.map((result) => ({
+      role: 'user' as const,
+      content: { type: 'resource' as const, resource: result.contents[0] },
+    }));
+  }
+}
@@ -0,0 +1,419 @@
+/**
+ * Support case resource subscriptions
+ *
+ * Implements resources/subscribe by polling subscribed cases. A case is
+ * considered updated when its updateTime, state or newest comment changes,
+ * in which case notifications/resources/updated is sent to the subscribing
+ * session.
+ *
+ * In HTTP passthrough mode polls use the caller token presented when subscribing.
+ * When the API rejects that token (e.g. it expired), the subscription is dropped;
+ * the client has to subscribe again with a fresh token.
+ *
+ * Environment variables:
+ * - CLOUD_SUPPORT_SUBSCRIPTION_POLL_INTERVAL_MS: Poll interval (default: 60 seconds, minimum: 10 seconds)
+ * - CLOUD_SUPPORT_MAX_SUBSCRIPTIONS: Maximum number of subscriptions across all sessions (default: 50)
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { apiClient, runWithRequestContext, type RequestContext } from '../api/index.js';
+import { ConfigurationError } from '../types/errors.js';
+import type { ListCaseCommentsResponse } from '../types/api-response-types.js';
+import { logger } from '../utils/logger.js';
+import { LIGHT_RETRY_CONFIG, RetryMechanism } from '../utils/retry.js';
+import { parseSupportCaseUri } from './resource-uri.js';
+
+/**
+ * Default poll interval (60 seconds)
+ */
+export const DEFAULT_SUBSCRIPTION_POLL_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Minimum poll interval (10 seconds)
+ */
+export const MIN_SUBSCRIPTION_POLL_INTERVAL_MS = 10 * 1000;
+
+/**
+ * Default maximum number of subscriptions
+ */
+export const DEFAULT_MAX_SUBSCRIPTIONS = 50;
+
+/**
+ * Upper bound of the poll backoff after repeated failures (15 minutes)
+ */
+export const MAX_SUBSCRIPTION_BACKOFF_MS = 15 * 60 * 1000;
+
+/**
+ * Subscription configuration
+ */
+export interface SubscriptionConfig {
+  readonly pollIntervalMs: number;
+  readonly maxSubscriptions: number;
+}
+
+/**
+ * Session that receives resource update notifications (one MCP server instance)
+ */
+export interface SubscriptionSession {
+  sendResourceUpdated(params: { uri: string }): Promise<void>;
+}
+
+/**
+ * Polled case state
+ */
+interface CaseSnapshot {
+  readonly updateTime?: string;
+  readonly state?: string;
+  readonly latestComment?: string; // Name of the newest comment
+}
+
+/**
+ * Subscription entry
+ */
+interface Subscription {
+  readonly uri: string;
+  readonly caseName: string;
+  readonly session: SubscriptionSession;
+  context: RequestContext; // Credentials of the subscriber (HTTP passthrough mode)
+  snapshot: CaseSnapshot;
+  failures: number; // Consecutive poll failures
+  nextPollAt: number; // Epoch milliseconds
+}
+
+/**
+ * Check whether the API rejected the credentials of a request (HTTP 401)
+ */
+function isUnauthenticatedError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    error.name === 'ApiError' &&
+    (error as Error & { status?: number }).status === 401
+  );
+}
+
+/**
+ * Parse positive integer environment variable
+ */
+function parsePositiveInteger(value: string, source: string, min: number): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new ConfigurationError(
+      `Invalid value "${value}" for ${source}. Expected an integer of at least ${min}`,
+      'SUBSCRIPTION_CONFIG_INVALID_NUMBER'
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Resolve subscription configuration
+ * @param env Environment variables
+ * @returns Subscription configuration
+ * @throws {ConfigurationError} When a setting is invalid
+ */
+export function resolveSubscriptionConfig(
+  env: NodeJS.ProcessEnv = process.env
+): SubscriptionConfig {
+  const pollInterval = env.CLOUD_SUPPORT_SUBSCRIPTION_POLL_INTERVAL_MS;
+  const maxSubscriptions = env.CLOUD_SUPPORT_MAX_SUBSCRIPTIONS;
+
+  return {
+    pollIntervalMs: pollInterval
+      ? parsePositiveInteger(
+          pollInterval,
+          'CLOUD_SUPPORT_SUBSCRIPTION_POLL_INTERVAL_MS',
+          MIN_SUBSCRIPTION_POLL_INTERVAL_MS
+        )
+      : DEFAULT_SUBSCRIPTION_POLL_INTERVAL_MS,
+    maxSubscriptions: maxSubscriptions
+      ? parsePositiveInteger(maxSubscriptions, 'CLOUD_SUPPORT_MAX_SUBSCRIPTIONS', 1)
+      : DEFAULT_MAX_SUBSCRIPTIONS,
+  };
+}
+
+/**
+ * Resource subscription manager
+ *
+ * Polls one subscription at a time on a single timer, so the number of
+ * in-flight API calls stays bounded regardless of the number of sessions.
+ */
+export class ResourceSubscriptionManager {
+  private readonly sessions = new Map<SubscriptionSession, Map<string, Subscription>>();
+  private timer?: NodeJS.Timeout;
+  private polling?: Promise<void>;
+  private stopped = false;
+
+  constructor(
+    private readonly config: SubscriptionConfig = resolveSubscriptionConfig(),
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Number of active subscriptions across all sessions
+   */
+  get subscriptionCount(): number {
+    let count = 0;
+    for (const subscriptions of this.sessions.values()) {
+      count += subscriptions.size;
+    }
+    return count;
+  }
+
+  /**
+   * Subscribe a session to a resource
+   * The current state is recorded so that only later changes are notified.
+   * @param session Session to notify
+   * @param uri Resource URI
+   * @param context Request context used for polling
+   * @throws {McpError} When the URI is unknown, the limit is reached or the case cannot be read
+   */
+  async subscribe(
+    session: SubscriptionSession,
+    uri: string,
+    context: RequestContext = {}
+  ): Promise<void> {
+    const ref = parseSupportCaseUri(uri);
+    if (!ref) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+    if (this.stopped) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Server is shutting down');
+    }
+
+    const existing = this.sessions.get(session)?.get(uri);
+    if (existing) {
+      existing.context = context;
+      return;
+    }
+    if (this.subscriptionCount >= this.config.maxSubscriptions) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Subscription limit reached (${this.config.maxSubscriptions})`
+      );
+    }
+
+    let snapshot: CaseSnapshot;
+    try {
+      snapshot = await this.fetchSnapshot(ref.caseName, context);
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed to subscribe to ${uri}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    // Re-check after the await (concurrent subscribe calls)
+    if (this.stopped || this.subscriptionCount >= this.config.maxSubscriptions) {
+      throw new McpError(ErrorCode.InvalidRequest, `Cannot subscribe to ${uri}`);
+    }
+
+    let subscriptions = this.sessions.get(session);
+    if (!subscriptions) {
+      subscriptions = new Map();
+      this.sessions.set(session, subscriptions);
+    }
+    subscriptions.set(uri, {
+      uri,
+      caseName: ref.caseName,
+      session,
+      context,
+      snapshot,
+      failures: 0,
+      nextPollAt: this.now() + this.config.pollIntervalMs,
+    });
+    logger.info('Resource subscription added', { uri, subscriptions: this.subscriptionCount });
+
+    this.schedule();
+  }
+
+  /**
+   * Unsubscribe a session from a resource
+   * @param session Subscribed session
+   * @param uri Resource URI
+   */
+  unsubscribe(session: SubscriptionSession, uri: string): void {
+    const subscriptions = this.sessions.get(session);
+    if (subscriptions?.delete(uri)) {
+      logger.info('Resource subscription removed', { uri });
+    }
+    if (subscriptions?.size === 0) {
+      this.sessions.delete(session);
+    }
+    if (this.sessions.size === 0) {
+      this.clearTimer();
+    }
+  }
+
+  /**
+   * Remove all subscriptions of a closed session
+   * @param session Closed session
+   */
+  removeSession(session: SubscriptionSession): void {
+    if (this.sessions.delete(session) && this.sessions.size === 0) {
+      this.clearTimer();
+    }
+  }
+
+  /**
+   * Poll all subscriptions that are due
+   * Called by the timer; exposed for tests.
+   */
+  async pollDue(): Promise<void> {
+    if (this.polling) {
+      return this.polling;
+    }
+
+    this.polling = (async () => {
+      const due = [...this.sessions.values()]
+        .flatMap((subscriptions) => [...subscriptions.values()])
+        .filter((subscription) => subscription.nextPollAt <= this.now());
+
+      for (const subscription of due) {
+        if (this.stopped) break;
+        // Skip subscriptions removed while earlier ones were polled
+        if (this.sessions.get(subscription.session)?.get(subscription.uri) !== subscription) {
+          continue;
+        }
+        await this.poll(subscription);
+      }
+    })().finally(() => {
+      this.polling = undefined;
+    });
+
+    return this.polling;
+  }
+
+  /**
+   * Stop polling and drop all subscriptions
+   * Waits for an in-flight poll to finish.
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.clearTimer();
+    await this.polling;
+    this.sessions.clear();
+  }
+
+  /**
+   * Poll one subscription and notify its session on change
+   */
+  private async poll(subscription: Subscription): Promise<void> {
+    let snapshot: CaseSnapshot;
+    try {
+      snapshot = await this.fetchSnapshot(subscription.caseName, subscription.context);
+    } catch (error) {
+      // A rejected caller token will not become valid again, so polling it is pointless
+      if (subscription.context.accessToken && isUnauthenticatedError(error)) {
+        logger.warn(
+          'Dropping resource subscription: the caller token was rejected (expired or revoked). Subscribe again with a valid token.',
+          { uri: subscription.uri }
+        );
+        this.unsubscribe(subscription.session, subscription.uri);
+        return;
+      }
+
+      // Back off exponentially while the case cannot be read
+      subscription.failures++;
+      const backoff = Math.min(
+        this.config.pollIntervalMs * Math.pow(2, subscription.failures),
+        MAX_SUBSCRIPTION_BACKOFF_MS
+      );
+      subscription.nextPollAt = this.now() + backoff;
+      logger.warn('Resource subscription poll failed', {
+        uri: subscription.uri,
+        failures: subscription.failures,
+        nextPollInMs: backoff,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    subscription.failures = 0;
+    subscription.nextPollAt = this.now() + this.config.pollIntervalMs;
+
+    const previous = subscription.snapshot;
+    subscription.snapshot = snapshot;
+    if (
+      previous.updateTime === snapshot.updateTime &&
+      previous.state === snapshot.state &&
+      previous.latestComment === snapshot.latestComment
+    ) {
+      return;
+    }
+
+    logger.info('Subscribed resource updated', { uri: subscription.uri });
+    try {
+      await subscription.session.sendResourceUpdated({ uri: subscription.uri });
+    } catch (error) {
+      // The session is gone; stop polling for it
+      logger.warn('Failed to send resource update notification', {
+        uri: subscription.uri,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.removeSession(subscription.session);
+    }
+  }
+
+  /**
+   * Fetch case state and newest comment
+   * Comments are listed newest first, so one comment is enough to detect new ones
+   */
+  private fetchSnapshot(caseName: string, context: RequestContext): Promise<CaseSnapshot> {
+    return runWithRequestContext(context, () =>
+      RetryMechanism.execute(
+        async () => {
+          const [caseResponse, commentsResponse] = await Promise.all([
+            apiClient.readCase('v2beta', 'getCase', caseName),
+            apiClient.get<ListCaseCommentsResponse>(
+              apiClient.caseMethodEndpoint('v2', 'listComments', caseName),
+              { pageSize: 1 }
+            ),
+          ]);
+          return {
+            updateTime: caseResponse.data?.updateTime,
+            state: caseResponse.data?.state,
+            latestComment: commentsResponse.data?.comments?.[0]?.name,
+          };
+        },
+        `polling subscribed case ${caseName}`,
+        LIGHT_RETRY_CONFIG
+      )
+    );
+  }
+
+  /**
+   * Schedule the next poll (polls never overlap)
+   */
+  private schedule(): void {
+    if (this.timer || this.stopped || this.sessions.size === 0) {
+      return;
+    }
+
+    const nextPollAt = Math.min(
+      ...[...this.sessions.values()].flatMap((subscriptions) =>
+        [...subscriptions.values()].map((subscription) => subscription.nextPollAt)
+      )
+    );
+    this.timer = setTimeout(
+      () => {
+        this.timer = undefined;
+        this.pollDue()
+          .catch((error) => logger.error('Resource subscription polling failed', error))
+          .finally(() => this.schedule());
+      },
+      Math.max(0, nextPollAt - this.now())
+    );
+    // Polling alone must not keep the process alive
+    this.timer.unref();
+  }
+
+  /**
+   * Clear the poll timer
+   */
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
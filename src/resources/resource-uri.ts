@@ -0,0 +1,61 @@
+/**
+ * Support case resource URIs
+ *
+ * - support-case://projects/{project}/cases/{caseId}             Case details
+ * - support-case://projects/{project}/cases/{caseId}/comments    Case comments
+ * - support-case://projects/{project}/cases/{caseId}/attachments Case attachment list
+ *
+ * organizations/{organization} may be used in place of projects/{project}.
+ */
+
+/**
+ * URI scheme of support case resources
+ */
+export const SUPPORT_CASE_URI_SCHEME = 'support-case';
+
+/**
+ * Kind of support case resource
+ */
+export type SupportCaseResourceKind = 'case' | 'comments' | 'attachments';
+
+/**
+ * Parsed support case resource URI
+ */
+export interface SupportCaseResourceRef {
+  readonly caseName: string; // projects/{project}/cases/{caseId} or organizations/{organization}/cases/{caseId}
+  readonly kind: SupportCaseResourceKind;
+}
+
+const URI_PATTERN =
+  /^support-case:\/\/((?:projects\/[a-z0-9-]+|organizations\/[0-9]+)\/cases\/[0-9]+)(?:\/(comments|attachments))?$/;
+
+/**
+ * Build resource URI for a support case
+ * @param caseName Case resource name
+ * @param kind Resource kind (default: case details)
+ * @returns Resource URI
+ */
+export function buildSupportCaseUri(
+  caseName: string,
+  kind: SupportCaseResourceKind = 'case'
+): string {
+  const base = `${SUPPORT_CASE_URI_SCHEME}://${caseName}`;
+  return kind === 'case' ? base : `${base}/${kind}`;
+}
+
+/**
+ * Parse support case resource URI
+ * @param uri Resource URI
+ * @returns Case name and resource kind, or undefined when the URI is not a support case resource
+ */
+export function parseSupportCaseUri(uri: string): SupportCaseResourceRef | undefined {
+  const match = uri.match(URI_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  return {
+    caseName: match[1],
+    kind: (match[2] as SupportCaseResourceKind | undefined) ?? 'case',
+  };
+}
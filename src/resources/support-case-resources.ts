@@ -0,0 +1,189 @@
+/**
+ * Support case resource provider
+ *
+ * Exposes support cases as MCP resources so that clients can attach a case,
+ * its comments or its attachment list as context without a tool call.
+ * Resources are served by the same handlers as the corresponding tools.
+ *
+ * resources/list lists the cases of CLOUD_SUPPORT_RESOURCE_PARENT
+ * (projects/{project} or organizations/{organization}), defaulting to the
+ * current project.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { getCurrentProjectId } from '../api/index.js';
+import type { MCPResponse } from '../handlers/base-handler.js';
+import type { ToolHandlerMap } from '../utils/tool-dispatcher.js';
+import {
+  buildSupportCaseUri,
+  parseSupportCaseUri,
+  SUPPORT_CASE_URI_SCHEME,
+} from './resource-uri.js';
+
+/**
+ * Number of cases per resources/list page
+ */
+export const RESOURCE_LIST_PAGE_SIZE = 50;
+
+/**
+ * MIME type of resource contents
+ */
+const RESOURCE_MIME_TYPE = 'application/json';
+
+/**
+ * Resource list parent pattern
+ */
+const PARENT_PATTERN = /^(projects\/[a-z0-9-]+|organizations\/[0-9]+)$/;
+
+/**
+ * Handlers used to serve resources
+ */
+export type ResourceHandlers = Pick<
+  ToolHandlerMap,
+  'list_support_cases' | 'get_support_case' | 'get_case_comments' | 'list_case_attachments'
+>;
+
+/**
+ * Listed case fields used to describe resources
+ */
+interface ListedCase {
+  name: string;
+  displayName?: string;
+  state?: string;
+  priority?: string;
+}
+
+/**
+ * Support case resource provider
+ */
+export class SupportCaseResourceProvider {
+  constructor(private readonly handlers: ResourceHandlers) {}
+
+  /**
+   * List support case resources
+   * @param cursor Page token of the previous page
+   * @returns Resources and the cursor of the next page
+   */
+  async listResources(cursor?: string): Promise<{ resources: Resource[]; nextCursor?: string }> {
+    const parent = await this.resolveListParent();
+    const result = await this.handlers.list_support_cases.handle({
+      parent,
+      pageSize: RESOURCE_LIST_PAGE_SIZE,
+      pageToken: cursor,
+    });
+    const data = JSON.parse(this.unwrap(result)) as {
+      cases?: ListedCase[];
+      nextPageToken?: string;
+    };
+
+    const resources = (data.cases || []).map((case_) => ({
+      uri: buildSupportCaseUri(case_.name),
+      name: case_.name,
+      title: case_.displayName || case_.name,
+      description: [case_.state, case_.priority].filter(Boolean).join(' ') || undefined,
+      mimeType: RESOURCE_MIME_TYPE,
+    }));
+
+    return { resources, ...(data.nextPageToken && { nextCursor: data.nextPageToken }) };
+  }
+
+  /**
+   * List resource templates for case names
+   */
+  listResourceTemplates(): ResourceTemplate[] {
+    const scopes = [
+      { path: 'projects/{project}', label: 'project' },
+      { path: 'organizations/{organization}', label: 'organization' },
+    ];
+
+    return scopes.flatMap(({ path, label }) => [
+      {
+        uriTemplate: `${SUPPORT_CASE_URI_SCHEME}://${path}/cases/{caseId}`,
+        name: `support-case-${label}`,
+        title: `Support case (${label})`,
+        description: 'Support case details',
+        mimeType: RESOURCE_MIME_TYPE,
+      },
+      {
+        uriTemplate: `${SUPPORT_CASE_URI_SCHEME}://${path}/cases/{caseId}/comments`,
+        name: `support-case-comments-${label}`,
+        title: `Support case comments (${label})`,
+        description: 'All comments of a support case',
+        mimeType: RESOURCE_MIME_TYPE,
+      },
+      {
+        uriTemplate: `${SUPPORT_CASE_URI_SCHEME}://${path}/cases/{caseId}/attachments`,
+        name: `support-case-attachments-${label}`,
+        title: `Support case attachments (${label})`,
+        description: 'Attachment list of a support case',
+        mimeType: RESOURCE_MIME_TYPE,
+      },
+    ]);
+  }
+
+  /**
+   * Read a support case resource
+   * @param uri Resource URI
+   * @returns Resource contents (JSON)
+   * @throws {McpError} When the URI is invalid or the case cannot be read
+   */
+  async readResource(
+    uri: string
+  ): Promise<{ contents: Array<{ uri: string; mimeType: string; text: string }> }> {
+    const ref = parseSupportCaseUri(uri);
+    if (!ref) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    let result: MCPResponse;
+    switch (ref.kind) {
+      case 'case':
+        result = await this.handlers.get_support_case.handle({ name: ref.caseName });
+        break;
+      case 'comments':
+        result = await this.handlers.get_case_comments.handle({
+          name: ref.caseName,
+          fetchAll: true,
+        });
+        break;
+      case 'attachments':
+        result = await this.handlers.list_case_attachments.handle({
+          parent: ref.caseName,
+          fetchAll: true,
+        });
+        break;
+    }
+
+    return { contents: [{ uri, mimeType: RESOURCE_MIME_TYPE, text: this.unwrap(result) }] };
+  }
+
+  /**
+   * Resolve parent whose cases are listed
+   */
+  private async resolveListParent(): Promise<string> {
+    const parent = process.env.CLOUD_SUPPORT_RESOURCE_PARENT;
+    if (parent) {
+      if (!PARENT_PATTERN.test(parent)) {
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Invalid CLOUD_SUPPORT_RESOURCE_PARENT "${parent}"`
+        );
+      }
+      return parent;
+    }
+
+    return `projects/${await getCurrentProjectId()}`;
+  }
+
+  /**
+   * Get handler response text, converting error responses to MCP errors
+   */
+  private unwrap(result: MCPResponse): string {
+    const text = result.content[0]?.text ?? '';
+    if (result.isError) {
+      throw new McpError(ErrorCode.InternalError, text.split('\n')[0]);
+    }
+    return text;
+  }
+}
@@ -9,6 +9,14 @@
  * - Get individual support case details
  * - Get comment history for support cases
  * - Search and filter support cases
+ * - Browse support cases, comments and attachment lists as MCP resources
+ * - Subscribe to case resources and get notified when cases are updated
+ * - Prompt templates for filing and following up on cases
+ * - Human confirmation (MCP elicitation) before closing, escalating or raising priority
+ *
+ * Runs over stdio by default, or over HTTP (Streamable HTTP and legacy SSE)
+ * with --transport=http / CLOUD_SUPPORT_TRANSPORT=http. With --mock it runs
+ * offline against an in-process mock Support API.
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
@@ -17,6 +25,13 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
   CallToolRequest,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
 // Type definition imports
@@ -26,11 +41,26 @@ import type { SupportedToolName } from './types/index.js';
 import { TypeSafeToolDispatcher, type ToolHandlerMap } from './utils/tool-dispatcher.js';
 
 // API client imports
-import { getAccessToken, getCurrentProjectId } from './api/index.js';
+import { getAccessToken, getCurrentProjectId, runWithRequestContext } from './api/index.js';
 
 import { logger } from './utils/logger.js';
 import { gracefulShutdown } from './utils/graceful-shutdown.js';
 
+// Resource provider imports
+import { SupportCaseResourceProvider } from './resources/support-case-resources.js';
+import { ResourceSubscriptionManager } from './resources/resource-subscriptions.js';
+
+// Prompt provider import
+import { SupportPromptProvider } from './prompts/support-prompts.js';
+
+// Confirmation imports
+import { ConfirmationGate } from './confirmation/confirmation-gate.js';
+
+// Transport imports
+import { resolveTransportConfig, type TransportConfig } from './transport/transport-config.js';
+import { HttpTransportServer } from './transport/http-server.js';
+import { startMockMode } from './mock/mock-mode.js';
+
 // Tool definition imports
 import { getToolDefinitions } from './tools/index.js';
 
@@ -43,9 +73,15 @@ import {
   SearchSupportCasesHandler,
   UpdateSupportCaseHandler,
   CloseSupportCaseHandler,
+  EscalateSupportCaseHandler,
   CreateCaseCommentHandler,
   ListCaseAttachmentsHandler,
+  UploadCaseAttachmentHandler,
+  DownloadCaseAttachmentHandler,
   SearchCaseClassificationsHandler,
+  GetCaseTimelineHandler,
+  ShowCaseFeedHandler,
+  WhoamiHandler,
 } from './handlers/index.js';
 
 /**
@@ -58,6 +94,10 @@ import {
 export class CloudSupportMCPServer {
   private server: Server;
   private toolDispatcher: TypeSafeToolDispatcher;
+  private resourceProvider: SupportCaseResourceProvider;
+  private subscriptionManager: ResourceSubscriptionManager;
+  private promptProvider: SupportPromptProvider;
+  private confirmationGate: ConfirmationGate;
 
   // Public properties for testing (for backward compatibility)
   public readonly listSupportCasesHandler: ListSupportCasesHandler;
@@ -67,9 +107,15 @@ export class CloudSupportMCPServer {
   public readonly createSupportCaseHandler: CreateSupportCaseHandler;
   public readonly updateSupportCaseHandler: UpdateSupportCaseHandler;
   public readonly closeSupportCaseHandler: CloseSupportCaseHandler;
+  public readonly escalateSupportCaseHandler: EscalateSupportCaseHandler;
   public readonly createCaseCommentHandler: CreateCaseCommentHandler;
   public readonly listCaseAttachmentsHandler: ListCaseAttachmentsHandler;
+  public readonly uploadCaseAttachmentHandler: UploadCaseAttachmentHandler;
+  public readonly downloadCaseAttachmentHandler: DownloadCaseAttachmentHandler;
   public readonly searchCaseClassificationsHandler: SearchCaseClassificationsHandler;
+  public readonly getCaseTimelineHandler: GetCaseTimelineHandler;
+  public readonly showCaseFeedHandler: ShowCaseFeedHandler;
+  public readonly whoamiHandler: WhoamiHandler;
 
   /**
    * CloudSupportMCPServer constructor
@@ -85,9 +131,15 @@ export class CloudSupportMCPServer {
       search_support_cases: new SearchSupportCasesHandler(),
       update_support_case: new UpdateSupportCaseHandler(),
       close_support_case: new CloseSupportCaseHandler(),
+      escalate_support_case: new EscalateSupportCaseHandler(),
       create_case_comment: new CreateCaseCommentHandler(),
       list_case_attachments: new ListCaseAttachmentsHandler(),
+      upload_case_attachment: new UploadCaseAttachmentHandler(),
+      download_case_attachment: new DownloadCaseAttachmentHandler(),
       search_case_classifications: new SearchCaseClassificationsHandler(),
+      get_case_timeline: new GetCaseTimelineHandler(),
+      show_case_feed: new ShowCaseFeedHandler(),
+      whoami: new WhoamiHandler(),
     };
 
     // Assign to public properties for backward compatibility
@@ -98,15 +150,41 @@ export class CloudSupportMCPServer {
     this.createSupportCaseHandler = handlers['create_support_case'];
     this.updateSupportCaseHandler = handlers['update_support_case'];
     this.closeSupportCaseHandler = handlers['close_support_case'];
+    this.escalateSupportCaseHandler = handlers['escalate_support_case'];
     this.createCaseCommentHandler = handlers['create_case_comment'];
     this.listCaseAttachmentsHandler = handlers['list_case_attachments'];
+    this.uploadCaseAttachmentHandler = handlers['upload_case_attachment'];
+    this.downloadCaseAttachmentHandler = handlers['download_case_attachment'];
     this.searchCaseClassificationsHandler = handlers['search_case_classifications'];
+    this.getCaseTimelineHandler = handlers['get_case_timeline'];
+    this.showCaseFeedHandler = handlers['show_case_feed'];
+    this.whoamiHandler = handlers['whoami'];
 
     // Initialize type-safe tool dispatcher
     this.toolDispatcher = new TypeSafeToolDispatcher(handlers);
 
-    // Create MCP server instance
-    this.server = new Server(
+    // Initialize resource provider (served by the same handlers as the tools)
+    this.resourceProvider = new SupportCaseResourceProvider(handlers);
+
+    // Initialize resource subscription manager (shared by all sessions)
+    this.subscriptionManager = new ResourceSubscriptionManager();
+
+    // Initialize prompt provider (pre-fills prompts with case data)
+    this.promptProvider = new SupportPromptProvider(this.resourceProvider, handlers);
+
+    // Initialize confirmation gate (asks the human before destructive actions)
+    this.confirmationGate = new ConfirmationGate();
+
+    // Create MCP server instance (used by the stdio transport)
+    this.server = this.createMcpServer();
+  }
+
+  /**
+   * Create MCP server instance with tool handlers
+   * The HTTP transport creates one instance per session; all share the same handlers
+   */
+  private createMcpServer(): Server {
+    const server = new Server(
       {
         name: 'cloud-support-mcp-server',
         version: '0.1.0',
@@ -114,12 +192,21 @@ export class CloudSupportMCPServer {
       {
         capabilities: {
           tools: {}, // Enable tool functionality
+          resources: { subscribe: true }, // Enable support case resources and subscriptions
+          prompts: {}, // Enable support workflow prompts
         },
       }
     );
 
-    // Set up tool handlers
-    this.setupToolHandlers();
+    // Set up tool, resource and prompt handlers
+    this.setupToolHandlers(server);
+    this.setupResourceHandlers(server);
+    this.setupPromptHandlers(server);
+
+    // Stop polling for the session's subscriptions when it closes
+    server.onclose = () => this.subscriptionManager.removeSession(server);
+
+    return server;
   }
 
   /**
@@ -127,16 +214,16 @@ export class CloudSupportMCPServer {
    * Defines available tools and sets up execution handlers
    *
    */
-  private setupToolHandlers() {
+  private setupToolHandlers(server: Server) {
     // Set up tool list
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
         tools: getToolDefinitions(),
       };
     });
 
     // Set up tool execution - use type-safe dispatcher
-    this.server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request: CallToolRequest, extra) => {
       const { name, arguments: args } = request.params;
 
       try {
@@ -145,8 +232,40 @@ export class CloudSupportMCPServer {
           throw new Error(`Unknown tool: ${name}`);
         }
 
-        // Type-safe tool execution
-        return await this.toolDispatcher.executeToolSafely(name as SupportedToolName, args);
+        // In HTTP passthrough mode, API calls use the caller's bearer token
+        const context = { accessToken: extra.authInfo?.token };
+
+        // Type-safe tool execution; guarded actions are confirmed by the human once their
+        // arguments are valid
+        return await this.toolDispatcher.executeToolSafely(
+          name as SupportedToolName,
+          args,
+          context,
+          async (validatedArgs) => {
+            const confirmation = await this.confirmationGate.confirm(
+              server,
+              name as SupportedToolName,
+              validatedArgs,
+              context
+            );
+            if (confirmation.allowed) {
+              return undefined;
+            }
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(
+                    { error: 'Not Confirmed', tool: name, message: confirmation.reason },
+                    null,
+                    2
+                  ),
+                },
+              ],
+              isError: true,
+            };
+          }
+        );
       } catch (error) {
         // Unified error handling
         const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -171,14 +290,76 @@ export class CloudSupportMCPServer {
     });
   }
 
+  /**
+   * Set up MCP resource handlers
+   * Resource reads use the caller's token in HTTP passthrough mode, like tool calls
+   */
+  private setupResourceHandlers(server: Server) {
+    server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) =>
+      runWithRequestContext({ accessToken: extra.authInfo?.token }, () =>
+        this.resourceProvider.listResources(request.params?.cursor)
+      )
+    );
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: this.resourceProvider.listResourceTemplates(),
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) =>
+      runWithRequestContext({ accessToken: extra.authInfo?.token }, () =>
+        this.resourceProvider.readResource(request.params.uri)
+      )
+    );
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+      await this.subscriptionManager.subscribe(server, request.params.uri, {
+        accessToken: extra.authInfo?.token,
+      });
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptionManager.unsubscribe(server, request.params.uri);
+      return {};
+    });
+  }
+
+  /**
+   * Set up MCP prompt handlers
+   * Case data used to pre-fill prompts is read with the caller's token in HTTP passthrough mode
+   */
+  private setupPromptHandlers(server: Server) {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: this.promptProvider.listPrompts(),
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request, extra) =>
+      runWithRequestContext({ accessToken: extra.authInfo?.token }, () =>
+        this.promptProvider.getPrompt(request.params.name, request.params.arguments)
+      )
+    );
+  }
+
   /**
    * Start MCP server
-   * Starts server using stdio transport
-   *
+   * Starts server using the configured transport (stdio by default)
+   * @param config Transport configuration (defaults to CLI flags and environment variables)
    */
-  async run() {
+  async run(config: TransportConfig = resolveTransportConfig()) {
     try {
-      logger.info('Starting Cloud Support MCP Server');
+      logger.info('Starting Cloud Support MCP Server', {
+        transport: config.mode,
+        mock: config.mock,
+      });
+
+      if (config.mock) {
+        await this.startMockApi();
+      }
+
+      if (config.mode === 'http') {
+        await this.runHttp(config);
+        return;
+      }
 
       const transport = new StdioServerTransport();
 
@@ -195,35 +376,96 @@ export class CloudSupportMCPServer {
   }
 
   /**
-   * Register graceful shutdown handlers
+   * Start MCP server over HTTP (Streamable HTTP and legacy SSE)
+   * @param config Transport configuration
+   */
+  private async runHttp(config: TransportConfig) {
+    const httpServer = new HttpTransportServer(() => this.createMcpServer(), config);
+
+    // Register server shutdown handlers
+    this.registerShutdownHandlers(httpServer);
+
+    const address = await httpServer.start();
+
+    logger.info(
+      `Cloud Support MCP Server started successfully on http://${address.address}:${address.port}`,
+      { authMode: config.authMode }
+    );
+  }
+
+  /**
+   * Start the mock Support API and route all API calls to it (--mock)
    */
-  private registerShutdownHandlers(transport: StdioServerTransport) {
-    // Server stop handler
+  private async startMockApi() {
+    const mockServer = await startMockMode();
+
+    // Mock API stop handler
     gracefulShutdown.registerHandler(
-      'mcp-server',
+      'mock-support-api',
       async () => {
-        logger.info('Shutting down MCP server');
-        if (this.server && typeof this.server.close === 'function') {
-          await this.server.close();
-        }
-        logger.info('MCP server shutdown complete');
+        await mockServer.close();
+        logger.info('Mock Support API stopped');
       },
-      5000 // 5 second timeout
+      2000 // 2 second timeout
     );
+  }
 
-    // Transport stop handler
+  /**
+   * Register graceful shutdown handlers
+   */
+  private registerShutdownHandlers(transport: StdioServerTransport | HttpTransportServer) {
+    // Resource subscription polling stop handler
     gracefulShutdown.registerHandler(
-      'stdio-transport',
+      'resource-subscriptions',
       async () => {
-        logger.info('Closing stdio transport');
-        if (transport && typeof transport.close === 'function') {
-          await transport.close();
-        }
-        logger.info('Stdio transport closed');
+        logger.info('Stopping resource subscriptions', {
+          subscriptions: this.subscriptionManager.subscriptionCount,
+        });
+        await this.subscriptionManager.stop();
+        logger.info('Resource subscriptions stopped');
       },
       3000 // 3 second timeout
     );
 
+    if (transport instanceof HttpTransportServer) {
+      // HTTP transport stop handler (closes all session servers)
+      gracefulShutdown.registerHandler(
+        'http-transport',
+        async () => {
+          logger.info('Closing HTTP transport', { sessions: transport.sessionCount });
+          await transport.close();
+          logger.info('HTTP transport closed');
+        },
+        5000 // 5 second timeout
+      );
+    } else {
+      // Server stop handler
+      gracefulShutdown.registerHandler(
+        'mcp-server',
+        async () => {
+          logger.info('Shutting down MCP server');
+          if (this.server && typeof this.server.close === 'function') {
+            await this.server.close();
+          }
+          logger.info('MCP server shutdown complete');
+        },
+        5000 // 5 second timeout
+      );
+
+      // Transport stop handler
+      gracefulShutdown.registerHandler(
+        'stdio-transport',
+        async () => {
+          logger.info('Closing stdio transport');
+          if (transport && typeof transport.close === 'function') {
+            await transport.close();
+          }
+          logger.info('Stdio transport closed');
+        },
+        3000 // 3 second timeout
+      );
+    }
+
     // Resource cleanup handler
     gracefulShutdown.registerHandler(
       'resource-cleanup',
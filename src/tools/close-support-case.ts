@@ -5,7 +5,18 @@
  * Once closed, cases cannot be reopened
  */
 
-import { ToolDefinition } from './types.js';
+import { ToolDefinition, commonProperties, mutationProperties, SchemaProperties } from './types.js';
+import { supportCaseSchema, dryRunResultProperties } from './output-schemas.js';
+import type { SupportCaseMutationResult } from '../types/index.js';
+
+/**
+ * Output schema properties (result, or dry-run result when dryRun is set)
+ */
+const outputProperties: SchemaProperties<SupportCaseMutationResult> = {
+  message: { type: 'string' },
+  case: supportCaseSchema,
+  ...dryRunResultProperties,
+};
 
 export const closeSupportCaseTool: ToolDefinition = {
   name: 'close_support_case',
@@ -18,7 +29,14 @@ export const closeSupportCaseTool: ToolDefinition = {
         description:
           'The resource name of the case to close (e.g., projects/{project_id}/cases/{case_id})',
       },
+      ...commonProperties,
+      ...mutationProperties,
     },
     required: ['name'],
   },
+  outputSchema: {
+    type: 'object',
+    properties: outputProperties,
+    required: ['message'],
+  },
 };
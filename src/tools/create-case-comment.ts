@@ -4,7 +4,18 @@
  * Tool to add a new comment to a support case for communication with Google Support
  */
 
-import { ToolDefinition } from './types.js';
+import { ToolDefinition, commonProperties, mutationProperties, SchemaProperties } from './types.js';
+import { caseCommentSchema, dryRunResultProperties } from './output-schemas.js';
+import type { CreateCaseCommentResult } from '../types/index.js';
+
+/**
+ * Output schema properties (result, or dry-run result when dryRun is set)
+ */
+const outputProperties: SchemaProperties<CreateCaseCommentResult> = {
+  message: { type: 'string' },
+  comment: caseCommentSchema,
+  ...dryRunResultProperties,
+};
 
 export const createCaseCommentTool: ToolDefinition = {
   name: 'create_case_comment',
@@ -21,7 +32,14 @@ export const createCaseCommentTool: ToolDefinition = {
         type: 'string',
         description: 'The full comment body (maximum 12800 characters)',
       },
+      ...commonProperties,
+      ...mutationProperties,
     },
     required: ['parent', 'body'],
   },
+  outputSchema: {
+    type: 'object',
+    properties: outputProperties,
+    required: ['message'],
+  },
 };
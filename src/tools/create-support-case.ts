@@ -4,7 +4,24 @@
  * Tool to create a new support case and associate it with a parent resource
  */
 
-import { ToolDefinition, Priority } from './types.js';
+import {
+  ToolDefinition,
+  Priority,
+  commonProperties,
+  mutationProperties,
+  SchemaProperties,
+} from './types.js';
+import { supportCaseSchema, dryRunResultProperties } from './output-schemas.js';
+import type { SupportCaseMutationResult } from '../types/index.js';
+
+/**
+ * Output schema properties (result, or dry-run result when dryRun is set)
+ */
+const outputProperties: SchemaProperties<SupportCaseMutationResult> = {
+  message: { type: 'string' },
+  case: supportCaseSchema,
+  ...dryRunResultProperties,
+};
 
 export const createSupportCaseTool: ToolDefinition = {
   name: 'create_support_case',
@@ -63,7 +80,14 @@ export const createSupportCaseTool: ToolDefinition = {
         type: 'string',
         description: 'The language code for support (BCP 47 format)',
       },
+      ...commonProperties,
+      ...mutationProperties,
     },
     required: ['parent', 'displayName', 'description', 'classification', 'priority'],
   },
+  outputSchema: {
+    type: 'object',
+    properties: outputProperties,
+    required: ['message'],
+  },
 };
@@ -0,0 +1,61 @@
+/**
+ * download_case_attachment tool definition
+ *
+ * Tool to download the content of a case attachment to the local download directory
+ */
+
+import { ToolDefinition, commonProperties, SchemaProperties } from './types.js';
+import { attachmentProperties } from './output-schemas.js';
+import type { DownloadCaseAttachmentResult } from '../types/index.js';
+
+/**
+ * Output schema properties
+ */
+const outputProperties: SchemaProperties<DownloadCaseAttachmentResult> = {
+  message: { type: 'string' },
+  filePath: { type: 'string', description: 'Absolute path of the saved file' },
+  bytesWritten: { type: 'number' },
+  attachment: {
+    type: 'object',
+    properties: {
+      name: attachmentProperties.name,
+      createTime: attachmentProperties.createTime,
+      filename: attachmentProperties.filename,
+      mimeType: attachmentProperties.mimeType,
+      sizeBytes: attachmentProperties.sizeBytes,
+    } satisfies SchemaProperties<DownloadCaseAttachmentResult['attachment']>,
+  },
+};
+
+export const downloadCaseAttachmentTool: ToolDefinition = {
+  name: 'download_case_attachment',
+  description:
+    'Download the content of a case attachment to the local download directory (CLOUD_SUPPORT_DOWNLOAD_DIR) and return the saved file path.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description:
+          'The resource name of the attachment (e.g., projects/{project_id}/cases/{case_id}/attachments/{attachment_id})',
+      },
+      outputFilename: {
+        type: 'string',
+        description:
+          'File name to save as inside the download directory (defaults to the attachment filename)',
+      },
+      overwrite: {
+        type: 'boolean',
+        description: 'Whether to overwrite an existing file with the same name',
+        default: false,
+      },
+      ...commonProperties,
+    },
+    required: ['name'],
+  },
+  outputSchema: {
+    type: 'object',
+    properties: outputProperties,
+    required: ['message', 'filePath', 'bytesWritten', 'attachment'],
+  },
+};
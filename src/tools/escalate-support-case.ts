@@ -0,0 +1,71 @@
+/**
+ * escalate_support_case tool definition
+ *
+ * Tool to escalate an existing support case
+ * Closed or already escalated cases cannot be escalated
+ */
+
+import { ToolDefinition, commonProperties, mutationProperties, SchemaProperties } from './types.js';
+import { supportCaseProperties, dryRunResultProperties } from './output-schemas.js';
+import { ESCALATION_REASONS, type EscalateSupportCaseResult } from '../types/index.js';
+
+/**
+ * Output schema properties (result, or dry-run result when dryRun is set)
+ */
+const outputProperties: SchemaProperties<EscalateSupportCaseResult> = {
+  message: { type: 'string' },
+  escalation: {
+    type: 'object',
+    properties: {
+      reason: { type: 'string' },
+      justification: { type: 'string' },
+    } satisfies SchemaProperties<EscalateSupportCaseResult['escalation']>,
+  },
+  case: {
+    type: 'object',
+    properties: {
+      name: supportCaseProperties.name,
+      displayName: supportCaseProperties.displayName,
+      state: supportCaseProperties.state,
+      priority: supportCaseProperties.priority,
+      createTime: supportCaseProperties.createTime,
+      updateTime: supportCaseProperties.updateTime,
+      escalated: supportCaseProperties.escalated,
+    } satisfies SchemaProperties<EscalateSupportCaseResult['case']>,
+  },
+  ...dryRunResultProperties,
+};
+
+export const escalateSupportCaseTool: ToolDefinition = {
+  name: 'escalate_support_case',
+  description:
+    'Escalate an existing support case. Closed cases and cases that are already escalated cannot be escalated.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description:
+          'The resource name of the case to escalate (e.g., projects/{project_id}/cases/{case_id})',
+      },
+      reason: {
+        type: 'string',
+        description: 'The reason why the case is being escalated',
+        enum: ESCALATION_REASONS,
+      },
+      justification: {
+        type: 'string',
+        description: 'A free text description to accompany the reason (maximum 1000 characters)',
+        maxLength: 1000,
+      },
+      ...commonProperties,
+      ...mutationProperties,
+    },
+    required: ['name', 'reason', 'justification'],
+  },
+  outputSchema: {
+    type: 'object',
+    properties: outputProperties,
+    required: ['message'],
+  },
+};
@@ -4,7 +4,35 @@
  * Tool to retrieve comments and conversation history for a specific support case
  */
 
-import { ToolDefinition } from './types.js';
+import {
+  ToolDefinition,
+  paginationProperties,
+  commonProperties,
+  SchemaProperties,
+} from './types.js';
+import { paginationResultProperties } from './output-schemas.js';
+import type { CaseCommentSummary, GetCaseCommentsResult } from '../types/index.js';
+
+/**
+ * Output schema properties
+ */
+const outputProperties: SchemaProperties<GetCaseCommentsResult> = {
+  caseName: { type: 'string' },
+  totalComments: { type: 'number', description: 'Number of comments returned' },
+  comments: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        createTime: { type: 'string', description: 'RFC 3339 timestamp' },
+        creator: { type: 'string', description: 'Display name or email of the creator' },
+        body: { type: 'string' },
+      } satisfies SchemaProperties<CaseCommentSummary>,
+    },
+  },
+  ...paginationResultProperties,
+};
 
 export const getCaseCommentsTool: ToolDefinition = {
   name: 'get_case_comments',
@@ -17,7 +45,18 @@ export const getCaseCommentsTool: ToolDefinition = {
         description:
           'The full resource name of the case (e.g., projects/{project_id}/cases/{case_id})',
       },
+      pageToken: {
+        type: 'string',
+        description: 'Token for pagination',
+      },
+      ...paginationProperties,
+      ...commonProperties,
     },
     required: ['name'],
   },
+  outputSchema: {
+    type: 'object',
+    properties: outputProperties,
+    required: ['caseName', 'totalComments', 'comments'],
+  },
 };
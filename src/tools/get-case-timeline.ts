@@ -0,0 +1,72 @@
+/**
+ * get_case_timeline tool definition
+ *
+ * Tool to retrieve a chronological timeline of a support case (case, comments and attachments)
+ */
+
+import { ToolDefinition, commonProperties, SchemaProperties } from './types.js';
+import type { GetCaseTimelineResult, TimelineEvent } from '../types/index.js';
+
+/**
+ * Output schema properties
+ */
+const outputProperties: SchemaProperties<GetCaseTimelineResult> = {
+  caseName: { type: 'string' },
+  displayName: { type: 'string' },
+  state: { type: 'string' },
+  priority: { type: 'string' },
+  escalated: { type: 'boolean' },
+  totalComments: { type: 'number' },
+  totalAttachments: { type: 'number' },
+  truncated: { type: 'boolean', description: 'true when maxItems was reached' },
+  events: {
+    type: 'array',
+    description: 'Events in chronological order',
+    items: {
+      type: 'object',
+      properties: {
+        time: { type: 'string', description: 'RFC 3339 timestamp' },
+        type: { type: 'string', enum: ['created', 'comment', 'attachment', 'state'] },
+        actor: { type: 'string', enum: ['customer', 'googleSupport', 'system'] },
+        author: { type: 'string' },
+        text: { type: 'string' },
+      } satisfies SchemaProperties<TimelineEvent>,
+      required: ['time', 'type', 'actor', 'text'],
+    },
+  },
+};
+
+export const getCaseTimelineTool: ToolDefinition = {
+  name: 'get_case_timeline',
+  description:
+    'Get a compact chronological timeline of a support case, merging case creation, all comments, all attachments and the current state. Each event is labeled by actor (customer or googleSupport)',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description:
+          'The full resource name of the case (e.g., projects/{project_id}/cases/{case_id})',
+      },
+      maxItems: {
+        type: 'number',
+        description:
+          'Maximum number of comments and of attachments to collect (default and maximum: 1000)',
+        minimum: 1,
+        maximum: 1000,
+      },
+      maxBodyLength: {
+        type: 'number',
+        description: 'Truncate comment bodies to this many characters (default: 1000, 0: no limit)',
+        minimum: 0,
+      },
+      ...commonProperties,
+    },
+    required: ['name'],
+  },
+  outputSchema: {
+    type: 'object',
+    properties: outputProperties,
+    required: ['caseName', 'events'],
+  },
+};
@@ -4,7 +4,8 @@
  * Tool to retrieve detailed information for a specific support case
  */
 
-import { ToolDefinition } from './types.js';
+import { ToolDefinition, commonProperties } from './types.js';
+import { supportCaseProperties } from './output-schemas.js';
 
 export const getSupportCaseTool: ToolDefinition = {
   name: 'get_support_case',
@@ -17,7 +18,13 @@ export const getSupportCaseTool: ToolDefinition = {
         description:
           'The full resource name of the case (e.g., projects/{project_id}/cases/{case_id})',
       },
+      ...commonProperties,
     },
     required: ['name'],
   },
+  outputSchema: {
+    type: 'object',
+    properties: supportCaseProperties,
+    required: ['name'],
+  },
 };
@@ -7,6 +7,7 @@
 
 // Type definition exports
 export * from './types.js';
+export * from './output-schemas.js';
 
 // Individual tool definition imports
 import { listSupportCasesTool } from './list-support-cases.js';
@@ -16,9 +17,15 @@ import { searchSupportCasesTool } from './search-support-cases.js';
 import { createSupportCaseTool } from './create-support-case.js';
 import { updateSupportCaseTool } from './update-support-case.js';
 import { closeSupportCaseTool } from './close-support-case.js';
+import { escalateSupportCaseTool } from './escalate-support-case.js';
 import { createCaseCommentTool } from './create-case-comment.js';
 import { listCaseAttachmentsTool } from './list-case-attachments.js';
+import { uploadCaseAttachmentTool } from './upload-case-attachment.js';
+import { downloadCaseAttachmentTool } from './download-case-attachment.js';
 import { searchCaseClassificationsTool } from './search-case-classifications.js';
+import { getCaseTimelineTool } from './get-case-timeline.js';
+import { showCaseFeedTool } from './show-case-feed.js';
+import { whoamiTool } from './whoami.js';
 
 import { ToolDefinitions } from './types.js';
 
@@ -37,9 +44,15 @@ export function getToolDefinitions(): ToolDefinitions {
     createSupportCaseTool,
     updateSupportCaseTool,
     closeSupportCaseTool,
+    escalateSupportCaseTool,
     createCaseCommentTool,
     listCaseAttachmentsTool,
+    uploadCaseAttachmentTool,
+    downloadCaseAttachmentTool,
     searchCaseClassificationsTool,
+    getCaseTimelineTool,
+    showCaseFeedTool,
+    whoamiTool,
   ] as const;
 }
 
@@ -54,7 +67,13 @@ export {
   createSupportCaseTool,
   updateSupportCaseTool,
   closeSupportCaseTool,
+  escalateSupportCaseTool,
   createCaseCommentTool,
   listCaseAttachmentsTool,
+  uploadCaseAttachmentTool,
+  downloadCaseAttachmentTool,
   searchCaseClassificationsTool,
+  getCaseTimelineTool,
+  showCaseFeedTool,
+  whoamiTool,
 };
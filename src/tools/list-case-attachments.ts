@@ -4,7 +4,23 @@
  * Tool to list all attachments associated with a support case
  */
 
-import { ToolDefinition } from './types.js';
+import {
+  ToolDefinition,
+  paginationProperties,
+  commonProperties,
+  SchemaProperties,
+} from './types.js';
+import { attachmentSchema, paginationResultProperties } from './output-schemas.js';
+import type { ListCaseAttachmentsResult } from '../types/index.js';
+
+/**
+ * Output schema properties
+ */
+const outputProperties: SchemaProperties<ListCaseAttachmentsResult> = {
+  attachments: { type: 'array', items: attachmentSchema },
+  totalSize: { type: 'number' },
+  ...paginationResultProperties,
+};
 
 export const listCaseAttachmentsTool: ToolDefinition = {
   name: 'list_case_attachments',
@@ -26,7 +42,13 @@ export const listCaseAttachmentsTool: ToolDefinition = {
         type: 'string',
         description: 'Token for pagination',
       },
+      ...paginationProperties,
+      ...commonProperties,
     },
     required: ['parent'],
   },
+  outputSchema: {
+    type: 'object',
+    properties: outputProperties,
+  },
 };
@@ -4,7 +4,23 @@
  * Tool to retrieve a list of support cases for a Google Cloud project or organization
  */
 
-import { ToolDefinition } from './types.js';
+import {
+  ToolDefinition,
+  paginationProperties,
+  commonProperties,
+  SchemaProperties,
+} from './types.js';
+import { supportCaseSchema, paginationResultProperties } from './output-schemas.js';
+import type { ListSupportCasesResult } from '../types/index.js';
+
+/**
+ * Output schema properties
+ */
+const outputProperties: SchemaProperties<ListSupportCasesResult> = {
+  cases: { type: 'array', items: supportCaseSchema },
+  totalCount: { type: 'number', description: 'Number of cases returned' },
+  ...paginationResultProperties,
+};
 
 export const listSupportCasesTool: ToolDefinition = {
   name: 'list_support_cases',
@@ -29,7 +45,14 @@ export const listSupportCasesTool: ToolDefinition = {
         type: 'string',
         description: 'Filter expression (e.g., "state=OPEN" or "priority=P1")',
       },
+      ...paginationProperties,
+      ...commonProperties,
     },
     required: ['parent'],
   },
+  outputSchema: {
+    type: 'object',
+    properties: outputProperties,
+    required: ['cases', 'totalCount'],
+  },
 };
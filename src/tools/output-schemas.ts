@@ -0,0 +1,166 @@
+/**
+ * Shared output schema properties for MCP tool definitions
+ *
+ * Schemas of the API entities returned by the tools. Each property set is typed
+ * with SchemaProperties against the response type it describes.
+ */
+
+import type { ApiRequestPreview } from '../api/index.js';
+import type {
+  Actor,
+  AttachmentData,
+  CaseClassification,
+  CaseCommentRecord,
+  PaginatedResult,
+  SupportCaseRecord,
+} from '../types/index.js';
+import type { DryRunResult } from '../utils/dry-run.js';
+import type { JsonSchemaProperty, SchemaProperties } from './types.js';
+
+/**
+ * Actor properties
+ */
+const actorProperties: SchemaProperties<Actor> = {
+  displayName: { type: 'string' },
+  email: { type: 'string' },
+  googleSupport: { type: 'boolean', description: 'Whether this is a Google Support actor' },
+  username: { type: 'string' },
+};
+
+/**
+ * Actor (creator of a case, comment or attachment)
+ */
+export const actorSchema: JsonSchemaProperty = {
+  type: 'object',
+  properties: actorProperties,
+};
+
+/**
+ * Case classification properties
+ */
+const caseClassificationProperties: SchemaProperties<CaseClassification> = {
+  id: { type: 'string', description: 'Classification ID used when creating a case' },
+  displayName: { type: 'string' },
+};
+
+/**
+ * Case classification
+ */
+export const caseClassificationSchema: JsonSchemaProperty = {
+  type: 'object',
+  properties: caseClassificationProperties,
+};
+
+/**
+ * Support case properties
+ */
+export const supportCaseProperties: SchemaProperties<SupportCaseRecord> = {
+  name: {
+    type: 'string',
+    description: 'Case resource name (e.g., projects/{project_id}/cases/{case_id})',
+  },
+  displayName: { type: 'string' },
+  description: { type: 'string' },
+  classification: caseClassificationSchema,
+  timeZone: { type: 'string' },
+  subscriberEmailAddresses: { type: 'array', items: { type: 'string' } },
+  state: { type: 'string', description: 'Case state (e.g., NEW, CLOSED)' },
+  createTime: { type: 'string', description: 'RFC 3339 timestamp' },
+  updateTime: { type: 'string', description: 'RFC 3339 timestamp' },
+  creator: actorSchema,
+  contactEmail: { type: 'string' },
+  escalated: { type: 'boolean' },
+  testCase: { type: 'boolean' },
+  languageCode: { type: 'string' },
+  priority: { type: 'string', description: 'Case priority (P0 to P4)' },
+};
+
+/**
+ * Support case
+ */
+export const supportCaseSchema: JsonSchemaProperty = {
+  type: 'object',
+  properties: supportCaseProperties,
+};
+
+/**
+ * Case comment properties
+ */
+const caseCommentProperties: SchemaProperties<CaseCommentRecord> = {
+  name: { type: 'string', description: 'Comment resource name' },
+  createTime: { type: 'string', description: 'RFC 3339 timestamp' },
+  creator: actorSchema,
+  body: { type: 'string' },
+};
+
+/**
+ * Case comment
+ */
+export const caseCommentSchema: JsonSchemaProperty = {
+  type: 'object',
+  properties: caseCommentProperties,
+};
+
+/**
+ * Case attachment properties
+ */
+export const attachmentProperties: SchemaProperties<AttachmentData> = {
+  name: { type: 'string', description: 'Attachment resource name' },
+  createTime: { type: 'string', description: 'RFC 3339 timestamp' },
+  creator: actorSchema,
+  filename: { type: 'string' },
+  mimeType: { type: 'string' },
+  sizeBytes: { type: 'string', description: 'File size in bytes' },
+};
+
+/**
+ * Case attachment
+ */
+export const attachmentSchema: JsonSchemaProperty = {
+  type: 'object',
+  properties: attachmentProperties,
+};
+
+/**
+ * Request preview properties
+ */
+const requestPreviewProperties: SchemaProperties<ApiRequestPreview> = {
+  method: { type: 'string' },
+  url: { type: 'string' },
+  endpoint: { type: 'string' },
+  queryParams: { type: 'object' },
+  body: {
+    type: ['object', 'string'],
+    description: 'JSON body, or the raw body when it is not JSON',
+  },
+  multipart: { type: 'object', description: 'Attachment metadata and media size' },
+};
+
+/**
+ * Output properties of dry-run results
+ *
+ * Mutating tools return either their result or a dry-run result, so their output
+ * schemas include these alongside the result properties
+ */
+export const dryRunResultProperties: Omit<SchemaProperties<DryRunResult>, 'message'> = {
+  dryRun: { type: 'boolean', description: 'true when the request was validated but not sent' },
+  request: {
+    type: 'object',
+    description: 'Request that would have been sent (dry run only)',
+    properties: requestPreviewProperties,
+  },
+};
+
+/**
+ * Output properties of paginated list results
+ */
+export const paginationResultProperties: SchemaProperties<PaginatedResult> = {
+  nextPageToken: {
+    type: 'string',
+    description: 'Token for the next page (absent on the last page)',
+  },
+  truncated: {
+    type: 'boolean',
+    description: 'Set when fetchAll is used: true when maxItems was reached before the last page',
+  },
+};
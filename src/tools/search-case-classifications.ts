@@ -4,7 +4,21 @@
  * Tool to search and retrieve valid case classifications for use in support case creation
  */
 
-import { ToolDefinition } from './types.js';
+import { ToolDefinition, commonProperties, SchemaProperties } from './types.js';
+import { caseClassificationSchema } from './output-schemas.js';
+import type { SearchCaseClassificationsResult } from '../types/index.js';
+
+/**
+ * Output schema properties
+ */
+const outputProperties: SchemaProperties<SearchCaseClassificationsResult> = {
+  caseClassifications: { type: 'array', items: caseClassificationSchema },
+  nextPageToken: {
+    type: 'string',
+    description: 'Token for the next page (absent on the last page)',
+  },
+  totalSize: { type: 'number' },
+};
 
 export const searchCaseClassificationsTool: ToolDefinition = {
   name: 'search_case_classifications',
@@ -26,6 +40,11 @@ export const searchCaseClassificationsTool: ToolDefinition = {
         type: 'string',
         description: 'Token for pagination',
       },
+      ...commonProperties,
     },
   },
+  outputSchema: {
+    type: 'object',
+    properties: outputProperties,
+  },
 };
@@ -4,11 +4,66 @@
  * Tool to search support cases using various filters
  */
 
-import { ToolDefinition, Priority, CaseState } from './types.js';
+import {
+  ToolDefinition,
+  Priority,
+  CaseState,
+  paginationProperties,
+  commonProperties,
+  SchemaProperties,
+} from './types.js';
+import { paginationResultProperties } from './output-schemas.js';
+import type {
+  AppliedSearchFilters,
+  SearchSupportCasesResult,
+  SupportCaseSummary,
+} from '../types/index.js';
+
+/**
+ * Output schema properties
+ */
+const outputProperties: SchemaProperties<SearchSupportCasesResult> = {
+  searchQuery: { type: 'string' },
+  compiledQuery: { type: 'string', description: 'Query sent to cases.search' },
+  appliedFilters: {
+    type: 'object',
+    properties: {
+      state: { type: 'string' },
+      priority: { type: 'string' },
+      creatorEmail: { type: 'string' },
+      billingAccount: { type: 'string' },
+      updatedAfter: { type: 'string' },
+      updatedBefore: { type: 'string' },
+      organization: { type: 'string' },
+      project: { type: 'string' },
+      clientSideFilter: { type: 'boolean' },
+    } satisfies SchemaProperties<AppliedSearchFilters>,
+  },
+  totalFound: { type: 'number', description: 'Number of cases returned' },
+  cases: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        displayName: { type: 'string' },
+        description: { type: 'string', description: 'Description truncated to 200 characters' },
+        state: { type: 'string' },
+        priority: { type: 'string' },
+        createTime: { type: 'string' },
+        updateTime: { type: 'string' },
+        creator: { type: 'string', description: 'Display name or email of the creator' },
+        escalated: { type: 'boolean' },
+      } satisfies SchemaProperties<SupportCaseSummary>,
+    },
+  },
+  ...paginationResultProperties,
+};
 
 export const searchSupportCasesTool: ToolDefinition = {
   name: 'search_support_cases',
-  description: 'Search support cases with various filters',
+  description:
+    'Search support cases with various filters. Filters are compiled into a server-side cases:search query.',
   inputSchema: {
     type: 'object',
     properties: {
@@ -18,7 +73,8 @@ export const searchSupportCasesTool: ToolDefinition = {
       },
       query: {
         type: 'string',
-        description: 'Search query (searches in case description and title)',
+        description:
+          'Free text search query (matched server-side against case title, description and comments)',
       },
       state: {
         type: 'string',
@@ -31,12 +87,52 @@ export const searchSupportCasesTool: ToolDefinition = {
         description: 'Case priority filter',
         enum: ['PRIORITY_UNSPECIFIED', 'P0', 'P1', 'P2', 'P3', 'P4'] as Priority[],
       },
+      creatorEmail: {
+        type: 'string',
+        description: 'Only return cases created by this email address',
+      },
+      billingAccount: {
+        type: 'string',
+        description: 'Only return cases for this billing account (billingAccounts/{id} or ID)',
+      },
+      updatedAfter: {
+        type: 'string',
+        description: 'Only return cases updated after this time (RFC 3339)',
+      },
+      updatedBefore: {
+        type: 'string',
+        description:
+          'Only return cases updated before this time (RFC 3339, applied to the returned results)',
+      },
+      organization: {
+        type: 'string',
+        description:
+          'Search scope override (organizations/{org_id}); defaults to the parent resource',
+      },
+      project: {
+        type: 'string',
+        description:
+          'Search scope override (projects/{project_id}); defaults to the parent resource',
+      },
+      clientSideFilter: {
+        type: 'boolean',
+        description:
+          'Match query locally against title and description of returned cases instead of server-side (fallback)',
+        default: false,
+      },
       maxResults: {
         type: 'number',
         description: 'Maximum number of results to return',
         default: 20,
       },
+      ...paginationProperties,
+      ...commonProperties,
     },
     required: ['parent'],
   },
+  outputSchema: {
+    type: 'object',
+    properties: outputProperties,
+    required: ['compiledQuery', 'appliedFilters', 'totalFound', 'cases'],
+  },
 };
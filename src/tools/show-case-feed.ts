@@ -0,0 +1,83 @@
+/**
+ * show_case_feed tool definition
+ *
+ * Tool to retrieve the unified feed of a support case (comments, email messages and attachments)
+ */
+
+import {
+  ToolDefinition,
+  paginationProperties,
+  commonProperties,
+  SchemaProperties,
+} from './types.js';
+import { paginationResultProperties } from './output-schemas.js';
+import type { CaseFeedItem, ShowCaseFeedResult } from '../types/index.js';
+
+/**
+ * Output schema properties
+ */
+const outputProperties: SchemaProperties<ShowCaseFeedResult> = {
+  caseName: { type: 'string' },
+  totalItems: { type: 'number', description: 'Number of feed items returned' },
+  items: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        time: { type: 'string', description: 'RFC 3339 timestamp' },
+        type: {
+          type: 'string',
+          enum: ['comment', 'emailMessage', 'attachment', 'deletedAttachment'],
+        },
+        name: { type: 'string' },
+        actor: { type: 'string', enum: ['customer', 'googleSupport'] },
+        author: { type: 'string' },
+        subject: { type: 'string' },
+        body: { type: 'string' },
+        recipients: { type: 'array', items: { type: 'string' } },
+        filename: { type: 'string' },
+      } satisfies SchemaProperties<CaseFeedItem>,
+      required: ['time', 'type', 'name', 'actor', 'author'],
+    },
+  },
+  ...paginationResultProperties,
+};
+
+export const showCaseFeedTool: ToolDefinition = {
+  name: 'show_case_feed',
+  description:
+    'Show the unified feed of a support case: comments, email messages and attachments in one list. Includes email replies from Google Support that get_case_comments does not return (uses the v2beta API)',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        description:
+          'The full resource name of the case (e.g., projects/{project_id}/cases/{case_id})',
+      },
+      orderBy: {
+        type: 'string',
+        enum: ['creation_time', 'creation_time desc'],
+        description: 'Sort order of feed items (default: creation_time, oldest first)',
+      },
+      pageSize: {
+        type: 'number',
+        description: 'Maximum number of feed items to return (maximum 100)',
+        minimum: 1,
+        maximum: 100,
+      },
+      pageToken: {
+        type: 'string',
+        description: 'Token for pagination',
+      },
+      ...paginationProperties,
+      ...commonProperties,
+    },
+    required: ['name'],
+  },
+  outputSchema: {
+    type: 'object',
+    properties: outputProperties,
+    required: ['caseName', 'totalItems', 'items'],
+  },
+};
@@ -4,13 +4,18 @@
 
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
 
+/**
+ * JSON Schema value type
+ */
+export type JsonSchemaType = 'string' | 'number' | 'boolean' | 'array' | 'object';
+
 /**
  * JSON Schema property type
  *
  * Strict type definition used in MCP tool input schemas
  */
 export interface JsonSchemaProperty {
-  readonly type: 'string' | 'number' | 'boolean' | 'array' | 'object';
+  readonly type: JsonSchemaType | readonly JsonSchemaType[];
   readonly description?: string;
   readonly enum?: readonly (string | number)[];
   readonly items?: JsonSchemaProperty;
@@ -36,14 +41,36 @@ export interface ToolInputSchema extends Record<string, unknown> {
   readonly additionalProperties?: boolean;
 }
 
+/**
+ * Strict tool output schema type
+ *
+ * Describes the structuredContent returned by a successful tool call
+ */
+export interface ToolOutputSchema extends Record<string, unknown> {
+  readonly type: 'object';
+  readonly properties: Readonly<Record<string, JsonSchemaProperty>>;
+  readonly required?: string[];
+}
+
+/**
+ * Schema properties describing every field of a result type
+ *
+ * Keeps output schemas in sync with the result types: a schema that misses a
+ * field, or describes a field the type does not have, does not compile.
+ */
+export type SchemaProperties<T> = {
+  readonly [K in keyof T]-?: JsonSchemaProperty;
+};
+
 /**
  * Base type for MCP tool definitions
  *
  */
-export interface ToolDefinition extends Omit<Tool, 'inputSchema'> {
+export interface ToolDefinition extends Omit<Tool, 'inputSchema' | 'outputSchema'> {
   readonly name: string;
   readonly description: string;
   readonly inputSchema: ToolInputSchema;
+  readonly outputSchema: ToolOutputSchema;
 }
 
 /**
@@ -56,6 +83,50 @@ export type ToolDefinitions = readonly ToolDefinition[];
  */
 export type GetToolDefinitions = () => ToolDefinitions;
 
+/**
+ * Input schema properties accepted by every tool
+ */
+export const commonProperties: Readonly<Record<string, JsonSchemaProperty>> = {
+  quotaProject: {
+    type: 'string',
+    description:
+      'Project ID used for quota and billing of this call (X-Goog-User-Project). Requires serviceusage.services.use on the project',
+    pattern: '^([a-z][a-z0-9-]{4,28}[a-z0-9]|[0-9]+)$',
+  },
+};
+
+/**
+ * Input schema properties accepted by mutating tools
+ */
+export const mutationProperties: Readonly<Record<string, JsonSchemaProperty>> = {
+  dryRun: {
+    type: 'boolean',
+    description:
+      'Validate the arguments and return the exact HTTP method, URL, query parameters and body that would be sent, without sending it (default: CLOUD_SUPPORT_DRY_RUN, otherwise false)',
+  },
+};
+
+/**
+ * Input schema properties for automatic pagination
+ *
+ * Shared by list and search tools that return paginated results
+ */
+export const paginationProperties: Readonly<Record<string, JsonSchemaProperty>> = {
+  fetchAll: {
+    type: 'boolean',
+    description:
+      'Fetch all pages by following nextPageToken automatically (result is marked truncated when maxItems is reached)',
+    default: false,
+  },
+  maxItems: {
+    type: 'number',
+    description:
+      'Maximum number of items to collect when fetchAll is true (default: 1000, max: 1000)',
+    minimum: 1,
+    maximum: 1000,
+  },
+};
+
 /**
  * Common parameter types for Google Cloud Support API
  */
@@ -83,11 +154,6 @@ export type Priority = 'PRIORITY_UNSPECIFIED' | 'P0' | 'P1' | 'P2' | 'P3' | 'P4'
  */
 export type CaseState = 'OPEN' | 'CLOSED' | 'ALL';
 
-/**
- * Escalation reason enumeration type
- */
-export type EscalationReason = 'RESOLUTION_TIME' | 'TECHNICAL_EXPERTISE' | 'BUSINESS_IMPACT';
-
 /**
  * Parameter type for listing case attachments
  */
@@ -5,7 +5,24 @@
  * Only priority, displayName, and subscriberEmailAddresses can be updated
  */
 
-import { ToolDefinition, Priority } from './types.js';
+import {
+  ToolDefinition,
+  Priority,
+  commonProperties,
+  mutationProperties,
+  SchemaProperties,
+} from './types.js';
+import { supportCaseSchema, dryRunResultProperties } from './output-schemas.js';
+import type { SupportCaseMutationResult } from '../types/index.js';
+
+/**
+ * Output schema properties (result, or dry-run result when dryRun is set)
+ */
+const outputProperties: SchemaProperties<SupportCaseMutationResult> = {
+  message: { type: 'string' },
+  case: supportCaseSchema,
+  ...dryRunResultProperties,
+};
 
 export const updateSupportCaseTool: ToolDefinition = {
   name: 'update_support_case',
@@ -39,7 +56,14 @@ export const updateSupportCaseTool: ToolDefinition = {
           type: 'string',
         },
       },
+      ...commonProperties,
+      ...mutationProperties,
     },
     required: ['name'],
   },
+  outputSchema: {
+    type: 'object',
+    properties: outputProperties,
+    required: ['message'],
+  },
 };
@@ -0,0 +1,60 @@
+/**
+ * upload_case_attachment tool definition
+ *
+ * Tool to upload a local file (or base64 content) as an attachment to a support case
+ */
+
+import { ToolDefinition, commonProperties, mutationProperties, SchemaProperties } from './types.js';
+import { attachmentSchema, dryRunResultProperties } from './output-schemas.js';
+import type { UploadCaseAttachmentResult } from '../types/index.js';
+
+/**
+ * Output schema properties (result, or dry-run result when dryRun is set)
+ */
+const outputProperties: SchemaProperties<UploadCaseAttachmentResult> = {
+  message: { type: 'string' },
+  attachment: attachmentSchema,
+  ...dryRunResultProperties,
+};
+
+export const uploadCaseAttachmentTool: ToolDefinition = {
+  name: 'upload_case_attachment',
+  description:
+    'Upload a file attachment to a support case from a local file path or base64-encoded content (maximum 30 MiB).',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      parent: {
+        type: 'string',
+        description:
+          'The name of the case to which the attachment should be uploaded (e.g., projects/{project_id}/cases/{case_id} or organizations/{org_id}/cases/{case_id})',
+      },
+      filePath: {
+        type: 'string',
+        description:
+          'Path of the local file to upload, inside the upload directory (CLOUD_SUPPORT_UPLOAD_DIR); relative paths are resolved against it (either filePath or content is required)',
+      },
+      content: {
+        type: 'string',
+        description: 'Base64-encoded file content (either filePath or content is required)',
+      },
+      filename: {
+        type: 'string',
+        description:
+          'The attachment file name (required with content; defaults to the base name of filePath)',
+      },
+      mimeType: {
+        type: 'string',
+        description: 'The MIME type of the file (detected from the file name when omitted)',
+      },
+      ...commonProperties,
+      ...mutationProperties,
+    },
+    required: ['parent'],
+  },
+  outputSchema: {
+    type: 'object',
+    properties: outputProperties,
+    required: ['message'],
+  },
+};
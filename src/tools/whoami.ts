@@ -0,0 +1,45 @@
+/**
+ * whoami tool definition
+ *
+ * Tool to report the active authentication method, principal and quota project
+ */
+
+import { ToolDefinition, commonProperties, SchemaProperties } from './types.js';
+import type { WhoamiResult } from '../types/index.js';
+
+/**
+ * Output schema properties
+ */
+const outputProperties: SchemaProperties<WhoamiResult> = {
+  method: { type: 'string', description: 'Active authentication method' },
+  principal: { type: 'string', description: 'Account of the credentials ("unknown" if not found)' },
+  quotaProject: { type: 'string' },
+  tokenExpiresAt: { type: 'string', description: 'RFC 3339 timestamp' },
+  configuration: {
+    type: 'object',
+    properties: {
+      pinnedMethod: { type: 'string' },
+      allowFallback: { type: 'boolean' },
+      gcloudConfiguration: { type: 'string' },
+      gcloudAccount: { type: 'string' },
+      impersonationDelegates: { type: 'array', items: { type: 'string' } },
+    } satisfies SchemaProperties<WhoamiResult['configuration']>,
+  },
+};
+
+export const whoamiTool: ToolDefinition = {
+  name: 'whoami',
+  description:
+    'Show the active Google Cloud authentication method, principal (account) and quota project. The access token is never returned',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...commonProperties,
+    },
+  },
+  outputSchema: {
+    type: 'object',
+    properties: outputProperties,
+    required: ['method', 'principal', 'quotaProject', 'configuration'],
+  },
+};
@@ -0,0 +1,125 @@
+/**
+ * Caller authentication for HTTP passthrough mode
+ *
+ * Extracts the OAuth bearer token of an incoming HTTP request so that API calls
+ * made on its behalf use the caller's own identity. The Support API then
+ * enforces the caller's IAM permissions and audit logs show the real user.
+ *
+ * When token exchange is configured, the caller token (e.g. an OIDC ID token
+ * issued by the gateway's identity provider) is first exchanged at STS for a
+ * Google Cloud access token through a workload/workforce identity pool.
+ */
+
+import { createHash } from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { TokenExchangeConfig } from './transport-config.js';
+
+/**
+ * Maximum number of exchanged tokens kept in memory
+ */
+const MAX_EXCHANGED_TOKENS = 100;
+
+/**
+ * Caller authentication error (reported as HTTP 401)
+ */
+export class CallerAuthenticationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CallerAuthenticationError';
+  }
+}
+
+/**
+ * STS token exchange response body
+ */
+interface TokenExchangeResponse {
+  access_token?: string;
+  expires_in?: number;
+}
+
+/**
+ * Authenticates callers by their bearer token
+ */
+export class CallerAuthenticator {
+  private readonly exchangedTokens = new Map<string, { token: string; expiresAt: number }>();
+
+  constructor(private readonly tokenExchange?: TokenExchangeConfig) {}
+
+  /**
+   * Authenticate an incoming request
+   * @param req HTTP request
+   * @returns Auth info carrying the Google Cloud access token to use for this caller
+   * @throws {CallerAuthenticationError} When no bearer token is present or the exchange fails
+   */
+  async authenticate(req: IncomingMessage): Promise<AuthInfo> {
+    const match = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i);
+    if (!match) {
+      throw new CallerAuthenticationError('Missing bearer token');
+    }
+
+    const callerToken = match[1];
+    if (!this.tokenExchange) {
+      return { token: callerToken, clientId: 'bearer', scopes: [] };
+    }
+
+    const { token, expiresAt } = await this.exchange(callerToken, this.tokenExchange);
+    return {
+      token,
+      clientId: 'token-exchange',
+      scopes: ['https://www.googleapis.com/auth/cloud-platform'],
+      expiresAt: Math.floor(expiresAt / 1000),
+    };
+  }
+
+  /**
+   * Exchange a caller token at STS (results are cached until shortly before expiry)
+   */
+  private async exchange(
+    callerToken: string,
+    config: TokenExchangeConfig
+  ): Promise<{ token: string; expiresAt: number }> {
+    // Cache key is a hash so that caller tokens are not kept in memory
+    const key = createHash('sha256').update(callerToken).digest('hex');
+    const cached = this.exchangedTokens.get(key);
+    if (cached && Date.now() < cached.expiresAt - 60 * 1000) {
+      return cached;
+    }
+
+    const response = await fetch(config.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:token-exchange',
+        audience: config.audience,
+        scope: 'https://www.googleapis.com/auth/cloud-platform',
+        requested_token_type: 'urn:ietf:params:oauth:token-type:access_token',
+        subject_token: callerToken,
+        subject_token_type: config.subjectTokenType,
+      }).toString(),
+    });
+
+    if (!response.ok) {
+      throw new CallerAuthenticationError(`Token exchange failed: HTTP ${response.status}`);
+    }
+
+    const data = (await response.json()) as TokenExchangeResponse;
+    if (!data.access_token) {
+      throw new CallerAuthenticationError('Token exchange returned no access token');
+    }
+
+    const exchanged = {
+      token: data.access_token,
+      expiresAt: Date.now() + (data.expires_in ?? 3600) * 1000,
+    };
+
+    // Evict the oldest entry when full (Map preserves insertion order)
+    if (this.exchangedTokens.size >= MAX_EXCHANGED_TOKENS) {
+      const oldest = this.exchangedTokens.keys().next().value;
+      if (oldest !== undefined) this.exchangedTokens.delete(oldest);
+    }
+    this.exchangedTokens.set(key, exchanged);
+
+    return exchanged;
+  }
+}
@@ -0,0 +1,420 @@
+/**
+ * HTTP transport server
+ *
+ * Exposes the MCP server over HTTP so that a single shared instance can serve
+ * multiple clients (e.g. behind an internal gateway):
+ * - Streamable HTTP: POST/GET/DELETE /mcp (session ID in the Mcp-Session-Id header)
+ * - Legacy HTTP+SSE: GET /sse opens the event stream, POST /messages?sessionId=... sends messages
+ * - Health check: GET /healthz
+ *
+ * Every session gets its own MCP Server instance created by the factory passed
+ * to the constructor. Idle sessions are closed after the configured timeout.
+ *
+ * In passthrough auth mode every MCP request must carry a bearer token, which is
+ * handed to request handlers as authInfo (see caller-auth.ts).
+ *
+ * Requests whose Host or Origin header is not allowed are rejected, so that web pages
+ * cannot call tools through the browser (DNS rebinding, cross-origin requests).
+ */
+
+import { randomUUID } from 'crypto';
+import {
+  createServer,
+  type IncomingMessage,
+  type Server as HttpServer,
+  type ServerResponse,
+} from 'http';
+import type { AddressInfo } from 'net';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from '../utils/logger.js';
+import { LOOPBACK_HOST_NAMES, type TransportConfig } from './transport-config.js';
+import { CallerAuthenticationError, CallerAuthenticator } from './caller-auth.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+
+/**
+ * Maximum request body size (base64 attachment uploads of up to 30 MiB fit)
+ */
+export const MAX_REQUEST_BODY_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Streamable HTTP endpoint path
+ */
+export const STREAMABLE_HTTP_PATH = '/mcp';
+
+/**
+ * Legacy SSE endpoint paths
+ */
+export const SSE_PATH = '/sse';
+export const SSE_MESSAGES_PATH = '/messages';
+
+/**
+ * HTTP session
+ */
+interface HttpSession {
+  readonly kind: 'streamable-http' | 'sse';
+  readonly transport: StreamableHTTPServerTransport | SSEServerTransport;
+  readonly server: Server;
+  lastActivity: number;
+}
+
+/**
+ * HTTP error with status code
+ */
+class HttpRequestError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly rpcCode: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpRequestError';
+  }
+}
+
+/**
+ * HTTP transport server options
+ */
+export type HttpTransportOptions = Pick<TransportConfig, 'host' | 'port' | 'sessionIdleTimeoutMs'> &
+  Partial<Pick<TransportConfig, 'allowedHosts' | 'allowedOrigins' | 'authMode' | 'tokenExchange'>>;
+
+/**
+ * Check whether a bind address only accepts connections from the local machine
+ */
+function isLoopbackAddress(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+/**
+ * Host name of a Host header value or origin (lowercase, IPv6 addresses in brackets)
+ * @returns Host name, or undefined when the value cannot be parsed
+ */
+function parseHostName(value: string): string | undefined {
+  try {
+    return new URL(value.includes('://') ? value : `http://${value}`).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * HTTP transport server managing MCP sessions
+ */
+export class HttpTransportServer {
+  private readonly sessions = new Map<string, HttpSession>();
+  private httpServer?: HttpServer;
+  private sweepTimer?: NodeJS.Timeout;
+  private readonly authenticator?: CallerAuthenticator;
+  private readonly allowedHosts?: readonly string[];
+
+  constructor(
+    private readonly createMcpServer: () => Server,
+    private readonly options: HttpTransportOptions
+  ) {
+    this.allowedHosts =
+      options.allowedHosts ?? (isLoopbackAddress(options.host) ? LOOPBACK_HOST_NAMES : undefined);
+    if (options.authMode === 'passthrough') {
+      this.authenticator = new CallerAuthenticator(options.tokenExchange);
+    }
+  }
+
+  /**
+   * Number of open sessions
+   */
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Start listening
+   * @returns Bound address (useful when port 0 was requested)
+   */
+  async start(): Promise<AddressInfo> {
+    const httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        logger.error('HTTP request handling failed', error);
+        this.sendError(res, 500, -32603, 'Internal server error');
+      });
+    });
+    this.httpServer = httpServer;
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    // Close idle sessions periodically
+    const sweepInterval = Math.min(this.options.sessionIdleTimeoutMs, 60 * 1000);
+    this.sweepTimer = setInterval(() => {
+      this.closeIdleSessions().catch((error) => {
+        logger.warn('Failed to close idle sessions', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }, sweepInterval);
+    this.sweepTimer.unref();
+
+    const address = httpServer.address() as AddressInfo;
+    logger.info('HTTP transport listening', { host: address.address, port: address.port });
+    return address;
+  }
+
+  /**
+   * Close all sessions and stop listening
+   */
+  async close(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+
+    await Promise.allSettled([...this.sessions.keys()].map((id) => this.closeSession(id)));
+
+    const httpServer = this.httpServer;
+    this.httpServer = undefined;
+    if (httpServer) {
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Route an HTTP request
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    try {
+      if (url.pathname !== '/healthz') {
+        this.checkHostAndOrigin(req);
+        await this.authenticate(req);
+      }
+
+      if (url.pathname === STREAMABLE_HTTP_PATH) {
+        await this.handleStreamableHttp(req, res);
+      } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+        await this.handleSseConnect(res);
+      } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+        await this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+      } else if (url.pathname === '/healthz' && req.method === 'GET') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'ok', sessions: this.sessions.size }));
+      } else {
+        this.sendError(res, 404, -32601, 'Not found');
+      }
+    } catch (error) {
+      if (error instanceof HttpRequestError) {
+        this.sendError(res, error.status, error.rpcCode, error.message);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reject requests for foreign hosts and from foreign browser origins
+   * Requests without an Origin header (non-browser clients) only need an allowed host.
+   * @throws {HttpRequestError} 403 when the host or origin is not allowed
+   */
+  private checkHostAndOrigin(req: IncomingMessage): void {
+    const { host, origin } = req.headers;
+    const hostName = host ? parseHostName(host) : undefined;
+    if (this.allowedHosts && (!hostName || !this.allowedHosts.includes(hostName))) {
+      throw new HttpRequestError(403, -32000, `Forbidden: host ${host ?? '(none)'} is not allowed`);
+    }
+
+    if (origin === undefined) {
+      return;
+    }
+    const originHostName = parseHostName(origin);
+    const allowed =
+      this.options.allowedOrigins?.includes(origin) ||
+      (originHostName !== undefined && LOOPBACK_HOST_NAMES.includes(originHostName));
+    if (!allowed) {
+      throw new HttpRequestError(403, -32000, `Forbidden: origin ${origin} is not allowed`);
+    }
+  }
+
+  /**
+   * Attach caller auth info to the request (passthrough mode only)
+   * @throws {HttpRequestError} 401 when the caller cannot be authenticated
+   */
+  private async authenticate(req: IncomingMessage & { auth?: AuthInfo }): Promise<void> {
+    if (!this.authenticator) {
+      return;
+    }
+
+    try {
+      req.auth = await this.authenticator.authenticate(req);
+    } catch (error) {
+      if (error instanceof CallerAuthenticationError) {
+        throw new HttpRequestError(401, -32001, `Unauthorized: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Handle Streamable HTTP request (initialization or existing session)
+   */
+  private async handleStreamableHttp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const body = req.method === 'POST' ? await this.readJsonBody(req) : undefined;
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const session = this.getSession(sessionId, 'streamable-http');
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      throw new HttpRequestError(400, -32000, 'Bad Request: No valid session ID provided');
+    }
+
+    const server = this.createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, {
+          kind: 'streamable-http',
+          transport,
+          server,
+          lastActivity: Date.now(),
+        });
+        logger.info('HTTP session opened', { sessionId: id, kind: 'streamable-http' });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.removeSession(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Open legacy SSE stream
+   */
+  private async handleSseConnect(res: ServerResponse): Promise<void> {
+    const server = this.createMcpServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    const sessionId = transport.sessionId;
+
+    this.sessions.set(sessionId, { kind: 'sse', transport, server, lastActivity: Date.now() });
+    logger.info('HTTP session opened', { sessionId, kind: 'sse' });
+    res.on('close', () => this.removeSession(sessionId));
+
+    await server.connect(transport);
+  }
+
+  /**
+   * Handle message posted to a legacy SSE session
+   */
+  private async handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    sessionId: string | null
+  ): Promise<void> {
+    if (!sessionId) {
+      throw new HttpRequestError(400, -32000, 'Bad Request: sessionId query parameter is required');
+    }
+
+    const session = this.getSession(sessionId, 'sse');
+    const body = await this.readJsonBody(req);
+    await (session.transport as SSEServerTransport).handlePostMessage(req, res, body);
+  }
+
+  /**
+   * Look up a session and record activity
+   * @throws {HttpRequestError} When the session does not exist
+   */
+  private getSession(sessionId: string, kind: HttpSession['kind']): HttpSession {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.kind !== kind) {
+      throw new HttpRequestError(404, -32001, 'Session not found');
+    }
+    session.lastActivity = Date.now();
+    return session;
+  }
+
+  /**
+   * Forget a session whose transport has closed
+   */
+  private removeSession(sessionId: string): void {
+    if (this.sessions.delete(sessionId)) {
+      logger.info('HTTP session closed', { sessionId });
+    }
+  }
+
+  /**
+   * Close a session and its MCP server
+   */
+  private async closeSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    this.removeSession(sessionId);
+    await session.server.close();
+  }
+
+  /**
+   * Close sessions without activity within the idle timeout
+   */
+  private async closeIdleSessions(): Promise<void> {
+    const threshold = Date.now() - this.options.sessionIdleTimeoutMs;
+    const idle = [...this.sessions.entries()]
+      .filter(([, session]) => session.lastActivity < threshold)
+      .map(([id]) => id);
+
+    for (const sessionId of idle) {
+      logger.info('Closing idle HTTP session', { sessionId });
+      await this.closeSession(sessionId);
+    }
+  }
+
+  /**
+   * Read and parse JSON request body
+   * @throws {HttpRequestError} When the body is too large or not valid JSON
+   */
+  private async readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > MAX_REQUEST_BODY_BYTES) {
+        throw new HttpRequestError(413, -32000, 'Request body too large');
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      throw new HttpRequestError(400, -32700, 'Parse error: Invalid JSON');
+    }
+  }
+
+  /**
+   * Send JSON-RPC error response
+   */
+  private sendError(res: ServerResponse, status: number, code: number, message: string): void {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      ...(status === 401 && { 'WWW-Authenticate': 'Bearer' }),
+    });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+  }
+}
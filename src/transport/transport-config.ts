@@ -0,0 +1,199 @@
+/**
+ * Transport configuration
+ *
+ * Selects how the MCP server is exposed. CLI flags take precedence over
+ * environment variables.
+ *
+ * - --transport=<stdio|http> / CLOUD_SUPPORT_TRANSPORT (default: stdio)
+ * - --host=<host> / CLOUD_SUPPORT_HTTP_HOST (default: 127.0.0.1)
+ * - --port=<port> / CLOUD_SUPPORT_HTTP_PORT (default: 3000)
+ * - CLOUD_SUPPORT_HTTP_SESSION_TIMEOUT_MS: Idle time after which HTTP sessions are closed
+ * - CLOUD_SUPPORT_HTTP_ALLOWED_HOSTS: Comma-separated host names accepted in the Host header
+ *   (default: localhost names when bound to a loopback address, any host otherwise)
+ * - CLOUD_SUPPORT_HTTP_ALLOWED_ORIGINS: Comma-separated browser origins allowed besides localhost
+ *   origins (e.g. https://console.example.com)
+ * - --http-auth=<server|passthrough> / CLOUD_SUPPORT_HTTP_AUTH (default: server)
+ * - CLOUD_SUPPORT_TOKEN_EXCHANGE_AUDIENCE: Exchange caller tokens at STS for this audience
+ *   (workload/workforce identity pool provider) before forwarding them
+ * - CLOUD_SUPPORT_TOKEN_EXCHANGE_SUBJECT_TOKEN_TYPE: Subject token type of caller tokens
+ *   (default: urn:ietf:params:oauth:token-type:jwt)
+ * - CLOUD_SUPPORT_TOKEN_EXCHANGE_URL: STS token endpoint (default: https://sts.googleapis.com/v1/token)
+ * - --mock / CLOUD_SUPPORT_MOCK=true: Serve from the in-process mock Support API with fake credentials
+ */
+
+import { ConfigurationError } from '../types/errors.js';
+
+/**
+ * Transport mode
+ * http serves Streamable HTTP and the legacy HTTP+SSE transport side by side
+ */
+export type TransportMode = 'stdio' | 'http';
+
+/**
+ * HTTP authentication mode
+ * - server: every call uses the server's own credentials
+ * - passthrough: every call uses the bearer token of the incoming HTTP request
+ */
+export type HttpAuthMode = 'server' | 'passthrough';
+
+/**
+ * Token exchange settings for passthrough mode
+ */
+export interface TokenExchangeConfig {
+  readonly audience: string;
+  readonly subjectTokenType: string;
+  readonly tokenUrl: string;
+}
+
+/**
+ * Transport configuration type definition
+ */
+export interface TransportConfig {
+  readonly mode: TransportMode;
+  readonly host: string;
+  readonly port: number;
+  readonly sessionIdleTimeoutMs: number;
+  readonly allowedHosts?: readonly string[]; // Default: localhost names on loopback binds
+  readonly allowedOrigins?: readonly string[]; // Origins allowed besides localhost origins
+  readonly authMode: HttpAuthMode;
+  readonly tokenExchange?: TokenExchangeConfig; // Only used in passthrough mode
+  readonly mock: boolean; // Run offline against the mock Support API
+}
+
+/**
+ * Default HTTP bind address (loopback only; use a gateway or --host to expose)
+ */
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+
+/**
+ * Host names of the local machine (as in Host and Origin headers)
+ */
+export const LOOPBACK_HOST_NAMES: readonly string[] = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Default HTTP port
+ */
+export const DEFAULT_HTTP_PORT = 3000;
+
+/**
+ * Default idle timeout of HTTP sessions (30 minutes)
+ */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * Default STS token endpoint
+ */
+export const DEFAULT_TOKEN_EXCHANGE_URL = 'https://sts.googleapis.com/v1/token';
+
+/**
+ * Default subject token type of caller tokens
+ */
+export const DEFAULT_SUBJECT_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:jwt';
+
+const TRANSPORT_MODES: readonly TransportMode[] = ['stdio', 'http'];
+const HTTP_AUTH_MODES: readonly HttpAuthMode[] = ['server', 'passthrough'];
+
+/**
+ * Read a CLI flag value (--name=value or --name value)
+ */
+function getFlag(argv: readonly string[], name: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith(`--${name}=`)) {
+      return arg.slice(name.length + 3);
+    }
+    if (arg === `--${name}`) {
+      return argv[i + 1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check a boolean CLI flag (--name)
+ */
+function hasFlag(argv: readonly string[], name: string): boolean {
+  return argv.includes(`--${name}`);
+}
+
+/**
+ * Parse comma-separated list setting
+ */
+function parseList(value: string | undefined): string[] | undefined {
+  const items = value
+    ?.split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items?.length ? items : undefined;
+}
+
+/**
+ * Parse positive integer setting
+ */
+function parsePositiveInteger(value: string, source: string, max: number): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > max) {
+    throw new ConfigurationError(
+      `Invalid value "${value}" for ${source}. Expected an integer between 1 and ${max}`,
+      'TRANSPORT_CONFIG_INVALID_NUMBER'
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Resolve transport configuration
+ * @param argv Command line arguments (without node and script path)
+ * @param env Environment variables
+ * @returns Transport configuration
+ * @throws {ConfigurationError} When a setting is invalid
+ */
+export function resolveTransportConfig(
+  argv: readonly string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): TransportConfig {
+  const mode = getFlag(argv, 'transport') ?? env.CLOUD_SUPPORT_TRANSPORT ?? 'stdio';
+  if (!TRANSPORT_MODES.includes(mode as TransportMode)) {
+    throw new ConfigurationError(
+      `Invalid transport "${mode}". Expected one of: ${TRANSPORT_MODES.join(', ')}`,
+      'TRANSPORT_CONFIG_INVALID_MODE'
+    );
+  }
+
+  const authMode = getFlag(argv, 'http-auth') ?? env.CLOUD_SUPPORT_HTTP_AUTH ?? 'server';
+  if (!HTTP_AUTH_MODES.includes(authMode as HttpAuthMode)) {
+    throw new ConfigurationError(
+      `Invalid HTTP auth mode "${authMode}". Expected one of: ${HTTP_AUTH_MODES.join(', ')}`,
+      'TRANSPORT_CONFIG_INVALID_AUTH_MODE'
+    );
+  }
+
+  const exchangeAudience = env.CLOUD_SUPPORT_TOKEN_EXCHANGE_AUDIENCE;
+  const port = getFlag(argv, 'port') ?? env.CLOUD_SUPPORT_HTTP_PORT;
+  const sessionIdleTimeout = env.CLOUD_SUPPORT_HTTP_SESSION_TIMEOUT_MS;
+
+  return {
+    mode: mode as TransportMode,
+    host: getFlag(argv, 'host') ?? env.CLOUD_SUPPORT_HTTP_HOST ?? DEFAULT_HTTP_HOST,
+    port: port ? parsePositiveInteger(port, 'HTTP port', 65535) : DEFAULT_HTTP_PORT,
+    sessionIdleTimeoutMs: sessionIdleTimeout
+      ? parsePositiveInteger(
+          sessionIdleTimeout,
+          'CLOUD_SUPPORT_HTTP_SESSION_TIMEOUT_MS',
+          Number.MAX_SAFE_INTEGER
+        )
+      : DEFAULT_SESSION_IDLE_TIMEOUT_MS,
+    allowedHosts: parseList(env.CLOUD_SUPPORT_HTTP_ALLOWED_HOSTS),
+    allowedOrigins: parseList(env.CLOUD_SUPPORT_HTTP_ALLOWED_ORIGINS),
+    authMode: authMode as HttpAuthMode,
+    tokenExchange: exchangeAudience
+      ? {
+          audience: exchangeAudience,
+          subjectTokenType:
+            env.CLOUD_SUPPORT_TOKEN_EXCHANGE_SUBJECT_TOKEN_TYPE || DEFAULT_SUBJECT_TOKEN_TYPE,
+          tokenUrl: env.CLOUD_SUPPORT_TOKEN_EXCHANGE_URL || DEFAULT_TOKEN_EXCHANGE_URL,
+        }
+      : undefined,
+    mock: hasFlag(argv, 'mock') || ['true', '1'].includes(env.CLOUD_SUPPORT_MOCK ?? ''),
+  };
+}
@@ -2,7 +2,7 @@
  * Google Cloud Support API v2 Request Type Definitions
  */
 
-import type { CaseClassification, CasePriority } from './common-types.js';
+import type { CaseClassification, CasePriority, EscalationReason } from './common-types.js';
 
 /**
  * Base request body type
@@ -43,6 +43,16 @@ export interface CreateCaseCommentRequestBody extends BaseRequestBody {
   readonly body: string;
 }
 
+/**
+ * Support case escalation request body
+ */
+export interface EscalateSupportCaseRequestBody extends BaseRequestBody {
+  readonly escalation: {
+    readonly reason: EscalationReason;
+    readonly justification: string;
+  };
+}
+
 /**
  * Case search request body (for search queries)
  */
@@ -71,6 +81,7 @@ export type ApiRequestBody =
   | CreateSupportCaseRequestBody
   | UpdateSupportCaseRequestBody
   | CreateCaseCommentRequestBody
+  | EscalateSupportCaseRequestBody
   | SearchSupportCasesRequestBody
   | SearchCaseClassificationsRequestBody
   | EmptyRequestBody;
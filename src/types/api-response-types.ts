@@ -1,8 +1,14 @@
 /**
- * Google Cloud Support API v2 response type definitions
+ * Google Cloud Support API v2 / v2beta response type definitions
  */
 
-import type { SupportCaseData, CommentData, AttachmentData } from './api-types.js';
+import type {
+  SupportCaseData,
+  CommentData,
+  AttachmentData,
+  EmailMessageData,
+  FeedItemData,
+} from './api-types.js';
 import type { CaseClassification } from './common-types.js';
 
 /**
@@ -49,6 +55,11 @@ export type UpdateSupportCaseResponse = SupportCaseData;
  */
 export type CloseSupportCaseResponse = SupportCaseData;
 
+/**
+ * Support case escalation response (returns SupportCaseData directly)
+ */
+export type EscalateSupportCaseResponse = SupportCaseData;
+
 /**
  * Case comment list response
  */
@@ -72,6 +83,11 @@ export interface ListCaseAttachmentsResponse extends BaseApiResponse {
   readonly totalSize?: number;
 }
 
+/**
+ * Case attachment upload response (returns AttachmentData directly)
+ */
+export type UploadCaseAttachmentResponse = AttachmentData;
+
 /**
  * Support case search response
  */
@@ -91,20 +107,153 @@ export interface SearchCaseClassificationsResponse extends BaseApiResponse {
 }
 
 /**
- * Error response type
+ * Case feed response (v2beta only)
+ */
+export interface ShowFeedResponse extends BaseApiResponse {
+  readonly feedItems?: readonly FeedItemData[];
+  readonly nextPageToken?: string;
+}
+
+/**
+ * Case email message list response (v2beta only)
+ */
+export interface ListEmailMessagesResponse extends BaseApiResponse {
+  readonly emailMessages?: readonly EmailMessageData[];
+  readonly nextPageToken?: string;
+}
+
+/**
+ * Support API version
+ */
+export type ApiVersion = 'v2' | 'v2beta';
+
+/**
+ * Case read methods available in v2
+ */
+export interface V2CaseReadMethods {
+  readonly getCase: GetSupportCaseResponse;
+  readonly listComments: ListCaseCommentsResponse;
+  readonly listAttachments: ListCaseAttachmentsResponse;
+}
+
+/**
+ * Case read methods available in v2beta (superset of v2)
+ */
+export interface V2BetaCaseReadMethods extends V2CaseReadMethods {
+  readonly showFeed: ShowFeedResponse;
+  readonly listEmailMessages: ListEmailMessagesResponse;
+}
+
+/**
+ * Case read methods by API version
+ *
+ * Gates methods by version at compile time: v2beta-only methods
+ * (showFeed, listEmailMessages) cannot be requested from v2.
+ */
+export interface CaseReadMethodsByVersion {
+  readonly v2: V2CaseReadMethods;
+  readonly v2beta: V2BetaCaseReadMethods;
+}
+
+/**
+ * Case read method name available in the given version
+ */
+export type CaseReadMethod<V extends ApiVersion> = keyof CaseReadMethodsByVersion[V] & string;
+
+/**
+ * Response type of a case read method in the given version
+ */
+export type CaseReadMethodResponse<
+  V extends ApiVersion,
+  M extends CaseReadMethod<V>,
+> = CaseReadMethodsByVersion[V][M];
+
+/**
+ * Error detail (google.protobuf.Any entry of google.rpc.Status details)
+ */
+export interface ErrorDetail {
+  readonly '@type': string;
+  readonly [key: string]: unknown;
+}
+
+/**
+ * google.rpc.RetryInfo error detail
+ */
+export interface RetryInfoDetail extends ErrorDetail {
+  readonly '@type': 'type.googleapis.com/google.rpc.RetryInfo';
+  readonly retryDelay?: string; // Duration in JSON form (e.g. "30s", "1.500s")
+}
+
+/**
+ * google.rpc.ErrorInfo error detail
+ */
+export interface ErrorInfoDetail extends ErrorDetail {
+  readonly '@type': 'type.googleapis.com/google.rpc.ErrorInfo';
+  readonly reason?: string; // UPPER_SNAKE_CASE error reason (e.g. RATE_LIMIT_EXCEEDED)
+  readonly domain?: string; // Service that generated the error (e.g. cloudsupport.googleapis.com)
+  readonly metadata?: Readonly<Record<string, string>>;
+}
+
+/**
+ * Field violation of a google.rpc.BadRequest error detail
+ */
+export interface FieldViolation {
+  readonly field: string; // Path to the request field (e.g. case.classification.id)
+  readonly description: string;
+  readonly reason?: string;
+}
+
+/**
+ * google.rpc.BadRequest error detail
+ */
+export interface BadRequestDetail extends ErrorDetail {
+  readonly '@type': 'type.googleapis.com/google.rpc.BadRequest';
+  readonly fieldViolations?: readonly FieldViolation[];
+}
+
+/**
+ * Link of a google.rpc.Help error detail
+ */
+export interface HelpLink {
+  readonly description: string;
+  readonly url: string;
+}
+
+/**
+ * google.rpc.Help error detail
+ */
+export interface HelpDetail extends ErrorDetail {
+  readonly '@type': 'type.googleapis.com/google.rpc.Help';
+  readonly links?: readonly HelpLink[];
+}
+
+/**
+ * Error response type (google.rpc.Status envelope)
  */
 export interface ErrorResponse extends BaseApiResponse {
   readonly error: {
-    readonly code: string;
+    readonly code: number; // HTTP status code
     readonly message: string;
-    readonly status: string;
-    readonly details?: readonly {
-      readonly '@type': string;
-      readonly [key: string]: unknown;
-    }[];
+    readonly status: string; // Canonical error code (e.g. RESOURCE_EXHAUSTED)
+    readonly details?: readonly ErrorDetail[];
   };
 }
 
+/**
+ * Google API error details
+ * Typed view of an error envelope, with its details merged by type
+ */
+export interface GoogleApiErrorDetails {
+  readonly code: number;
+  readonly status: string;
+  readonly message: string;
+  readonly reason?: string; // From ErrorInfo
+  readonly domain?: string; // From ErrorInfo
+  readonly metadata?: Readonly<Record<string, string>>; // From ErrorInfo
+  readonly fieldViolations: readonly FieldViolation[]; // From BadRequest
+  readonly helpLinks: readonly HelpLink[]; // From Help
+}
+
 /**
  * API response union type
  *
@@ -118,6 +267,8 @@ export type ApiResponseData =
   | ListCaseAttachmentsResponse
   | SearchSupportCasesResponse
   | SearchCaseClassificationsResponse
+  | ShowFeedResponse
+  | ListEmailMessagesResponse
   | ErrorResponse;
 
 /**
@@ -53,3 +53,32 @@ export interface AttachmentData {
   mimeType?: string; // MIME type
   sizeBytes?: string; // File size (bytes)
 }
+
+/**
+ * Google Cloud Support API v2beta - EmailMessage type definition
+ * Reference: https://cloud.google.com/support/docs/reference/rest/v2beta/cases.emailMessages
+ */
+export interface EmailMessageData {
+  name?: string; // Email message resource name (read-only)
+  createTime?: string; // Time the email was received (RFC 3339, read-only)
+  actor?: Actor; // Sender of the email (read-only)
+  subject?: string; // Email subject (read-only)
+  recipientEmailAddresses?: string[]; // Recipients (read-only)
+  ccEmailAddresses?: string[]; // CC recipients (read-only)
+  bodyContent?: {
+    plainText?: string; // Plain text body (read-only)
+  };
+}
+
+/**
+ * Google Cloud Support API v2beta - FeedItem type definition
+ * Exactly one of comment, emailMessage, attachment or deletedAttachment is set.
+ * Reference: https://cloud.google.com/support/docs/reference/rest/v2beta/cases/showFeed
+ */
+export interface FeedItemData {
+  eventTime?: string; // Time of the event (RFC 3339, read-only)
+  comment?: CommentData;
+  emailMessage?: EmailMessageData;
+  attachment?: AttachmentData;
+  deletedAttachment?: AttachmentData;
+}
@@ -48,3 +48,16 @@ export type CasePriority =
   | 'P2' // Serious impact on production service (significantly degraded)
   | 'P3' // Moderate impact on production service (moderately degraded)
   | 'P4'; // General questions or minor issues
+
+/**
+ * Google Cloud Support API v2 - Escalation Reason enumeration
+ * (REASON_UNSPECIFIED is omitted: it is not accepted when escalating)
+ * Reference: https://cloud.google.com/support/docs/reference/rest/v2/cases/escalate#Reason
+ */
+export const ESCALATION_REASONS = [
+  'RESOLUTION_TIME', // The case is taking too long to resolve
+  'TECHNICAL_EXPERTISE', // The support agent does not have the expertise required
+  'BUSINESS_IMPACT', // The issue is having a significant business impact
+] as const;
+
+export type EscalationReason = (typeof ESCALATION_REASONS)[number];
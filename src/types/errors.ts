@@ -2,6 +2,8 @@
  * Error Types and Custom Error Classes
  */
 
+import type { GoogleApiErrorDetails } from './api-response-types.js';
+
 /**
  * Error category definitions
  * Secure error classification following instructions.md
@@ -342,14 +344,18 @@ export class GenericError extends BaseError {
 export class ErrorClassifier {
   /**
    * Generate custom error from HTTP error response
+   * The message of the parsed Google error envelope, when given, is appended to the status
    */
   static fromHttpResponse(
     statusCode: number,
     statusText: string,
     responseBody?: string,
-    originalError?: Error
+    originalError?: Error,
+    details?: GoogleApiErrorDetails
   ): BaseError {
-    const message = `HTTP ${statusCode}: ${statusText}`;
+    const message = details?.message
+      ? `HTTP ${statusCode}: ${statusText} - ${details.message}`
+      : `HTTP ${statusCode}: ${statusText}`;
 
     switch (statusCode) {
       case 401:
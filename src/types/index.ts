@@ -3,16 +3,30 @@
  */
 
 // Common type definitions
-export type { Actor, CaseClassification, CaseState, CasePriority } from './common-types.js';
+export type {
+  Actor,
+  CaseClassification,
+  CaseState,
+  CasePriority,
+  EscalationReason,
+} from './common-types.js';
+export { ESCALATION_REASONS } from './common-types.js';
 
 // API data type definitions
-export type { SupportCaseData, CommentData, AttachmentData } from './api-types.js';
+export type {
+  SupportCaseData,
+  CommentData,
+  AttachmentData,
+  EmailMessageData,
+  FeedItemData,
+} from './api-types.js';
 
 export type {
   ApiRequestBody,
   CreateSupportCaseRequestBody,
   UpdateSupportCaseRequestBody,
   CreateCaseCommentRequestBody,
+  EscalateSupportCaseRequestBody,
   SearchSupportCasesRequestBody,
   SearchCaseClassificationsRequestBody,
   EmptyRequestBody,
@@ -27,12 +41,30 @@ export type {
   CreateSupportCaseResponse,
   UpdateSupportCaseResponse,
   CloseSupportCaseResponse,
+  EscalateSupportCaseResponse,
   ListCaseCommentsResponse,
   CreateCaseCommentResponse,
   ListCaseAttachmentsResponse,
+  UploadCaseAttachmentResponse,
   SearchSupportCasesResponse,
   SearchCaseClassificationsResponse,
+  ShowFeedResponse,
+  ListEmailMessagesResponse,
+  ApiVersion,
+  V2CaseReadMethods,
+  V2BetaCaseReadMethods,
+  CaseReadMethodsByVersion,
+  CaseReadMethod,
+  CaseReadMethodResponse,
   ErrorResponse,
+  ErrorDetail,
+  RetryInfoDetail,
+  ErrorInfoDetail,
+  FieldViolation,
+  BadRequestDetail,
+  HelpLink,
+  HelpDetail,
+  GoogleApiErrorDetails,
 } from './api-response-types.js';
 
 export type {
@@ -46,18 +78,56 @@ export type {
 
 // MCP tool argument type definitions
 export type {
+  CommonToolArgs,
+  MutationToolArgs,
+  PaginationArgs,
   ListSupportCasesArgs,
   GetSupportCaseArgs,
   GetCaseCommentsArgs,
   CreateSupportCaseArgs,
   UpdateSupportCaseArgs,
   CloseSupportCaseArgs,
+  EscalateSupportCaseArgs,
   CreateCaseCommentArgs,
   ListCaseAttachmentsArgs,
+  UploadCaseAttachmentArgs,
+  DownloadCaseAttachmentArgs,
   SearchSupportCasesArgs,
   SearchCaseClassificationsArgs,
+  GetCaseTimelineArgs,
+  ShowCaseFeedArgs,
+  WhoamiArgs,
 } from './mcp-types.js';
 
+// MCP tool result type definitions
+export type {
+  SupportCaseRecord,
+  PaginatedResult,
+  CaseCommentRecord,
+  ListSupportCasesResult,
+  GetSupportCaseResult,
+  CaseCommentSummary,
+  GetCaseCommentsResult,
+  SupportCaseSummary,
+  AppliedSearchFilters,
+  SearchSupportCasesResult,
+  SupportCaseMutationResult,
+  EscalateSupportCaseResult,
+  CreateCaseCommentResult,
+  ListCaseAttachmentsResult,
+  UploadCaseAttachmentResult,
+  DownloadCaseAttachmentResult,
+  SearchCaseClassificationsResult,
+  TimelineEventType,
+  TimelineActor,
+  TimelineEvent,
+  GetCaseTimelineResult,
+  CaseFeedItemType,
+  CaseFeedItem,
+  ShowCaseFeedResult,
+  WhoamiResult,
+} from './tool-result-types.js';
+
 // Type-safe tool execution system
 export type {
   ToolArgumentsMap,
@@ -5,12 +5,40 @@
  * Compliant with Google Cloud Support API v2 official specifications.
  */
 
-import type { CaseClassification, CasePriority } from './common-types.js';
+import type { CaseClassification, CasePriority, EscalationReason } from './common-types.js';
+
+/**
+ * Common argument type
+ *
+ * Accepted by every tool.
+ */
+export interface CommonToolArgs {
+  quotaProject?: string; // Quota/billing project for this call (overrides CLOUD_SUPPORT_QUOTA_PROJECT)
+}
+
+/**
+ * Mutating tool argument type
+ *
+ * Accepted by tools that change cases (create, update, close, escalate, comment, upload).
+ */
+export interface MutationToolArgs extends CommonToolArgs {
+  dryRun?: boolean; // Validate and return the request without sending it (overrides CLOUD_SUPPORT_DRY_RUN)
+}
+
+/**
+ * Automatic pagination argument type
+ *
+ * Shared by list and search tools that return paginated results.
+ */
+export interface PaginationArgs extends CommonToolArgs {
+  fetchAll?: boolean; // Follow nextPageToken until all pages are fetched
+  maxItems?: number; // Maximum number of items to collect when fetchAll is set (maximum 1000)
+}
 
 /**
  * Support case list retrieval argument type
  */
-export interface ListSupportCasesArgs {
+export interface ListSupportCasesArgs extends PaginationArgs {
   parent: string; // Project or organization resource name
   filter?: string; // Filter expression (e.g., "state=OPEN")
   pageSize?: number; // Number of items to retrieve (maximum 100)
@@ -20,14 +48,14 @@ export interface ListSupportCasesArgs {
 /**
  * Individual support case retrieval argument type
  */
-export interface GetSupportCaseArgs {
+export interface GetSupportCaseArgs extends CommonToolArgs {
   name: string; // Full resource name of the case
 }
 
 /**
  * Case comment retrieval argument type
  */
-export interface GetCaseCommentsArgs {
+export interface GetCaseCommentsArgs extends PaginationArgs {
   name: string; // Full resource name of the case
   pageToken?: string; // Pagination token
 }
@@ -38,7 +66,7 @@ export interface GetCaseCommentsArgs {
  * Compliant with Google Cloud Support API v2 official specifications.
  * Reference: https://cloud.google.com/support/docs/reference/rest/v2/cases/create
  */
-export interface CreateSupportCaseArgs {
+export interface CreateSupportCaseArgs extends MutationToolArgs {
   parent: string; // Project or organization resource name
   displayName: string; // Short summary of the issue (required)
   description: string; // Detailed description of the issue (required)
@@ -56,7 +84,7 @@ export interface CreateSupportCaseArgs {
  * Compliant with Google Cloud Support API v2 official specifications.
  * Reference: https://cloud.google.com/support/docs/reference/rest/v2/cases/patch
  */
-export interface UpdateSupportCaseArgs {
+export interface UpdateSupportCaseArgs extends MutationToolArgs {
   name: string; // Full resource name of the case (required)
   updateMask?: string; // Mask for fields to update (comma-separated)
   priority?: CasePriority; // Case priority
@@ -70,17 +98,29 @@ export interface UpdateSupportCaseArgs {
  * Compliant with Google Cloud Support API v2 official specifications.
  * Reference: https://cloud.google.com/support/docs/reference/rest/v2/cases/close
  */
-export interface CloseSupportCaseArgs {
+export interface CloseSupportCaseArgs extends MutationToolArgs {
   name: string; // Full resource name of the case (required)
 }
 
+/**
+ * Support case escalation argument type
+ *
+ * Compliant with Google Cloud Support API v2 official specifications.
+ * Reference: https://cloud.google.com/support/docs/reference/rest/v2/cases/escalate
+ */
+export interface EscalateSupportCaseArgs extends MutationToolArgs {
+  name: string; // Full resource name of the case (required)
+  reason: EscalationReason; // Reason for the escalation (required)
+  justification: string; // Justification for the escalation (required, maximum 1000 characters)
+}
+
 /**
  * Case comment creation argument type
  *
  * Compliant with Google Cloud Support API v2 official specifications.
  * Reference: https://cloud.google.com/support/docs/reference/rest/v2/cases.comments/create
  */
-export interface CreateCaseCommentArgs {
+export interface CreateCaseCommentArgs extends MutationToolArgs {
   parent: string; // Full resource name of the case (required)
   body: string; // Comment body (required, maximum 12800 characters)
 }
@@ -91,22 +131,55 @@ export interface CreateCaseCommentArgs {
  * Compliant with Google Cloud Support API v2 official specifications.
  * Reference: https://cloud.google.com/support/docs/reference/rest/v2/cases.attachments/list
  */
-export interface ListCaseAttachmentsArgs {
+export interface ListCaseAttachmentsArgs extends PaginationArgs {
   parent: string; // Full resource name of the case (required)
   pageSize?: number; // Number of items to retrieve (maximum 100, default 10)
   pageToken?: string; // Pagination token
 }
 
+/**
+ * Case attachment upload argument type
+ *
+ * Compliant with Google Cloud Support API v2 official specifications.
+ * Reference: https://cloud.google.com/support/docs/reference/rest/v2/media/upload
+ */
+export interface UploadCaseAttachmentArgs extends MutationToolArgs {
+  parent: string; // Full resource name of the case (required)
+  filePath?: string; // Local file path (either filePath or content is required)
+  content?: string; // Base64-encoded file content
+  filename?: string; // Attachment file name (required with content, defaults to file base name)
+  mimeType?: string; // MIME type (detected from file name when omitted)
+}
+
+/**
+ * Case attachment download argument type
+ *
+ * Compliant with Google Cloud Support API v2 official specifications.
+ * Reference: https://cloud.google.com/support/docs/reference/rest/v2/media/download
+ */
+export interface DownloadCaseAttachmentArgs extends CommonToolArgs {
+  name: string; // Full resource name of the attachment (required)
+  outputFilename?: string; // File name inside the download directory (defaults to attachment filename)
+  overwrite?: boolean; // Whether to overwrite an existing file (default false)
+}
+
 /**
  * Support case search argument type
  *
  * Compliant with Google Cloud Support API v2 official specifications.
  */
-export interface SearchSupportCasesArgs {
+export interface SearchSupportCasesArgs extends PaginationArgs {
   parent: string; // Project or organization resource name
-  query?: string; // Search query
+  query?: string; // Free text search query (displayName, description and comments)
   state?: 'OPEN' | 'CLOSED' | 'ALL'; // Case state
   priority?: CasePriority; // Priority
+  creatorEmail?: string; // Email address of the case creator
+  billingAccount?: string; // Billing account (billingAccounts/{id} or bare ID)
+  updatedAfter?: string; // Only cases updated after this time (RFC 3339)
+  updatedBefore?: string; // Only cases updated before this time (RFC 3339, applied client-side)
+  organization?: string; // Search scope: organizations/{organization_id}
+  project?: string; // Search scope: projects/{project_id}
+  clientSideFilter?: boolean; // Match query locally against displayName/description instead
   maxResults?: number; // Maximum number of results
 }
 
@@ -116,8 +189,39 @@ export interface SearchSupportCasesArgs {
  * Compliant with Google Cloud Support API v2 official specifications.
  * Reference: https://cloud.google.com/support/docs/reference/rest/v2/caseClassifications/search
  */
-export interface SearchCaseClassificationsArgs {
+export interface SearchCaseClassificationsArgs extends CommonToolArgs {
   query?: string; // Filter expression (e.g., 'displayName:"*Compute Engine*"')
   pageSize?: number; // Maximum number of results
   pageToken?: string; // Pagination token
 }
+
+/**
+ * Case timeline retrieval argument type
+ *
+ * Merges case details, comments and attachments into one chronological timeline.
+ */
+export interface GetCaseTimelineArgs extends CommonToolArgs {
+  name: string; // Full resource name of the case
+  maxItems?: number; // Maximum number of comments and of attachments to collect (maximum 1000)
+  maxBodyLength?: number; // Truncate comment bodies to this many characters (0 disables truncation)
+}
+
+/**
+ * Case feed retrieval argument type
+ *
+ * Uses the v2beta cases.showFeed method.
+ * Reference: https://cloud.google.com/support/docs/reference/rest/v2beta/cases/showFeed
+ */
+export interface ShowCaseFeedArgs extends PaginationArgs {
+  name: string; // Full resource name of the case
+  orderBy?: 'creation_time' | 'creation_time desc'; // Sort order (default: oldest first)
+  pageSize?: number; // Maximum number of feed items
+  pageToken?: string; // Pagination token
+}
+
+/**
+ * Authentication identity lookup argument type
+ *
+ * This tool takes only the common arguments.
+ */
+export type WhoamiArgs = CommonToolArgs;
@@ -9,10 +9,16 @@ import type {
   CreateSupportCaseArgs,
   UpdateSupportCaseArgs,
   CloseSupportCaseArgs,
+  EscalateSupportCaseArgs,
   CreateCaseCommentArgs,
   ListCaseAttachmentsArgs,
+  UploadCaseAttachmentArgs,
+  DownloadCaseAttachmentArgs,
   SearchSupportCasesArgs,
   SearchCaseClassificationsArgs,
+  GetCaseTimelineArgs,
+  ShowCaseFeedArgs,
+  WhoamiArgs,
 } from './mcp-types.js';
 
 /**
@@ -29,9 +35,15 @@ export interface ToolArgumentsMap {
   create_support_case: CreateSupportCaseArgs;
   update_support_case: UpdateSupportCaseArgs;
   close_support_case: CloseSupportCaseArgs;
+  escalate_support_case: EscalateSupportCaseArgs;
   create_case_comment: CreateCaseCommentArgs;
   list_case_attachments: ListCaseAttachmentsArgs;
+  upload_case_attachment: UploadCaseAttachmentArgs;
+  download_case_attachment: DownloadCaseAttachmentArgs;
   search_case_classifications: SearchCaseClassificationsArgs;
+  get_case_timeline: GetCaseTimelineArgs;
+  show_case_feed: ShowCaseFeedArgs;
+  whoami: WhoamiArgs;
 }
 
 /**
@@ -58,6 +70,7 @@ export interface ToolExecutionResult {
     type: 'text';
     text: string;
   }>;
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
@@ -94,6 +107,14 @@ export function isValidToolArgs<T extends SupportedToolName>(
 
   const args = value as Record<string, unknown>;
 
+  // Validate common fields (dryRun is only used by mutating tools)
+  if (args.quotaProject !== undefined && typeof args.quotaProject !== 'string') {
+    return false;
+  }
+  if (args.dryRun !== undefined && typeof args.dryRun !== 'boolean') {
+    return false;
+  }
+
   // Validate required fields for each tool
   switch (toolName) {
     case 'list_support_cases':
@@ -126,6 +147,13 @@ export function isValidToolArgs<T extends SupportedToolName>(
     case 'close_support_case':
       return typeof args.name === 'string';
 
+    case 'escalate_support_case': {
+      const validName = typeof args.name === 'string';
+      const validReason = typeof args.reason === 'string';
+      const validJustification = typeof args.justification === 'string';
+      return validName && validReason && validJustification;
+    }
+
     case 'create_case_comment': {
       const validParent = typeof args.parent === 'string';
       const validBody = typeof args.body === 'string';
@@ -135,9 +163,27 @@ export function isValidToolArgs<T extends SupportedToolName>(
     case 'list_case_attachments':
       return typeof args.parent === 'string';
 
+    case 'upload_case_attachment': {
+      const validParent = typeof args.parent === 'string';
+      const hasSource = typeof args.filePath === 'string' || typeof args.content === 'string';
+      return validParent && hasSource;
+    }
+
+    case 'download_case_attachment':
+      return typeof args.name === 'string';
+
     case 'search_case_classifications':
       return true; // This tool has no required fields
 
+    case 'get_case_timeline':
+      return typeof args.name === 'string';
+
+    case 'show_case_feed':
+      return typeof args.name === 'string';
+
+    case 'whoami':
+      return true; // This tool takes no arguments
+
     default:
       // TypeScript exhaustive check
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -167,6 +213,13 @@ export function validateToolArgs<T extends SupportedToolName>(
       // Generate more detailed error messages
       const argObj = args as Record<string, unknown>;
 
+      if (argObj.quotaProject !== undefined && typeof argObj.quotaProject !== 'string') {
+        errors.push('quotaProject must be a string');
+      }
+      if (argObj.dryRun !== undefined && typeof argObj.dryRun !== 'boolean') {
+        errors.push('dryRun must be a boolean');
+      }
+
       switch (toolName) {
         case 'list_support_cases':
         case 'search_support_cases':
@@ -178,8 +231,11 @@ export function validateToolArgs<T extends SupportedToolName>(
 
         case 'get_support_case':
         case 'get_case_comments':
+        case 'download_case_attachment':
         case 'update_support_case':
         case 'close_support_case':
+        case 'get_case_timeline':
+        case 'show_case_feed':
           if (typeof argObj.name !== 'string') {
             errors.push('name must be a string');
           }
@@ -196,10 +252,25 @@ export function validateToolArgs<T extends SupportedToolName>(
           }
           break;
 
+        case 'escalate_support_case':
+          if (typeof argObj.name !== 'string') errors.push('name must be a string');
+          if (typeof argObj.reason !== 'string') errors.push('reason must be a string');
+          if (typeof argObj.justification !== 'string') {
+            errors.push('justification must be a string');
+          }
+          break;
+
         case 'create_case_comment':
           if (typeof argObj.parent !== 'string') errors.push('parent must be a string');
           if (typeof argObj.body !== 'string') errors.push('body must be a string');
           break;
+
+        case 'upload_case_attachment':
+          if (typeof argObj.parent !== 'string') errors.push('parent must be a string');
+          if (typeof argObj.filePath !== 'string' && typeof argObj.content !== 'string') {
+            errors.push('either filePath or content must be a string');
+          }
+          break;
       }
     }
 
@@ -0,0 +1,257 @@
+/**
+ * MCP tool result type definitions
+ *
+ * Structured results returned by the tool handlers (structuredContent). They are
+ * derived from the API response types, with the fields the handlers reformat
+ * (e.g. missing values filled with empty strings) widened accordingly.
+ */
+
+import type { AttachmentData, CommentData, SupportCaseData } from './api-types.js';
+import type { CaseClassification, EscalationReason } from './common-types.js';
+import type {
+  ListCaseAttachmentsResponse,
+  SearchCaseClassificationsResponse,
+} from './api-response-types.js';
+
+/**
+ * Support case as returned by the case tools
+ * Missing state and priority are reported as empty strings
+ */
+export interface SupportCaseRecord
+  extends Omit<SupportCaseData, 'state' | 'priority' | 'classification'> {
+  state?: string;
+  priority?: string;
+  classification?: Partial<CaseClassification>;
+}
+
+/**
+ * Pagination fields of list results
+ */
+export interface PaginatedResult {
+  nextPageToken?: string; // Absent on the last page
+  truncated?: boolean; // Set when fetchAll is used
+}
+
+/**
+ * Case comment as returned by create_case_comment
+ */
+export type CaseCommentRecord = Pick<CommentData, 'name' | 'createTime' | 'creator' | 'body'>;
+
+/**
+ * list_support_cases result
+ */
+export interface ListSupportCasesResult extends PaginatedResult {
+  cases: SupportCaseRecord[];
+  totalCount: number;
+}
+
+/**
+ * get_support_case result
+ */
+export type GetSupportCaseResult = SupportCaseRecord;
+
+/**
+ * Comment summary returned by get_case_comments
+ */
+export interface CaseCommentSummary {
+  name: string;
+  createTime: string;
+  creator: string; // Display name or email of the creator
+  body: string;
+}
+
+/**
+ * get_case_comments result
+ */
+export interface GetCaseCommentsResult extends PaginatedResult {
+  caseName: string;
+  totalComments: number;
+  comments: CaseCommentSummary[];
+}
+
+/**
+ * Case summary returned by search_support_cases
+ */
+export interface SupportCaseSummary {
+  name: string;
+  displayName: string;
+  description: string; // Truncated to 200 characters
+  state: string;
+  priority: string;
+  createTime: string;
+  updateTime: string;
+  creator: string; // Display name or email of the creator
+  escalated: boolean;
+}
+
+/**
+ * Search criteria applied by search_support_cases
+ */
+export interface AppliedSearchFilters {
+  state: string;
+  priority?: string;
+  creatorEmail?: string;
+  billingAccount?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+  organization?: string;
+  project?: string;
+  clientSideFilter: boolean;
+}
+
+/**
+ * search_support_cases result
+ */
+export interface SearchSupportCasesResult extends PaginatedResult {
+  searchQuery?: string;
+  compiledQuery: string;
+  appliedFilters: AppliedSearchFilters;
+  totalFound: number;
+  cases: SupportCaseSummary[];
+}
+
+/**
+ * create_support_case, update_support_case and close_support_case result
+ */
+export interface SupportCaseMutationResult {
+  message: string;
+  case: SupportCaseRecord;
+}
+
+/**
+ * escalate_support_case result
+ */
+export interface EscalateSupportCaseResult {
+  message: string;
+  escalation: {
+    reason: EscalationReason;
+    justification: string;
+  };
+  case: Pick<
+    SupportCaseRecord,
+    'name' | 'displayName' | 'state' | 'priority' | 'createTime' | 'updateTime' | 'escalated'
+  >;
+}
+
+/**
+ * create_case_comment result
+ */
+export interface CreateCaseCommentResult {
+  message: string;
+  comment: CaseCommentRecord;
+}
+
+/**
+ * list_case_attachments result (API response, without the type brand)
+ */
+export interface ListCaseAttachmentsResult extends Omit<ListCaseAttachmentsResponse, '_brand'> {
+  readonly truncated?: boolean; // Set when fetchAll is used
+}
+
+/**
+ * upload_case_attachment result
+ */
+export interface UploadCaseAttachmentResult {
+  message: string;
+  attachment: AttachmentData;
+}
+
+/**
+ * download_case_attachment result
+ */
+export interface DownloadCaseAttachmentResult {
+  message: string;
+  filePath: string;
+  bytesWritten: number;
+  attachment: Omit<AttachmentData, 'creator'>;
+}
+
+/**
+ * search_case_classifications result (API response, without the type brand)
+ */
+export type SearchCaseClassificationsResult = Omit<SearchCaseClassificationsResponse, '_brand'>;
+
+/**
+ * Timeline event type
+ */
+export type TimelineEventType = 'created' | 'comment' | 'attachment' | 'state';
+
+/**
+ * Timeline event actor
+ * - customer: Comment or attachment added by the customer side
+ * - googleSupport: Comment or attachment added by Google Support
+ * - system: State marker derived from the case itself
+ */
+export type TimelineActor = 'customer' | 'googleSupport' | 'system';
+
+/**
+ * Timeline event
+ */
+export interface TimelineEvent {
+  time: string;
+  type: TimelineEventType;
+  actor: TimelineActor;
+  author?: string;
+  text: string;
+}
+
+/**
+ * get_case_timeline result
+ */
+export interface GetCaseTimelineResult {
+  caseName: string;
+  displayName: string;
+  state: string;
+  priority: string;
+  escalated: boolean;
+  totalComments: number;
+  totalAttachments: number;
+  truncated: boolean;
+  events: TimelineEvent[];
+}
+
+/**
+ * Case feed item type
+ */
+export type CaseFeedItemType = 'comment' | 'emailMessage' | 'attachment' | 'deletedAttachment';
+
+/**
+ * Case feed item
+ */
+export interface CaseFeedItem {
+  time: string;
+  type: CaseFeedItemType;
+  name: string;
+  actor: 'customer' | 'googleSupport';
+  author: string;
+  subject?: string; // Email messages only
+  body?: string; // Comments and email messages
+  recipients?: string[]; // Email messages only
+  filename?: string; // Attachments only
+}
+
+/**
+ * show_case_feed result
+ */
+export interface ShowCaseFeedResult extends PaginatedResult {
+  caseName: string;
+  totalItems: number;
+  items: CaseFeedItem[];
+}
+
+/**
+ * whoami result
+ */
+export interface WhoamiResult {
+  method: string;
+  principal: string;
+  quotaProject: string;
+  tokenExpiresAt?: string;
+  configuration: {
+    pinnedMethod?: string;
+    allowFallback: boolean;
+    gcloudConfiguration?: string;
+    gcloudAccount?: string;
+    impersonationDelegates?: readonly string[];
+  };
+}
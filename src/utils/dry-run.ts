@@ -0,0 +1,55 @@
+/**
+ * Dry-run mode for mutating tools
+ *
+ * Mutating tools accept a per-call dryRun argument. When it is omitted,
+ * CLOUD_SUPPORT_DRY_RUN decides (default: false). In dry-run mode a tool fully
+ * validates its arguments and returns the request it would send (method, URL,
+ * query parameters and body) instead of sending it.
+ */
+
+import type { ApiRequestPreview } from '../api/index.js';
+import { ConfigurationError } from '../types/errors.js';
+
+/**
+ * Dry-run result returned instead of the API response
+ */
+export interface DryRunResult {
+  readonly dryRun: true;
+  readonly message: string;
+  readonly request: ApiRequestPreview;
+}
+
+/**
+ * Resolve whether a call runs in dry-run mode
+ * @param requested Per-call dryRun argument (takes precedence)
+ * @param env Environment variables
+ * @returns true when the request must not be sent
+ * @throws {ConfigurationError} When CLOUD_SUPPORT_DRY_RUN is not a boolean
+ */
+export function isDryRun(requested?: boolean, env: NodeJS.ProcessEnv = process.env): boolean {
+  if (requested !== undefined) {
+    return requested;
+  }
+
+  const value = env.CLOUD_SUPPORT_DRY_RUN?.trim().toLowerCase();
+  if (!value || ['false', '0', 'no'].includes(value)) return false;
+  if (['true', '1', 'yes'].includes(value)) return true;
+  throw new ConfigurationError(
+    `Invalid boolean "${env.CLOUD_SUPPORT_DRY_RUN}" in CLOUD_SUPPORT_DRY_RUN. Expected true or false`,
+    'DRY_RUN_CONFIG_INVALID_BOOLEAN'
+  );
+}
+
+/**
+ * Build dry-run result
+ * @param operation Operation name (e.g. "closing support case")
+ * @param request Request that would be sent
+ * @returns Dry-run result
+ */
+export function buildDryRunResult(operation: string, request: ApiRequestPreview): DryRunResult {
+  return {
+    dryRun: true,
+    message: `Dry run: the request for ${operation} was validated but not sent. Call again with dryRun set to false to execute it.`,
+    request,
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Reconciliation of create operations
+ *
+ * Creating a case or a comment is not idempotent: a request that failed on the
+ * client side (e.g. timed out) may still have been applied by the server, and
+ * sending it again would create a duplicate. Each create therefore carries a
+ * client-generated marker, appended to the case description or comment body.
+ * After a failed attempt, the resources created within the creation window are
+ * searched for the marker before the request is sent again; when a match is
+ * found it is returned as the result instead.
+ */
+
+import { randomUUID } from 'node:crypto';
+
+/**
+ * Allowed difference between the local clock and the server clock
+ */
+export const CREATION_WINDOW_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * Creation window of one create call (from its first attempt on)
+ */
+export interface CreationWindow {
+  readonly startTime: number; // Epoch milliseconds of the first attempt
+}
+
+/**
+ * Generate a client-side idempotency marker
+ * @returns Marker appended to the created text (e.g. "[mcp-request-id: 0d7c...]")
+ */
+export function generateIdempotencyMarker(): string {
+  return `[mcp-request-id: ${randomUUID()}]`;
+}
+
+/**
+ * Append a marker to the text of a create request
+ * @param text Case description or comment body
+ * @param marker Idempotency marker
+ * @returns Text followed by the marker on its own paragraph
+ */
+export function appendIdempotencyMarker(text: string, marker: string): string {
+  return `${text}\n\n${marker}`;
+}
+
+/**
+ * Start the creation window of a create call
+ * @param now Current time (epoch milliseconds)
+ * @returns Creation window
+ */
+export function startCreationWindow(now: number = Date.now()): CreationWindow {
+  return { startTime: now };
+}
+
+/**
+ * Lower bound of the creation window as an RFC 3339 timestamp (clock skew included)
+ * @param window Creation window
+ * @returns Timestamp usable in update_time restrictions
+ */
+export function creationWindowStart(window: CreationWindow): string {
+  return new Date(window.startTime - CREATION_WINDOW_CLOCK_SKEW_MS).toISOString();
+}
+
+/**
+ * Find the resource created by an earlier attempt
+ * @param items Candidate resources
+ * @param marker Idempotency marker of the create call
+ * @param window Creation window of the create call
+ * @param getText Text that carries the marker (case description or comment body)
+ * @returns Matching resource, or undefined when no attempt was applied
+ */
+export function findMarkedResource<T extends { createTime?: string }>(
+  items: readonly T[],
+  marker: string,
+  window: CreationWindow,
+  getText: (item: T) => string | undefined
+): T | undefined {
+  const lowerBound = window.startTime - CREATION_WINDOW_CLOCK_SKEW_MS;
+  return items.find(
+    (item) =>
+      (getText(item) || '').includes(marker) &&
+      (!item.createTime || Date.parse(item.createTime) >= lowerBound)
+  );
+}
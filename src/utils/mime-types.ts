@@ -0,0 +1,50 @@
+/**
+ * MIME Type Detection
+ *
+ * Extension-based MIME type lookup for case attachments
+ */
+
+import { extname } from 'path';
+
+/**
+ * Fallback MIME type for unknown extensions
+ */
+export const DEFAULT_MIME_TYPE = 'application/octet-stream';
+
+/**
+ * Known file extensions and their MIME types
+ */
+const MIME_TYPES: Readonly<Record<string, string>> = {
+  '.txt': 'text/plain',
+  '.log': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.xml': 'application/xml',
+  '.json': 'application/json',
+  '.har': 'application/json',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.tgz': 'application/gzip',
+  '.tar': 'application/x-tar',
+  '.pcap': 'application/vnd.tcpdump.pcap',
+};
+
+/**
+ * Detect MIME type from file name
+ * @param filename File name or path
+ * @returns MIME type (application/octet-stream when unknown)
+ */
+export function detectMimeType(filename: string): string {
+  return MIME_TYPES[extname(filename).toLowerCase()] ?? DEFAULT_MIME_TYPE;
+}
@@ -30,6 +30,28 @@ export interface CircuitStats {
   lastFailureTime: number;
 }
 
+/**
+ * HTTP statuses of API errors that are retried (RESOURCE_EXHAUSTED, UNAVAILABLE)
+ */
+const RETRYABLE_HTTP_STATUSES: readonly number[] = [429, 503];
+
+/**
+ * Error that may carry a server-supplied retry delay (e.g. ApiError)
+ */
+interface ServerDelayedError {
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+}
+
+/**
+ * Get the retry delay requested by the server (RetryInfo or Retry-After)
+ */
+function getServerRetryDelay(error: unknown): number | undefined {
+  const retryAfterMs =
+    error instanceof Error ? (error as Error & ServerDelayedError).retryAfterMs : undefined;
+  return typeof retryAfterMs === 'number' && retryAfterMs >= 0 ? retryAfterMs : undefined;
+}
+
 /**
  * Determines if an error is retryable
  */
@@ -38,6 +60,12 @@ function isRetryableError(error: unknown): boolean {
     return error.metadata.retryable;
   }
 
+  // Rate limiting and temporary unavailability reported by the API
+  if (error instanceof Error && error.name === 'ApiError') {
+    const { status } = error as Error & ServerDelayedError;
+    return status !== undefined && RETRYABLE_HTTP_STATUSES.includes(status);
+  }
+
   // Network-related errors are generally retryable
   if (
     error instanceof Error &&
@@ -89,6 +117,29 @@ export const AGGRESSIVE_RETRY_CONFIG: RetryConfig = {
   retryableErrors: isRetryableError,
 };
 
+/**
+ * Single-attempt configuration (for operations that must not be repeated)
+ */
+export const NO_RETRY_CONFIG: RetryConfig = {
+  ...DEFAULT_RETRY_CONFIG,
+  maxAttempts: 1,
+};
+
+/**
+ * Named retry profile
+ */
+export type RetryProfile = 'none' | 'light' | 'default' | 'aggressive';
+
+/**
+ * Retry configuration by profile
+ */
+export const RETRY_PROFILES: Readonly<Record<RetryProfile, RetryConfig>> = {
+  none: NO_RETRY_CONFIG,
+  light: LIGHT_RETRY_CONFIG,
+  default: DEFAULT_RETRY_CONFIG,
+  aggressive: AGGRESSIVE_RETRY_CONFIG,
+};
+
 /**
  * Retry mechanism
  */
@@ -138,11 +189,12 @@ export class RetryMechanism {
         }
 
         // Calculate wait time
-        const delay = this.calculateDelay(attempt, config);
+        const delay = this.calculateDelay(attempt, config, error);
         logger.debug(`Waiting before retry: ${operationName}`, {
           delay,
           attempt,
           operationName,
+          serverDelay: getServerRetryDelay(error),
         });
 
         await this.sleep(delay);
@@ -159,8 +211,14 @@ export class RetryMechanism {
 
   /**
    * Calculate delay time (exponential backoff + jitter)
+   * A delay requested by the server (RetryInfo or Retry-After) is used instead, capped at maxDelay
    */
-  private static calculateDelay(attempt: number, config: RetryConfig): number {
+  private static calculateDelay(attempt: number, config: RetryConfig, error?: unknown): number {
+    const serverDelay = getServerRetryDelay(error);
+    if (serverDelay !== undefined) {
+      return Math.min(serverDelay, config.maxDelay);
+    }
+
     const exponentialDelay = Math.min(
       config.initialDelay * Math.pow(config.backoffFactor, attempt - 1),
       config.maxDelay
@@ -189,20 +247,30 @@ export class RetryMechanism {
 export class TimeoutManager {
   /**
    * Execute operation with timeout
+   * The signal passed to the operation is aborted when it times out, so operations
+   * that honor it (e.g. downloads) stop instead of running on in the background
    */
   static async execute<T>(
-    operation: () => Promise<T>,
+    operation: (signal: AbortSignal) => Promise<T>,
     timeoutMs: number,
     operationName: string
   ): Promise<T> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
     const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => {
-        reject(new TimeoutError(`Operation timed out: ${operationName}`, timeoutMs, 'TIMEOUT_001'));
+      timer = setTimeout(() => {
+        const error = new TimeoutError(
+          `Operation timed out: ${operationName}`,
+          timeoutMs,
+          'TIMEOUT_001'
+        );
+        controller.abort(error);
+        reject(error);
       }, timeoutMs);
     });
 
     try {
-      const result = await Promise.race([operation(), timeoutPromise]);
+      const result = await Promise.race([operation(controller.signal), timeoutPromise]);
       return result;
     } catch (error) {
       if (error instanceof TimeoutError) {
@@ -212,6 +280,8 @@ export class TimeoutManager {
         });
       }
       throw error;
+    } finally {
+      clearTimeout(timer);
     }
   }
 }
@@ -382,7 +452,7 @@ export class RobustExecutor {
    * Robust execution
    */
   async execute<T>(
-    operation: () => Promise<T>,
+    operation: (signal: AbortSignal) => Promise<T>,
     config: {
       operationName: string;
       timeoutMs?: number;
@@ -6,8 +6,8 @@ import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import type { SupportedToolName, ToolArgsFor, ToolArgumentsMap } from '../types/tool-dispatcher.js';
 import { validateToolArgs, ToolValidationError } from '../types/tool-dispatcher.js';
 
+import { runWithRequestContext, type RequestContext } from '../api/index.js';
 import { logger } from './logger.js';
-import { RobustExecutor } from './retry.js';
 
 // Handler imports
 import type {
@@ -18,9 +18,15 @@ import type {
   SearchSupportCasesHandler,
   UpdateSupportCaseHandler,
   CloseSupportCaseHandler,
+  EscalateSupportCaseHandler,
   CreateCaseCommentHandler,
   ListCaseAttachmentsHandler,
+  UploadCaseAttachmentHandler,
+  DownloadCaseAttachmentHandler,
   SearchCaseClassificationsHandler,
+  GetCaseTimelineHandler,
+  ShowCaseFeedHandler,
+  WhoamiHandler,
 } from '../handlers/index.js';
 
 /**
@@ -36,9 +42,15 @@ export interface ToolHandlerMap {
   create_support_case: CreateSupportCaseHandler;
   update_support_case: UpdateSupportCaseHandler;
   close_support_case: CloseSupportCaseHandler;
+  escalate_support_case: EscalateSupportCaseHandler;
   create_case_comment: CreateCaseCommentHandler;
   list_case_attachments: ListCaseAttachmentsHandler;
+  upload_case_attachment: UploadCaseAttachmentHandler;
+  download_case_attachment: DownloadCaseAttachmentHandler;
   search_case_classifications: SearchCaseClassificationsHandler;
+  get_case_timeline: GetCaseTimelineHandler;
+  show_case_feed: ShowCaseFeedHandler;
+  whoami: WhoamiHandler;
 }
 
 /**
@@ -49,20 +61,25 @@ interface HandlerResult {
     type: string;
     text: string;
   }>;
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
+/**
+ * Check that runs after argument validation and before the handler (e.g. human confirmation)
+ * Returns the result to send instead of running the tool, or undefined to run it
+ */
+export type ToolCallGuard<T extends SupportedToolName = SupportedToolName> = (
+  args: ToolArgsFor<T>
+) => Promise<CallToolResult | undefined>;
+
 /**
  * Type-safe tool dispatcher class
  *
  * Manages all tool execution type-safely and provides runtime type validation.
  */
 export class TypeSafeToolDispatcher {
-  private readonly robustExecutor: RobustExecutor;
-
-  constructor(private readonly handlers: ToolHandlerMap) {
-    this.robustExecutor = new RobustExecutor();
-  }
+  constructor(private readonly handlers: ToolHandlerMap) {}
 
   /**
    * Type-safe tool execution
@@ -70,13 +87,17 @@ export class TypeSafeToolDispatcher {
    * @template T Tool name type
    * @param toolName Tool name to execute
    * @param args Tool arguments (received as unknown type, validated at runtime)
+   * @param context Request settings of the transport (e.g. caller token in HTTP passthrough mode)
+   * @param guard Check run on the validated arguments before the handler
    * @returns Tool execution result
    * @throws {ToolValidationError} When argument type is invalid
    *
    */
   async executeToolSafely<T extends SupportedToolName>(
     toolName: T,
-    args: unknown
+    args: unknown,
+    context: RequestContext = {},
+    guard?: ToolCallGuard<T>
   ): Promise<CallToolResult> {
     const correlationId = crypto.randomUUID();
 
@@ -87,21 +108,26 @@ export class TypeSafeToolDispatcher {
     });
 
     try {
-      // Step 1: Validate argument type safety
-      const validatedArgs = validateToolArgs(toolName, args);
+      // Step 1: Validate argument type safety (clients may omit arguments for tools without required fields)
+      const validatedArgs = validateToolArgs(toolName, args ?? {});
 
       logger.debug(`Tool arguments validated: ${toolName}`, {
         toolName,
         correlationId,
       });
 
-      // Step 2: Call handler with robust execution
-      const result = await this.robustExecutor.execute(
-        async () => this.dispatchToHandler(toolName, validatedArgs),
-        {
-          operationName: `tool-execution-${toolName}`,
-          timeoutMs: 30000, // 30 second timeout
-        }
+      // Step 2: Run the guard, so malformed calls are rejected before it reads or asks anything
+      const guardResult = await guard?.(validatedArgs);
+      if (guardResult) {
+        return guardResult;
+      }
+
+      // Step 3: Call handler once (per-call quota project applies to all API requests)
+      // Retry and timeout follow each handler's configuration, so a call that is not safe
+      // to repeat (e.g. escalating a case) is never sent again from here
+      const { quotaProject } = validatedArgs as { quotaProject?: string };
+      const result = await runWithRequestContext({ ...context, quotaProject }, () =>
+        this.dispatchToHandler(toolName, validatedArgs)
       );
 
       logger.info(`Tool execution completed: ${toolName}`, {
@@ -110,7 +136,7 @@ export class TypeSafeToolDispatcher {
         success: true,
       });
 
-      // Step 3: Convert from existing handler format to MCP format
+      // Step 4: Convert from existing handler format to MCP format
       return this.convertToCallToolResult(result);
     } catch (error) {
       logger.error(`Tool execution failed: ${toolName}`, error, {
@@ -177,6 +203,11 @@ export class TypeSafeToolDispatcher {
           args as ToolArgumentsMap['close_support_case']
         );
 
+      case 'escalate_support_case':
+        return await this.handlers['escalate_support_case'].handle(
+          args as ToolArgumentsMap['escalate_support_case']
+        );
+
       case 'create_case_comment':
         return await this.handlers['create_case_comment'].handle(
           args as ToolArgumentsMap['create_case_comment']
@@ -187,11 +218,34 @@ export class TypeSafeToolDispatcher {
           args as ToolArgumentsMap['list_case_attachments']
         );
 
+      case 'upload_case_attachment':
+        return await this.handlers['upload_case_attachment'].handle(
+          args as ToolArgumentsMap['upload_case_attachment']
+        );
+
+      case 'download_case_attachment':
+        return await this.handlers['download_case_attachment'].handle(
+          args as ToolArgumentsMap['download_case_attachment']
+        );
+
       case 'search_case_classifications':
         return await this.handlers['search_case_classifications'].handle(
           args as ToolArgumentsMap['search_case_classifications']
         );
 
+      case 'get_case_timeline':
+        return await this.handlers['get_case_timeline'].handle(
+          args as ToolArgumentsMap['get_case_timeline']
+        );
+
+      case 'show_case_feed':
+        return await this.handlers['show_case_feed'].handle(
+          args as ToolArgumentsMap['show_case_feed']
+        );
+
+      case 'whoami':
+        return await this.handlers['whoami'].handle();
+
       default:
         // TypeScript exhaustive check
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -212,6 +266,7 @@ export class TypeSafeToolDispatcher {
         type: 'text' as const,
         text: item.text,
       })),
+      ...(result.structuredContent && { structuredContent: result.structuredContent }),
       isError: result.isError,
     };
   }
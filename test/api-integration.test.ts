@@ -6,7 +6,7 @@
  */
 
 import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
-import { setupCommonMocks } from './test-fixtures.js';
+import { setupCommonMocks, mockAuthHeaders, mockSuccessfulFetch } from './test-fixtures.js';
 
 describe('API Client Integration', () => {
   beforeEach(async () => {
@@ -87,3 +87,94 @@ describe('API Client Integration', () => {
     expect(result.status).toBe(201);
   });
 });
+
+describe('API Client Pagination', () => {
+  beforeEach(async () => {
+    await vi.resetModules();
+    vi.clearAllMocks();
+    setupCommonMocks();
+    mockAuthHeaders();
+  });
+
+  afterEach(() => {
+    vi.doUnmock('../src/api/auth.js');
+    vi.restoreAllMocks();
+  });
+
+  test('follows nextPageToken until all pages are fetched', async () => {
+    mockSuccessfulFetch({ cases: [{ name: 'case-1' }], nextPageToken: 'page-2' });
+    mockSuccessfulFetch({ cases: [{ name: 'case-2' }], nextPageToken: 'page-3' });
+    mockSuccessfulFetch({ cases: [{ name: 'case-3' }] });
+
+    const { apiClient } = await import('../src/api/index.js');
+    const result = await apiClient.fetchAll('/v2/projects/example-project/cases', 'cases', {
+      pageSize: 100,
+    });
+
+    expect(result.items).toHaveLength(3);
+    expect(result.truncated).toBe(false);
+    expect(result.pagesFetched).toBe(3);
+    expect((global.fetch as any).mock.calls[2][0]).toContain('pageToken=page-3');
+  });
+
+  test('stops at maxItems and marks the result as truncated', async () => {
+    mockSuccessfulFetch({ cases: [{ name: 'case-1' }, { name: 'case-2' }], nextPageToken: 'p2' });
+    mockSuccessfulFetch({ cases: [{ name: 'case-3' }, { name: 'case-4' }], nextPageToken: 'p3' });
+
+    const { apiClient } = await import('../src/api/index.js');
+    const result = await apiClient.fetchAll(
+      '/v2/projects/example-project/cases',
+      'cases',
+      {},
+      { maxItems: 3 }
+    );
+
+    expect(result.items).toHaveLength(3);
+    expect(result.truncated).toBe(true);
+    expect(result.nextPageToken).toBeUndefined();
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  test('stops after the hard page limit', async () => {
+    const { apiClient, MAX_PAGINATED_PAGES } = await import('../src/api/index.js');
+    global.fetch = vi.fn().mockImplementation(async () => ({
+      ok: true,
+      status: 200,
+      json: async () => ({ cases: [], nextPageToken: 'more' }),
+    }));
+
+    const result = await apiClient.fetchAll('/v2/projects/example-project/cases', 'cases');
+
+    expect(result.truncated).toBe(true);
+    expect(result.nextPageToken).toBe('more');
+    expect(global.fetch).toHaveBeenCalledTimes(MAX_PAGINATED_PAGES);
+  });
+});
+
+describe('Search Query Compiler', () => {
+  test('compiles structured criteria into cases:search query syntax', async () => {
+    const { compileCaseSearchQuery } = await import('../src/api/query-compiler.js');
+
+    const query = compileCaseSearchQuery({
+      project: 'projects/example-project',
+      state: 'OPEN',
+      priorities: ['P1', 'P2'],
+      creatorEmail: 'oncall@example.com',
+      updatedAfter: '2024-01-01T00:00:00Z',
+      text: 'disk "full"',
+    });
+
+    expect(query).toBe(
+      'project="projects/example-project" AND state=OPEN AND (priority=P1 OR priority=P2) AND ' +
+        'creator.email="oncall@example.com" AND update_time>"2024-01-01T00:00:00Z" AND "disk \\"full\\""'
+    );
+  });
+
+  test('omits state restriction for ALL', async () => {
+    const { compileCaseSearchQuery } = await import('../src/api/query-compiler.js');
+
+    expect(compileCaseSearchQuery({ organization: 'organizations/123', state: 'ALL' })).toBe(
+      'organization="organizations/123"'
+    );
+  });
+});
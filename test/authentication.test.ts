@@ -5,7 +5,12 @@
  * Focus: Our auth integration, not Google's auth implementation
  */
 
-import { describe, test, expect } from 'vitest';
+import { describe, test, expect, vi, beforeEach, afterEach, beforeAll, afterAll } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 describe('Authentication Integration', () => {
   test('provides working authentication context', async () => {
@@ -22,3 +27,477 @@ describe('Authentication Integration', () => {
     expect(headers['Content-Type']).toBe('application/json');
   });
 });
+
+describe('Credential Cache', () => {
+  test('reuses cached value until the refresh margin is reached', async () => {
+    const { CredentialCache } = await import('../src/api/credential-cache.js');
+    let now = 0;
+    const loader = vi.fn().mockImplementation(async () => ({
+      value: `token-${loader.mock.calls.length}`,
+      expiresAt: now + 10_000,
+    }));
+    const cache = new CredentialCache('test-token', loader, 2_000, () => now);
+
+    expect(await cache.get()).toBe('token-1');
+    now = 5_000;
+    expect(await cache.get()).toBe('token-1');
+    expect(loader).toHaveBeenCalledTimes(1);
+
+    // Within the refresh margin: current value is served while refreshing in the background
+    now = 9_000;
+    expect(await cache.get()).toBe('token-1');
+    await Promise.resolve();
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(await cache.get()).toBe('token-2');
+  });
+
+  test('deduplicates concurrent refreshes', async () => {
+    const { CredentialCache } = await import('../src/api/credential-cache.js');
+    const loader = vi
+      .fn()
+      .mockImplementation(
+        () =>
+          new Promise((resolve) =>
+            setTimeout(() => resolve({ value: 'token', expiresAt: Date.now() + 60_000 }), 10)
+          )
+      );
+    const cache = new CredentialCache('test-token', loader, 0);
+
+    const results = await Promise.all(Array.from({ length: 20 }, () => cache.get()));
+
+    expect(results.every((token) => token === 'token')).toBe(true);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  test('loads again after invalidation or failure', async () => {
+    const { CredentialCache } = await import('../src/api/credential-cache.js');
+    const loader = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('gcloud not found'))
+      .mockResolvedValue({ value: 'token', expiresAt: Infinity });
+    const cache = new CredentialCache('test-token', loader);
+
+    await expect(cache.get()).rejects.toThrow('gcloud not found');
+    expect(await cache.get()).toBe('token');
+
+    cache.invalidate();
+    expect(await cache.get()).toBe('token');
+    expect(loader).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('Auth Configuration', () => {
+  const envKeys = [
+    'CLOUD_SUPPORT_CONFIG',
+    'CLOUD_SUPPORT_AUTH_METHOD',
+    'CLOUD_SUPPORT_AUTH_FALLBACK',
+    'CLOUD_SUPPORT_GCLOUD_CONFIGURATION',
+    'CLOUD_SUPPORT_GCLOUD_ACCOUNT',
+    'CLOUD_SUPPORT_IMPERSONATE_SERVICE_ACCOUNT',
+    'CLOUD_SUPPORT_IMPERSONATION_DELEGATES',
+  ];
+  const savedEnv: Record<string, string | undefined> = {};
+
+  beforeEach(async () => {
+    for (const key of envKeys) {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+    const { resetAuthConfig } = await import('../src/api/auth-config.js');
+    resetAuthConfig();
+  });
+
+  afterEach(async () => {
+    for (const key of envKeys) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+    const { resetAuthConfig } = await import('../src/api/auth-config.js');
+    resetAuthConfig();
+  });
+
+  test('tries all methods in default order when nothing is pinned', async () => {
+    const { getAuthMethodOrder, DEFAULT_AUTH_METHOD_ORDER } = await import(
+      '../src/api/auth-config.js'
+    );
+
+    expect(getAuthMethodOrder()).toEqual(DEFAULT_AUTH_METHOD_ORDER);
+  });
+
+  test('puts the pinned method first and honors disabled fallback', async () => {
+    const {
+      getAuthMethodOrder,
+      loadAuthConfig,
+      resetAuthConfig,
+      AuthMethod,
+      DEFAULT_AUTH_METHOD_ORDER,
+    } = await import('../src/api/auth-config.js');
+    process.env.CLOUD_SUPPORT_AUTH_METHOD = 'application-default';
+
+    expect(getAuthMethodOrder()[0]).toBe(AuthMethod.APPLICATION_DEFAULT);
+    expect(getAuthMethodOrder()).toHaveLength(DEFAULT_AUTH_METHOD_ORDER.length);
+
+    process.env.CLOUD_SUPPORT_AUTH_FALLBACK = 'false';
+    resetAuthConfig();
+
+    expect(loadAuthConfig().allowFallback).toBe(false);
+    expect(getAuthMethodOrder()).toEqual([AuthMethod.APPLICATION_DEFAULT]);
+  });
+
+  test('reads the config file and lets environment variables override it', async () => {
+    const { loadAuthConfig } = await import('../src/api/auth-config.js');
+    const directory = await mkdtemp(join(tmpdir(), 'auth-config-'));
+    const configPath = join(directory, 'config.json');
+    await writeFile(
+      configPath,
+      JSON.stringify({
+        auth: { method: 'gcloud-cli', gcloudConfiguration: 'work', gcloudAccount: 'a@example.com' },
+      })
+    );
+    process.env.CLOUD_SUPPORT_CONFIG = configPath;
+    process.env.CLOUD_SUPPORT_GCLOUD_ACCOUNT = 'b@example.com';
+
+    try {
+      expect(loadAuthConfig()).toEqual({
+        method: 'gcloud-cli',
+        allowFallback: true,
+        gcloudConfiguration: 'work',
+        gcloudAccount: 'b@example.com',
+        impersonationDelegates: [],
+      });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  test('tries impersonation first when a target service account is configured', async () => {
+    const { getAuthMethodOrder, loadAuthConfig, resetAuthConfig, AuthMethod } = await import(
+      '../src/api/auth-config.js'
+    );
+    process.env.CLOUD_SUPPORT_IMPERSONATE_SERVICE_ACCOUNT =
+      'support-bot@example-project.iam.gserviceaccount.com';
+    process.env.CLOUD_SUPPORT_IMPERSONATION_DELEGATES =
+      'hop-1@example-project.iam.gserviceaccount.com, hop-2@example-project.iam.gserviceaccount.com';
+
+    expect(getAuthMethodOrder()[0]).toBe(AuthMethod.IMPERSONATION);
+    expect(loadAuthConfig().impersonationDelegates).toEqual([
+      'hop-1@example-project.iam.gserviceaccount.com',
+      'hop-2@example-project.iam.gserviceaccount.com',
+    ]);
+
+    delete process.env.CLOUD_SUPPORT_IMPERSONATE_SERVICE_ACCOUNT;
+    delete process.env.CLOUD_SUPPORT_IMPERSONATION_DELEGATES;
+    process.env.CLOUD_SUPPORT_AUTH_METHOD = 'impersonation';
+    resetAuthConfig();
+
+    expect(() => loadAuthConfig()).toThrow('requires CLOUD_SUPPORT_IMPERSONATE_SERVICE_ACCOUNT');
+  });
+
+  test('rejects invalid settings with a configuration error', async () => {
+    const { loadAuthConfig, resetAuthConfig } = await import('../src/api/auth-config.js');
+    const { ConfigurationError } = await import('../src/types/errors.js');
+
+    process.env.CLOUD_SUPPORT_AUTH_METHOD = 'password';
+    expect(() => loadAuthConfig()).toThrow(ConfigurationError);
+
+    delete process.env.CLOUD_SUPPORT_AUTH_METHOD;
+    process.env.CLOUD_SUPPORT_GCLOUD_CONFIGURATION = 'work; rm -rf /';
+    resetAuthConfig();
+    expect(() => loadAuthConfig()).toThrow(ConfigurationError);
+  });
+});
+
+describe('Service Account Impersonation', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('exchanges the source token through generateAccessToken with a delegation chain', async () => {
+    const { generateImpersonatedAccessToken } = await import('../src/api/impersonation.js');
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: vi.fn().mockResolvedValue({
+        accessToken: 'impersonated-token',
+        expireTime: '2030-01-01T00:00:00Z',
+      }),
+    });
+
+    const result = await generateImpersonatedAccessToken('source-token', {
+      targetServiceAccount: 'support-bot@example-project.iam.gserviceaccount.com',
+      delegates: ['hop@example-project.iam.gserviceaccount.com'],
+    });
+
+    expect(result).toEqual({
+      token: 'impersonated-token',
+      expiresAt: Date.parse('2030-01-01T00:00:00Z'),
+    });
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://iamcredentials.googleapis.com/v1/projects/-/serviceAccounts/support-bot@example-project.iam.gserviceaccount.com:generateAccessToken',
+      expect.objectContaining({
+        method: 'POST',
+        headers: expect.objectContaining({ Authorization: 'Bearer source-token' }),
+        body: JSON.stringify({
+          delegates: ['projects/-/serviceAccounts/hop@example-project.iam.gserviceaccount.com'],
+          scope: ['https://www.googleapis.com/auth/cloud-platform'],
+          lifetime: '3600s',
+        }),
+      })
+    );
+  });
+
+  test('reports permission errors from the IAM Credentials API', async () => {
+    const { generateImpersonatedAccessToken } = await import('../src/api/impersonation.js');
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: false,
+      status: 403,
+      statusText: 'Forbidden',
+      text: vi.fn().mockResolvedValue('iam.serviceAccounts.getAccessToken denied'),
+    });
+
+    await expect(
+      generateImpersonatedAccessToken('source-token', {
+        targetServiceAccount: 'support-bot@example-project.iam.gserviceaccount.com',
+      })
+    ).rejects.toThrow('HTTP 403: Forbidden - iam.serviceAccounts.getAccessToken denied');
+  });
+});
+
+describe('External Account Credentials', () => {
+  const envKeys = [
+    'CLOUD_SUPPORT_AUTH_METHOD',
+    'CLOUD_SUPPORT_AUTH_FALLBACK',
+    'CLOUD_SUPPORT_EXTERNAL_ACCOUNT_CREDENTIALS',
+    'CLOUD_SUPPORT_QUOTA_PROJECT',
+    'CLOUD_SUPPORT_IMPERSONATE_SERVICE_ACCOUNT',
+  ];
+  const savedEnv: Record<string, string | undefined> = {};
+  const stsRequests: URLSearchParams[] = [];
+  let server: Server;
+  let directory: string;
+  let credentialsPath: string;
+
+  beforeAll(async () => {
+    // Fake STS endpoint implementing the OAuth 2.0 token exchange
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        stsRequests.push(new URLSearchParams(body));
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(
+          JSON.stringify({
+            access_token: 'federated-access-token',
+            issued_token_type: 'urn:ietf:params:oauth:token-type:access_token',
+            token_type: 'Bearer',
+            expires_in: 3600,
+          })
+        );
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    directory = await mkdtemp(join(tmpdir(), 'external-account-'));
+    const subjectTokenPath = join(directory, 'oidc-token');
+    await writeFile(subjectTokenPath, 'oidc-subject-token');
+    credentialsPath = join(directory, 'credentials.json');
+    await writeFile(
+      credentialsPath,
+      JSON.stringify({
+        type: 'external_account',
+        audience:
+          '//iam.googleapis.com/projects/123456/locations/global/workloadIdentityPools/ci/providers/github',
+        subject_token_type: 'urn:ietf:params:oauth:token-type:jwt',
+        token_url: `http://127.0.0.1:${port}/v1/token`,
+        credential_source: { file: subjectTokenPath },
+        quota_project_id: 'federated-project',
+      })
+    );
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    stsRequests.length = 0;
+    for (const key of envKeys) {
+      savedEnv[key] = process.env[key];
+      delete process.env[key];
+    }
+    const { resetAuthConfig } = await import('../src/api/auth-config.js');
+    const { clearCredentialCache } = await import('../src/api/auth.js');
+    resetAuthConfig();
+    clearCredentialCache();
+  });
+
+  afterEach(async () => {
+    for (const key of envKeys) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+    const { resetAuthConfig } = await import('../src/api/auth-config.js');
+    const { clearCredentialCache } = await import('../src/api/auth.js');
+    resetAuthConfig();
+    clearCredentialCache();
+  });
+
+  test('exchanges the file-sourced subject token at the STS endpoint', async () => {
+    const { readExternalAccountCredentials, getExternalAccountAccessToken } = await import(
+      '../src/api/external-account.js'
+    );
+
+    const credentials = await readExternalAccountCredentials(credentialsPath);
+    const result = await getExternalAccountAccessToken(credentials);
+
+    expect(result.token).toBe('federated-access-token');
+    expect(result.expiresAt).toBeGreaterThan(Date.now());
+    expect(stsRequests).toHaveLength(1);
+    expect(stsRequests[0].get('grant_type')).toBe(
+      'urn:ietf:params:oauth:grant-type:token-exchange'
+    );
+    expect(stsRequests[0].get('subject_token')).toBe('oidc-subject-token');
+    expect(stsRequests[0].get('audience')).toBe(credentials.audience);
+  });
+
+  test('authenticates with the external-account method and its quota project', async () => {
+    const { getAccessTokenWithMethod, getCurrentProjectId, clearCredentialCache } = await import(
+      '../src/api/auth.js'
+    );
+    const { resetAuthConfig } = await import('../src/api/auth-config.js');
+    process.env.CLOUD_SUPPORT_AUTH_METHOD = 'external-account';
+    process.env.CLOUD_SUPPORT_AUTH_FALLBACK = 'false';
+    process.env.CLOUD_SUPPORT_EXTERNAL_ACCOUNT_CREDENTIALS = credentialsPath;
+
+    expect(await getAccessTokenWithMethod()).toEqual({
+      accessToken: 'federated-access-token',
+      method: 'external-account',
+    });
+    expect(await getCurrentProjectId()).toBe('federated-project');
+
+    process.env.CLOUD_SUPPORT_QUOTA_PROJECT = 'billing-project';
+    resetAuthConfig();
+    clearCredentialCache();
+
+    expect(await getCurrentProjectId()).toBe('billing-project');
+  });
+
+  test('rejects files that are not external account configurations', async () => {
+    const { readExternalAccountCredentials } = await import('../src/api/external-account.js');
+    const keyPath = join(directory, 'key.json');
+    await writeFile(keyPath, JSON.stringify({ type: 'service_account', project_id: 'p' }));
+
+    await expect(readExternalAccountCredentials(keyPath)).rejects.toThrow(
+      'is not an external_account credential configuration'
+    );
+  });
+});
+
+describe('Quota Project', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(async () => {
+    global.fetch = vi.fn();
+    const { clearVerifiedQuotaProjects } = await import('../src/api/quota-project.js');
+    clearVerifiedQuotaProjects();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('verifies serviceusage.services.use once per project', async () => {
+    const { verifyQuotaProject } = await import('../src/api/quota-project.js');
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: vi.fn().mockResolvedValue({ permissions: ['serviceusage.services.use'] }),
+    });
+
+    await verifyQuotaProject('billing-project', 'token');
+    await verifyQuotaProject('billing-project', 'token');
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://cloudresourcemanager.googleapis.com/v1/projects/billing-project:testIamPermissions',
+      expect.objectContaining({
+        method: 'POST',
+        body: JSON.stringify({ permissions: ['serviceusage.services.use'] }),
+      })
+    );
+  });
+
+  test('raises a configuration error when the permission is missing', async () => {
+    const { verifyQuotaProject } = await import('../src/api/quota-project.js');
+    const { ConfigurationError } = await import('../src/types/errors.js');
+    (global.fetch as any).mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: vi.fn().mockResolvedValue({}),
+    });
+
+    const error = await verifyQuotaProject('billing-project', 'token').catch((e) => e);
+
+    expect(error).toBeInstanceOf(ConfigurationError);
+    expect(error.message).toContain('Missing permission serviceusage.services.use');
+    expect(error.metadata.code).toBe('QUOTA_PROJECT_PERMISSION_DENIED');
+  });
+
+  test('rejects inaccessible and malformed projects', async () => {
+    const { verifyQuotaProject } = await import('../src/api/quota-project.js');
+    (global.fetch as any).mockResolvedValueOnce({ ok: false, status: 403 });
+
+    await expect(verifyQuotaProject('other-project', 'token')).rejects.toThrow(
+      'does not exist or is not accessible'
+    );
+    await expect(verifyQuotaProject('Bad Project!', 'token')).rejects.toThrow(
+      'Invalid quota project'
+    );
+  });
+
+  test('uses the caller token of the request context for API headers', async () => {
+    const { runWithRequestContext } = await import('../src/api/request-context.js');
+    const { getAuthHeaders } = await import('../src/api/auth.js');
+    (global.fetch as any).mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: vi.fn().mockResolvedValue({ permissions: ['serviceusage.services.use'] }),
+    });
+
+    const headers = await runWithRequestContext(
+      { accessToken: 'caller-token', quotaProject: 'billing-project' },
+      () => getAuthHeaders()
+    );
+
+    expect(headers.Authorization).toBe('Bearer caller-token');
+    expect(headers['X-Goog-User-Project']).toBe('billing-project');
+    expect(global.fetch).toHaveBeenCalledWith(
+      expect.stringContaining('billing-project:testIamPermissions'),
+      expect.objectContaining({
+        headers: expect.objectContaining({ Authorization: 'Bearer caller-token' }),
+      })
+    );
+  });
+
+  test('exposes the per-call quota project through the request context', async () => {
+    const { runWithRequestContext, getRequestContext } = await import(
+      '../src/api/request-context.js'
+    );
+
+    const inside = await runWithRequestContext({ quotaProject: 'billing-project' }, async () => {
+      await Promise.resolve();
+      return getRequestContext().quotaProject;
+    });
+
+    expect(inside).toBe('billing-project');
+    expect(getRequestContext().quotaProject).toBeUndefined();
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * HTTP Transport Tests
+ *
+ * Tests transport selection and the HTTP session server using real MCP clients
+ * over Streamable HTTP and legacy SSE
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { request, type IncomingMessage } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { HttpTransportServer } from '../src/transport/http-server.js';
+import { CallerAuthenticator } from '../src/transport/caller-auth.js';
+import { resolveTransportConfig } from '../src/transport/transport-config.js';
+
+/**
+ * Minimal MCP server exposing a single tool
+ */
+function createTestServer(): Server {
+  const server = new Server(
+    { name: 'test-server', version: '0.0.0' },
+    { capabilities: { tools: {} } }
+  );
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'ping', description: 'Ping', inputSchema: { type: 'object', properties: {} } }],
+  }));
+  // Echoes the caller token seen by request handlers
+  server.setRequestHandler(CallToolRequestSchema, async (_request, extra) => ({
+    content: [{ type: 'text', text: extra.authInfo?.token ?? 'none' }],
+  }));
+  return server;
+}
+
+describe('Transport Configuration', () => {
+  test('defaults to stdio on loopback', () => {
+    expect(resolveTransportConfig([], {})).toEqual({
+      mode: 'stdio',
+      host: '127.0.0.1',
+      port: 3000,
+      sessionIdleTimeoutMs: 30 * 60 * 1000,
+      authMode: 'server',
+      tokenExchange: undefined,
+      mock: false,
+    });
+  });
+
+  test('CLI flags take precedence over environment variables', () => {
+    const config = resolveTransportConfig(['--transport=http', '--port', '8080'], {
+      CLOUD_SUPPORT_TRANSPORT: 'stdio',
+      CLOUD_SUPPORT_HTTP_HOST: '0.0.0.0',
+      CLOUD_SUPPORT_HTTP_PORT: '9090',
+    });
+
+    expect(config).toMatchObject({ mode: 'http', host: '0.0.0.0', port: 8080 });
+  });
+
+  test('rejects unknown transports and invalid ports', () => {
+    expect(() => resolveTransportConfig(['--transport=websocket'], {})).toThrow(
+      'Invalid transport'
+    );
+    expect(() => resolveTransportConfig([], { CLOUD_SUPPORT_HTTP_PORT: '70000' })).toThrow(
+      'Invalid value'
+    );
+  });
+});
+
+describe('HTTP Transport Server', () => {
+  let httpServer: HttpTransportServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    httpServer = new HttpTransportServer(createTestServer, {
+      host: '127.0.0.1',
+      port: 0,
+      sessionIdleTimeoutMs: 60_000,
+    });
+    const { port } = await httpServer.start();
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await httpServer.close();
+  });
+
+  test('serves independent Streamable HTTP sessions', async () => {
+    const clients = [
+      new Client({ name: 'a', version: '0' }),
+      new Client({ name: 'b', version: '0' }),
+    ];
+    for (const client of clients) {
+      await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+    }
+
+    expect(httpServer.sessionCount).toBe(2);
+    const { tools } = await clients[0].listTools();
+    expect(tools.map((tool) => tool.name)).toEqual(['ping']);
+
+    await Promise.all(clients.map((client) => client.close()));
+  });
+
+  test('serves legacy SSE sessions', async () => {
+    const client = new Client({ name: 'legacy', version: '0' });
+    await client.connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)));
+
+    const { tools } = await client.listTools();
+    expect(tools).toHaveLength(1);
+
+    await client.close();
+  });
+
+  test('rejects requests for unknown sessions', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        'Mcp-Session-Id': 'unknown-session',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error.message).toBe('Session not found');
+  });
+
+  test('rejects foreign browser origins and DNS-rebound host names', async () => {
+    const post = (headers: Record<string, string>) =>
+      new Promise<{ status: number; body: string }>((resolve, reject) => {
+        const req = request(
+          `${baseUrl}/mcp`,
+          { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers } },
+          (res) => {
+            let body = '';
+            res.on('data', (chunk) => (body += chunk));
+            res.on('end', () => resolve({ status: res.statusCode!, body }));
+          }
+        );
+        req.on('error', reject);
+        req.end(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }));
+      });
+
+    const foreignOrigin = await post({ Origin: 'https://attacker.example' });
+    expect(foreignOrigin.status).toBe(403);
+    expect(JSON.parse(foreignOrigin.body).error.message).toBe(
+      'Forbidden: origin https://attacker.example is not allowed'
+    );
+    expect((await post({ Host: 'attacker.example' })).status).toBe(403);
+    // Local origins only need a valid session like any other client
+    expect((await post({ Origin: 'http://localhost:5173' })).status).toBe(400);
+  });
+
+  test('accepts configured hosts and origins', async () => {
+    const gateway = new HttpTransportServer(createTestServer, {
+      host: '127.0.0.1',
+      port: 0,
+      sessionIdleTimeoutMs: 60_000,
+      allowedHosts: ['127.0.0.1'],
+      allowedOrigins: ['https://console.example.com'],
+    });
+    const { port } = await gateway.start();
+
+    try {
+      const post = (origin: string) =>
+        fetch(`http://127.0.0.1:${port}/mcp`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Origin: origin },
+          body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+        });
+
+      expect((await post('https://console.example.com')).status).toBe(400);
+      expect((await post('https://other.example.com')).status).toBe(403);
+    } finally {
+      await gateway.close();
+    }
+  });
+
+  test('closes all sessions on shutdown', async () => {
+    const client = new Client({ name: 'c', version: '0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+    expect(httpServer.sessionCount).toBe(1);
+
+    await httpServer.close();
+
+    expect(httpServer.sessionCount).toBe(0);
+    await client.close();
+  });
+});
+
+describe('HTTP Passthrough Authentication', () => {
+  let httpServer: HttpTransportServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    httpServer = new HttpTransportServer(createTestServer, {
+      host: '127.0.0.1',
+      port: 0,
+      sessionIdleTimeoutMs: 60_000,
+      authMode: 'passthrough',
+    });
+    const { port } = await httpServer.start();
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    await httpServer.close();
+  });
+
+  test('rejects requests without a bearer token', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+  });
+
+  test('hands the caller token to request handlers', async () => {
+    const client = new Client({ name: 'caller', version: '0' });
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+        requestInit: { headers: { Authorization: 'Bearer caller-token' } },
+      })
+    );
+
+    const result = await client.callTool({ name: 'ping', arguments: {} });
+
+    expect(result.content).toEqual([{ type: 'text', text: 'caller-token' }]);
+    await client.close();
+  });
+});
+
+describe('Caller Token Exchange', () => {
+  const originalFetch = global.fetch;
+  const request = { headers: { authorization: 'Bearer oidc-id-token' } } as IncomingMessage;
+
+  beforeEach(() => {
+    global.fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: vi.fn().mockResolvedValue({ access_token: 'federated-token', expires_in: 3600 }),
+    });
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test('exchanges caller tokens at STS and caches the result', async () => {
+    const authenticator = new CallerAuthenticator({
+      audience: '//iam.googleapis.com/locations/global/workforcePools/team/providers/idp',
+      subjectTokenType: 'urn:ietf:params:oauth:token-type:id_token',
+      tokenUrl: 'https://sts.example.test/v1/token',
+    });
+
+    const first = await authenticator.authenticate(request);
+    const second = await authenticator.authenticate(request);
+
+    expect(first.token).toBe('federated-token');
+    expect(second.token).toBe('federated-token');
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+
+    const body = new URLSearchParams((global.fetch as any).mock.calls[0][1].body);
+    expect(body.get('subject_token')).toBe('oidc-id-token');
+    expect(body.get('subject_token_type')).toBe('urn:ietf:params:oauth:token-type:id_token');
+    expect(body.get('audience')).toContain('workforcePools/team');
+  });
+});
@@ -6,20 +6,31 @@
  */
 
 import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
-import { setupCommonMocks, mockSuccessfulFetch, mockApiResponses } from './test-fixtures.js';
+import { mkdtemp, readFile, readdir, rm, symlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  setupCommonMocks,
+  mockSuccessfulFetch,
+  mockApiResponses,
+  mockAuthHeaders,
+} from './test-fixtures.js';
 import type { MCPResponse } from '../src/handlers/base-handler.js';
+import type { ToolHandlerMap } from '../src/utils/tool-dispatcher.js';
 
 // Import all handlers statically
 import { ListSupportCasesHandler } from '../src/handlers/list-support-cases-handler.js';
 import { CreateSupportCaseHandler } from '../src/handlers/create-support-case-handler.js';
 import { GetSupportCaseHandler } from '../src/handlers/get-support-case-handler.js';
 import { CloseSupportCaseHandler } from '../src/handlers/close-support-case-handler.js';
+import { EscalateSupportCaseHandler } from '../src/handlers/escalate-support-case-handler.js';
 import { UpdateSupportCaseHandler } from '../src/handlers/update-support-case-handler.js';
 import { CreateCaseCommentHandler } from '../src/handlers/create-case-comment-handler.js';
 import { GetCaseCommentsHandler } from '../src/handlers/get-case-comments-handler.js';
 import { SearchSupportCasesHandler } from '../src/handlers/search-support-cases-handler.js';
 import { SearchCaseClassificationsHandler } from '../src/handlers/search-case-classifications-handler.js';
 import { ListCaseAttachmentsHandler } from '../src/handlers/list-case-attachments-handler.js';
+import { UploadCaseAttachmentHandler } from '../src/handlers/upload-case-attachment-handler.js';
 
 describe('MCP Tools', () => {
   beforeEach(async () => {
@@ -61,6 +72,12 @@ describe('MCP Tools', () => {
         invalidInput: {},
         expectedError: 'name is required',
       },
+      {
+        name: 'escalate-support-case',
+        handler: EscalateSupportCaseHandler,
+        invalidInput: {},
+        expectedError: 'name is required',
+      },
       {
         name: 'update-support-case',
         handler: UpdateSupportCaseHandler,
@@ -91,6 +108,12 @@ describe('MCP Tools', () => {
         invalidInput: {},
         expectedError: 'parent is required',
       },
+      {
+        name: 'upload-case-attachment',
+        handler: UploadCaseAttachmentHandler,
+        invalidInput: {},
+        expectedError: 'parent is required',
+      },
     ];
 
     // Test all tools that have required field validation
@@ -130,9 +153,1128 @@ describe('MCP Tools', () => {
       expect((result as MCPResponse).isError).toBe(true);
       expect(result.content[0].text).toContain('classification.id is required');
     });
+
+    test('escalate-support-case validates justification length', async () => {
+      const handler = new EscalateSupportCaseHandler();
+
+      const result = await handler.handle({
+        name: 'projects/example-project/cases/12345',
+        reason: 'BUSINESS_IMPACT',
+        justification: 'x'.repeat(1001),
+      });
+
+      expect((result as MCPResponse).isError).toBe(true);
+      expect(result.content[0].text).toContain('justification exceeds maximum length');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Escalation', () => {
+    const escalateArgs = {
+      name: 'projects/example-project/cases/12345',
+      reason: 'BUSINESS_IMPACT' as const,
+      justification: 'Production outage affecting all customers',
+    };
+
+    beforeEach(() => {
+      mockAuthHeaders();
+    });
+
+    afterEach(() => {
+      vi.doUnmock('../src/api/auth.js');
+    });
+
+    test('refuses to escalate closed cases', async () => {
+      mockSuccessfulFetch({ ...mockApiResponses.supportCase, state: 'CLOSED' });
+
+      const { EscalateSupportCaseHandler: Handler } = await import(
+        '../src/handlers/escalate-support-case-handler.js'
+      );
+      const result = await new Handler().handle(escalateArgs);
+
+      expect((result as MCPResponse).isError).toBe(true);
+      expect(result.content[0].text).toContain('is closed and cannot be escalated');
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('refuses to escalate already escalated cases', async () => {
+      mockSuccessfulFetch({ ...mockApiResponses.supportCase, escalated: true });
+
+      const { EscalateSupportCaseHandler: Handler } = await import(
+        '../src/handlers/escalate-support-case-handler.js'
+      );
+      const result = await new Handler().handle(escalateArgs);
+
+      expect((result as MCPResponse).isError).toBe(true);
+      expect(result.content[0].text).toContain('has already been escalated');
+    });
+
+    test('posts reason and justification to the escalate endpoint', async () => {
+      mockSuccessfulFetch(mockApiResponses.supportCase);
+      mockSuccessfulFetch({ ...mockApiResponses.supportCase, escalated: true });
+
+      const { EscalateSupportCaseHandler: Handler } = await import(
+        '../src/handlers/escalate-support-case-handler.js'
+      );
+      const result = await new Handler().handle(escalateArgs);
+
+      expect((result as MCPResponse).isError).toBe(false);
+      expect(global.fetch).toHaveBeenLastCalledWith(
+        'https://cloudsupport.googleapis.com/v2/projects/example-project/cases/12345:escalate',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({
+            escalation: {
+              reason: escalateArgs.reason,
+              justification: escalateArgs.justification,
+            },
+          }),
+        })
+      );
+      expect(JSON.parse(result.content[0].text).case.escalated).toBe(true);
+    });
+  });
+
+  describe('Dry Run', () => {
+    const caseName = 'projects/example-project/cases/12345';
+
+    beforeEach(() => {
+      mockAuthHeaders();
+    });
+
+    afterEach(() => {
+      vi.doUnmock('../src/api/auth.js');
+      delete process.env.CLOUD_SUPPORT_DRY_RUN;
+    });
+
+    test('previews the update request without sending it', async () => {
+      const { UpdateSupportCaseHandler: Handler } = await import(
+        '../src/handlers/update-support-case-handler.js'
+      );
+      const result = await new Handler().handle({ name: caseName, priority: 'P1', dryRun: true });
+      const data = JSON.parse(result.content[0].text);
+
+      expect(result.isError).toBeFalsy();
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(data).toMatchObject({
+        dryRun: true,
+        request: {
+          method: 'PATCH',
+          url: `https://cloudsupport.googleapis.com/v2/${caseName}?updateMask=priority`,
+          endpoint: `/v2/${caseName}`,
+          queryParams: { updateMask: 'priority' },
+          body: { priority: 'P1' },
+        },
+      });
+    });
+
+    test('drops unset fields from the previewed create body', async () => {
+      const { CreateSupportCaseHandler: Handler } = await import(
+        '../src/handlers/create-support-case-handler.js'
+      );
+      const result = await new Handler().handle({
+        parent: 'projects/example-project',
+        displayName: 'Outage',
+        description: 'All instances are down',
+        classification: { id: 'test-classification-id' },
+        priority: 'P1',
+        dryRun: true,
+      });
+      const { request } = JSON.parse(result.content[0].text);
+
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(request.method).toBe('POST');
+      expect(request.body).toEqual({
+        displayName: 'Outage',
+        description: expect.stringMatching(
+          /^All instances are down\n\n\[mcp-request-id: [\w-]+\]$/
+        ),
+        classification: { id: 'test-classification-id' },
+        priority: 'P1',
+      });
+    });
+
+    test('previews the same marked body that the create request sends', async () => {
+      vi.doMock('../src/utils/idempotency.js', async (importOriginal) => ({
+        ...(await importOriginal<typeof import('../src/utils/idempotency.js')>()),
+        generateIdempotencyMarker: () => '[mcp-request-id: fixed]',
+      }));
+      const { CreateSupportCaseHandler: CaseHandler } = await import(
+        '../src/handlers/create-support-case-handler.js'
+      );
+      const { CreateCaseCommentHandler: CommentHandler } = await import(
+        '../src/handlers/create-case-comment-handler.js'
+      );
+      const caseArgs = {
+        parent: 'projects/example-project',
+        displayName: 'Outage',
+        description: 'All instances are down',
+        classification: { id: 'test-classification-id' },
+        priority: 'P1' as const,
+      };
+      const commentArgs = { parent: caseName, body: 'Any update?' };
+
+      try {
+        const casePreview = await new CaseHandler().handle({ ...caseArgs, dryRun: true });
+        const commentPreview = await new CommentHandler().handle({ ...commentArgs, dryRun: true });
+        mockSuccessfulFetch(mockApiResponses.supportCase);
+        await new CaseHandler().handle(caseArgs);
+        mockSuccessfulFetch(mockApiResponses.comment);
+        await new CommentHandler().handle(commentArgs);
+
+        const sentBodies = (global.fetch as any).mock.calls.map(([, init]: [string, RequestInit]) =>
+          JSON.parse(init.body as string)
+        );
+        expect(sentBodies).toEqual([
+          JSON.parse(casePreview.content[0].text).request.body,
+          JSON.parse(commentPreview.content[0].text).request.body,
+        ]);
+        expect(sentBodies[1]).toEqual({ body: 'Any update?\n\n[mcp-request-id: fixed]' });
+      } finally {
+        vi.doUnmock('../src/utils/idempotency.js');
+      }
+    });
+
+    test('escalation dry run skips the case state check', async () => {
+      const { EscalateSupportCaseHandler: Handler } = await import(
+        '../src/handlers/escalate-support-case-handler.js'
+      );
+      const result = await new Handler().handle({
+        name: caseName,
+        reason: 'BUSINESS_IMPACT',
+        justification: 'Production outage',
+        dryRun: true,
+      });
+
+      expect(result.isError).toBe(false);
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(JSON.parse(result.content[0].text).request.endpoint).toBe(`/v2/${caseName}:escalate`);
+    });
+
+    test('still validates arguments in dry-run mode', async () => {
+      const { CreateCaseCommentHandler: Handler } = await import(
+        '../src/handlers/create-case-comment-handler.js'
+      );
+      const result = await new Handler().handle({ parent: caseName, body: ' ', dryRun: true });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('body cannot be empty');
+    });
+
+    test('CLOUD_SUPPORT_DRY_RUN enables dry runs unless a call opts out', async () => {
+      process.env.CLOUD_SUPPORT_DRY_RUN = 'true';
+      const { CloseSupportCaseHandler: Handler } = await import(
+        '../src/handlers/close-support-case-handler.js'
+      );
+
+      const preview = await new Handler().handle({ name: caseName });
+      expect(JSON.parse(preview.content[0].text).request).toMatchObject({
+        method: 'POST',
+        endpoint: `/v2/${caseName}:close`,
+        body: {},
+      });
+      expect(global.fetch).not.toHaveBeenCalled();
+
+      mockSuccessfulFetch({ ...mockApiResponses.supportCase, state: 'CLOSED' });
+      const closed = await new Handler().handle({ name: caseName, dryRun: false });
+      expect(closed.isError).toBeFalsy();
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Confirmation Gate', () => {
+    const caseName = 'projects/example-project/cases/12345';
+
+    /**
+     * Fake client session answering elicitation requests
+     */
+    function createSession(answer?: {
+      action: 'accept' | 'decline' | 'cancel';
+      confirm?: boolean;
+    }) {
+      return {
+        getClientCapabilities: () => (answer ? { elicitation: {} } : {}),
+        elicitInput: vi.fn(async () => ({
+          action: answer?.action ?? 'cancel',
+          ...(answer?.confirm !== undefined && { content: { confirm: answer.confirm } }),
+        })),
+      };
+    }
+
+    beforeEach(() => {
+      mockAuthHeaders();
+    });
+
+    afterEach(() => {
+      vi.doUnmock('../src/api/auth.js');
+    });
+
+    test('asks to confirm closing with the current case state', async () => {
+      mockSuccessfulFetch(mockApiResponses.supportCase);
+      const { ConfirmationGate } = await import('../src/confirmation/confirmation-gate.js');
+      const session = createSession({ action: 'accept', confirm: true });
+
+      const outcome = await new ConfirmationGate().confirm(session, 'close_support_case', {
+        name: caseName,
+      });
+
+      expect(outcome).toEqual({ allowed: true });
+      const [params] = session.elicitInput.mock.calls[0] as unknown as [{ message: string }];
+      expect(params.message).toContain(`Case: ${caseName}`);
+      expect(params.message).toContain('"Test Support Case", OPEN, P2');
+      expect(params.message).toContain('Proposed change: Close the case');
+    });
+
+    test('refuses when the user declines or leaves the box unchecked', async () => {
+      mockSuccessfulFetch(mockApiResponses.supportCase);
+      mockSuccessfulFetch(mockApiResponses.supportCase);
+      const { ConfirmationGate } = await import('../src/confirmation/confirmation-gate.js');
+      const gate = new ConfirmationGate();
+
+      const declined = await gate.confirm(
+        createSession({ action: 'decline' }),
+        'escalate_support_case',
+        { name: caseName, reason: 'BUSINESS_IMPACT', justification: 'Outage' }
+      );
+      const unchecked = await gate.confirm(
+        createSession({ action: 'accept', confirm: false }),
+        'update_support_case',
+        { name: caseName, priority: 'P1' }
+      );
+
+      expect(declined).toMatchObject({ allowed: false });
+      expect(unchecked).toMatchObject({ allowed: false });
+    });
+
+    test('refuses guarded actions when the client lacks elicitation support', async () => {
+      const { ConfirmationGate } = await import('../src/confirmation/confirmation-gate.js');
+      const session = createSession();
+
+      const outcome = await new ConfirmationGate().confirm(session, 'close_support_case', {
+        name: caseName,
+      });
+
+      expect(outcome).toMatchObject({ allowed: false });
+      expect((outcome as { reason: string }).reason).toContain('does not support MCP elicitation');
+      expect(session.elicitInput).not.toHaveBeenCalled();
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    test('lets unguarded calls and dry runs through without asking', async () => {
+      const { ConfirmationGate } = await import('../src/confirmation/confirmation-gate.js');
+      const gate = new ConfirmationGate();
+      const session = createSession();
+
+      const results = await Promise.all([
+        gate.confirm(session, 'update_support_case', { name: caseName, priority: 'P3' }),
+        gate.confirm(session, 'close_support_case', { name: caseName, dryRun: true }),
+        gate.confirm(session, 'get_support_case', { name: caseName }),
+      ]);
+
+      expect(results).toEqual([{ allowed: true }, { allowed: true }, { allowed: true }]);
+    });
+
+    test('validates arguments before asking for confirmation', async () => {
+      const { ConfirmationGate } = await import('../src/confirmation/confirmation-gate.js');
+      const { TypeSafeToolDispatcher } = await import('../src/utils/tool-dispatcher.js');
+      const gate = new ConfirmationGate();
+      const session = createSession({ action: 'accept', confirm: true });
+      const guard = vi.fn(async (args: unknown) => {
+        const outcome = await gate.confirm(session, 'close_support_case', args);
+        return outcome.allowed ? undefined : { content: [], isError: true };
+      });
+      const dispatcher = new TypeSafeToolDispatcher({} as unknown as ToolHandlerMap);
+
+      const malformed = await dispatcher.executeToolSafely(
+        'close_support_case',
+        { name: 42 },
+        {},
+        guard
+      );
+      const invalidName = await gate.confirm(session, 'close_support_case', {
+        name: '../../v1/projects/example-project',
+      });
+
+      expect(malformed.isError).toBe(true);
+      expect(malformed.content[0].text).toContain('name must be a string');
+      expect(guard).not.toHaveBeenCalled();
+      expect(invalidName).toMatchObject({ allowed: false });
+      expect((invalidName as { reason: string }).reason).toContain('invalid case name');
+      expect(session.elicitInput).not.toHaveBeenCalled();
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    test('policy is configurable via CLOUD_SUPPORT_CONFIRM_ACTIONS', async () => {
+      const { ConfirmationGate, resolveConfirmationPolicy } = await import(
+        '../src/confirmation/confirmation-gate.js'
+      );
+      const session = createSession();
+
+      const none = new ConfirmationGate(
+        resolveConfirmationPolicy({ CLOUD_SUPPORT_CONFIRM_ACTIONS: 'none' })
+      );
+      const comments = new ConfirmationGate(
+        resolveConfirmationPolicy({ CLOUD_SUPPORT_CONFIRM_ACTIONS: 'comment' })
+      );
+
+      expect(await none.confirm(session, 'close_support_case', { name: caseName })).toEqual({
+        allowed: true,
+      });
+      expect(
+        await comments.confirm(session, 'create_case_comment', { parent: caseName, body: 'Hi' })
+      ).toMatchObject({ allowed: false });
+      expect(() => resolveConfirmationPolicy({ CLOUD_SUPPORT_CONFIRM_ACTIONS: 'delete' })).toThrow(
+        'Invalid action'
+      );
+    });
+  });
+
+  describe('Authentication Identity', () => {
+    beforeEach(() => {
+      mockAuthHeaders();
+    });
+
+    afterEach(() => {
+      vi.doUnmock('../src/api/auth.js');
+    });
+
+    test('whoami reports method, principal and quota project without the token', async () => {
+      const { WhoamiHandler: Handler } = await import('../src/handlers/whoami-handler.js');
+      const result = await new Handler().handle({});
+      const data = JSON.parse(result.content[0].text);
+
+      expect((result as MCPResponse).isError).toBe(false);
+      expect(data).toMatchObject({
+        method: 'gcloud-cli',
+        principal: 'user@example.com',
+        quotaProject: 'example-project',
+      });
+      expect(result.content[0].text).not.toContain('mock-access-token');
+    });
+  });
+
+  describe('Case Timeline', () => {
+    beforeEach(() => {
+      mockAuthHeaders();
+    });
+
+    afterEach(() => {
+      vi.doUnmock('../src/api/auth.js');
+    });
+
+    test('merges case, comments and attachments chronologically by actor', async () => {
+      (global.fetch as any).mockImplementation(async (url: string) => ({
+        ok: true,
+        status: 200,
+        json: async () => {
+          if (url.includes('/comments')) {
+            return {
+              comments: [
+                {
+                  createTime: '2024-01-03T00:00:00Z',
+                  body: 'We are looking into it',
+                  creator: { displayName: 'Google Support', googleSupport: true },
+                },
+                {
+                  createTime: '2024-01-02T00:00:00Z',
+                  body: 'x'.repeat(50),
+                  creator: { displayName: 'Test User' },
+                },
+              ],
+            };
+          }
+          if (url.includes('/attachments')) {
+            return {
+              attachments: [{ createTime: '2024-01-02T12:00:00Z', filename: 'trace.log' }],
+            };
+          }
+          return { ...mockApiResponses.supportCase, updateTime: '2024-01-04T00:00:00Z' };
+        },
+      }));
+
+      const { GetCaseTimelineHandler: Handler } = await import(
+        '../src/handlers/get-case-timeline-handler.js'
+      );
+      const result = await new Handler().handle({
+        name: 'projects/example-project/cases/12345',
+        maxBodyLength: 10,
+      });
+      const data = JSON.parse(result.content[0].text);
+
+      expect((result as MCPResponse).isError).toBe(false);
+      expect(data.events.map((event: { type: string }) => event.type)).toEqual([
+        'created',
+        'comment',
+        'attachment',
+        'comment',
+        'state',
+      ]);
+      expect(data.events[1]).toMatchObject({ actor: 'customer', text: 'xxxxxxxxxx...' });
+      expect(data.events[3]).toMatchObject({ actor: 'googleSupport', author: 'Google Support' });
+      expect(data.events[4]).toMatchObject({ actor: 'system', text: 'State is OPEN' });
+      expect(data).toMatchObject({ totalComments: 2, totalAttachments: 1, truncated: false });
+    });
+
+    test('rejects invalid case names', async () => {
+      const { GetCaseTimelineHandler: Handler } = await import(
+        '../src/handlers/get-case-timeline-handler.js'
+      );
+      const result = await new Handler().handle({ name: 'cases/12345' });
+
+      expect((result as MCPResponse).isError).toBe(true);
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Case Feed', () => {
+    beforeEach(() => {
+      mockAuthHeaders();
+    });
+
+    afterEach(() => {
+      vi.doUnmock('../src/api/auth.js');
+    });
+
+    test('returns comments, email messages and attachments from the v2beta feed', async () => {
+      mockSuccessfulFetch({
+        feedItems: [
+          {
+            eventTime: '2024-01-02T00:00:00Z',
+            comment: { name: 'c1', body: 'Any update?', creator: { displayName: 'Test User' } },
+          },
+          {
+            eventTime: '2024-01-03T00:00:00Z',
+            emailMessage: {
+              name: 'e1',
+              subject: 'Re: Case 12345',
+              actor: { displayName: 'Google Support', googleSupport: true },
+              recipientEmailAddresses: ['test@example.com'],
+              bodyContent: { plainText: 'Fix is rolling out' },
+            },
+          },
+          {
+            eventTime: '2024-01-04T00:00:00Z',
+            deletedAttachment: { name: 'a1', filename: 'trace.log' },
+          },
+        ],
+        nextPageToken: 'feed-token',
+      });
+
+      const { ShowCaseFeedHandler: Handler } = await import(
+        '../src/handlers/show-case-feed-handler.js'
+      );
+      const result = await new Handler().handle({
+        name: 'projects/example-project/cases/12345',
+        orderBy: 'creation_time desc',
+      });
+      const data = JSON.parse(result.content[0].text);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('/v2beta/projects/example-project/cases/12345:showFeed'),
+        expect.anything()
+      );
+      expect(data.items.map((item: { type: string }) => item.type)).toEqual([
+        'comment',
+        'emailMessage',
+        'deletedAttachment',
+      ]);
+      expect(data.items[1]).toMatchObject({
+        actor: 'googleSupport',
+        subject: 'Re: Case 12345',
+        body: 'Fix is rolling out',
+        recipients: ['test@example.com'],
+      });
+      expect(data.nextPageToken).toBe('feed-token');
+    });
+
+    test('builds version-gated case method endpoints', async () => {
+      const { apiClient } = await import('../src/api/client.js');
+
+      expect(apiClient.caseMethodEndpoint('v2', 'listComments', 'projects/p/cases/1')).toBe(
+        '/v2/projects/p/cases/1/comments'
+      );
+      expect(
+        apiClient.caseMethodEndpoint('v2beta', 'listEmailMessages', 'projects/p/cases/1')
+      ).toBe('/v2beta/projects/p/cases/1/emailMessages');
+    });
+  });
+
+  describe('Support Case Resources', () => {
+    beforeEach(() => {
+      mockAuthHeaders();
+    });
+
+    afterEach(() => {
+      vi.doUnmock('../src/api/auth.js');
+      delete process.env.CLOUD_SUPPORT_RESOURCE_PARENT;
+    });
+
+    async function createProvider() {
+      const { SupportCaseResourceProvider } = await import(
+        '../src/resources/support-case-resources.js'
+      );
+      const handlers = await import('../src/handlers/index.js');
+      return new SupportCaseResourceProvider({
+        list_support_cases: new handlers.ListSupportCasesHandler(),
+        get_support_case: new handlers.GetSupportCaseHandler(),
+        get_case_comments: new handlers.GetCaseCommentsHandler(),
+        list_case_attachments: new handlers.ListCaseAttachmentsHandler(),
+      });
+    }
+
+    test('parses and builds support-case URIs', async () => {
+      const { parseSupportCaseUri, buildSupportCaseUri } = await import(
+        '../src/resources/resource-uri.js'
+      );
+
+      expect(parseSupportCaseUri('support-case://projects/my-project/cases/123/comments')).toEqual({
+        caseName: 'projects/my-project/cases/123',
+        kind: 'comments',
+      });
+      expect(parseSupportCaseUri('support-case://organizations/42/cases/7')).toEqual({
+        caseName: 'organizations/42/cases/7',
+        kind: 'case',
+      });
+      expect(parseSupportCaseUri('support-case://projects/my-project/cases/abc')).toBeUndefined();
+      expect(buildSupportCaseUri('projects/my-project/cases/123', 'attachments')).toBe(
+        'support-case://projects/my-project/cases/123/attachments'
+      );
+    });
+
+    test('lists cases of the current project as resources', async () => {
+      mockSuccessfulFetch(mockApiResponses.supportCasesList);
+      const provider = await createProvider();
+
+      const result = await provider.listResources();
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('/projects/example-project/cases?pageSize=50'),
+        expect.anything()
+      );
+      expect(result.nextCursor).toBe('next-page-token');
+      expect(result.resources[0]).toMatchObject({
+        uri: 'support-case://projects/example-project/cases/12345',
+        title: 'Test Case 1',
+        description: 'OPEN P2',
+        mimeType: 'application/json',
+      });
+    });
+
+    test('reads case comments through the comments handler', async () => {
+      mockSuccessfulFetch(mockApiResponses.commentsList);
+      const provider = await createProvider();
+      const uri = 'support-case://projects/example-project/cases/12345/comments';
+
+      const result = await provider.readResource(uri);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('/projects/example-project/cases/12345/comments'),
+        expect.anything()
+      );
+      expect(result.contents[0].uri).toBe(uri);
+      expect(JSON.parse(result.contents[0].text).comments).toHaveLength(2);
+    });
+
+    test('rejects unknown resource URIs', async () => {
+      const provider = await createProvider();
+
+      await expect(provider.readResource('support-case://billing/123')).rejects.toThrow(
+        'Unknown resource'
+      );
+    });
+  });
+
+  describe('Resource Subscriptions', () => {
+    const uri = 'support-case://projects/example-project/cases/12345';
+    let comments: unknown[];
+
+    beforeEach(() => {
+      mockAuthHeaders();
+      comments = [...mockApiResponses.commentsList.comments];
+      (global.fetch as any).mockImplementation(async (url: string) => ({
+        ok: true,
+        status: 200,
+        json: async () =>
+          url.includes('/comments')
+            ? { comments }
+            : { ...mockApiResponses.supportCase, updateTime: '2024-01-02T00:00:00Z' },
+      }));
+    });
+
+    afterEach(() => {
+      vi.doUnmock('../src/api/auth.js');
+    });
+
+    async function createManager(maxSubscriptions = 10) {
+      const { ResourceSubscriptionManager } = await import(
+        '../src/resources/resource-subscriptions.js'
+      );
+      let now = 0;
+      const manager = new ResourceSubscriptionManager(
+        { pollIntervalMs: 60000, maxSubscriptions },
+        () => now
+      );
+      return { manager, advance: (ms: number) => (now += ms) };
+    }
+
+    test('notifies subscribers when a comment is added', async () => {
+      const { manager, advance } = await createManager();
+      const session = { sendResourceUpdated: vi.fn().mockResolvedValue(undefined) };
+
+      await manager.subscribe(session, uri);
+      advance(60000);
+      await manager.pollDue();
+      expect(session.sendResourceUpdated).not.toHaveBeenCalled();
+
+      // Comments are listed newest first; only the newest one is fetched
+      comments.unshift({ name: 'projects/example-project/cases/12345/comments/3' });
+      advance(60000);
+      await manager.pollDue();
+      expect(session.sendResourceUpdated).toHaveBeenCalledWith({ uri });
+      const commentUrls = (global.fetch as any).mock.calls
+        .map(([url]: [string]) => new URL(url))
+        .filter((url: URL) => url.pathname.endsWith('/comments'));
+      expect(commentUrls.map((url: URL) => url.searchParams.get('pageSize'))).toEqual([
+        '1',
+        '1',
+        '1',
+      ]);
+
+      await manager.stop();
+    });
+
+    test('drops subscriptions whose caller token is rejected', async () => {
+      const { manager, advance } = await createManager();
+      const session = { sendResourceUpdated: vi.fn().mockResolvedValue(undefined) };
+      await manager.subscribe(session, uri, { accessToken: 'caller-token' });
+
+      (global.fetch as any).mockResolvedValue({
+        ok: false,
+        status: 401,
+        statusText: 'Unauthorized',
+        headers: new Headers(),
+        text: async () => '',
+      });
+      advance(60000);
+      await manager.pollDue();
+
+      expect(manager.subscriptionCount).toBe(0);
+      expect(session.sendResourceUpdated).not.toHaveBeenCalled();
+      await manager.stop();
+    });
+
+    test('backs off after failed polls', async () => {
+      const { manager, advance } = await createManager();
+      const session = { sendResourceUpdated: vi.fn().mockResolvedValue(undefined) };
+      await manager.subscribe(session, uri);
+
+      (global.fetch as any).mockClear();
+      (global.fetch as any).mockRejectedValue(new Error('Invalid request'));
+      advance(60000);
+      await manager.pollDue();
+      const callsAfterFailure = (global.fetch as any).mock.calls.length;
+
+      // Next poll is delayed beyond the regular interval
+      advance(60000);
+      await manager.pollDue();
+      expect((global.fetch as any).mock.calls.length).toBe(callsAfterFailure);
+
+      await manager.stop();
+    });
+
+    test('enforces the subscription limit and cleans up on stop', async () => {
+      const { manager } = await createManager(1);
+      const session = { sendResourceUpdated: vi.fn() };
+
+      await manager.subscribe(session, uri);
+      await expect(manager.subscribe(session, `${uri}/comments`)).rejects.toThrow(
+        'Subscription limit reached'
+      );
+      await expect(manager.subscribe(session, 'support-case://invalid')).rejects.toThrow(
+        'Unknown resource'
+      );
+
+      await manager.stop();
+      expect(manager.subscriptionCount).toBe(0);
+    });
+
+    test('rejects invalid subscription settings', async () => {
+      const { resolveSubscriptionConfig } = await import(
+        '../src/resources/resource-subscriptions.js'
+      );
+
+      expect(resolveSubscriptionConfig({})).toEqual({
+        pollIntervalMs: 60000,
+        maxSubscriptions: 50,
+      });
+      expect(() =>
+        resolveSubscriptionConfig({ CLOUD_SUPPORT_SUBSCRIPTION_POLL_INTERVAL_MS: '1000' })
+      ).toThrow('CLOUD_SUPPORT_SUBSCRIPTION_POLL_INTERVAL_MS');
+    });
+  });
+
+  describe('Support Prompts', () => {
+    beforeEach(() => {
+      mockAuthHeaders();
+    });
+
+    afterEach(() => {
+      vi.doUnmock('../src/api/auth.js');
+    });
+
+    async function createPromptProvider() {
+      const { SupportCaseResourceProvider } = await import(
+        '../src/resources/support-case-resources.js'
+      );
+      const { SupportPromptProvider } = await import('../src/prompts/support-prompts.js');
+      const handlers = await import('../src/handlers/index.js');
+      const resources = new SupportCaseResourceProvider({
+        list_support_cases: new handlers.ListSupportCasesHandler(),
+        get_support_case: new handlers.GetSupportCaseHandler(),
+        get_case_comments: new handlers.GetCaseCommentsHandler(),
+        list_case_attachments: new handlers.ListCaseAttachmentsHandler(),
+      });
+      return new SupportPromptProvider(resources, {
+        search_case_classifications: new handlers.SearchCaseClassificationsHandler(),
+      });
+    }
+
+    test('lists workflow prompts', async () => {
+      const provider = await createPromptProvider();
+
+      expect(provider.listPrompts().map((prompt) => prompt.name)).toEqual([
+        'draft_p1_case',
+        'summarize_case_handoff',
+        'request_eta_followup',
+      ]);
+    });
+
+    test('embeds case details and comments in the handoff prompt', async () => {
+      (global.fetch as any).mockImplementation(async (url: string) => ({
+        ok: true,
+        status: 200,
+        json: async () =>
+          url.includes('/comments') ? mockApiResponses.commentsList : mockApiResponses.supportCase,
+      }));
+      const provider = await createPromptProvider();
+
+      const result = await provider.getPrompt('summarize_case_handoff', {
+        caseName: 'projects/example-project/cases/12345',
+      });
+
+      expect(result.messages).toHaveLength(3);
+      expect(result.messages[1].content).toMatchObject({
+        type: 'resource',
+        resource: { uri: 'support-case://projects/example-project/cases/12345' },
+      });
+      expect(result.messages[2].content).toMatchObject({
+        type: 'resource',
+        resource: { uri: 'support-case://projects/example-project/cases/12345/comments' },
+      });
+    });
+
+    test('suggests classifications when drafting a P1 case', async () => {
+      mockSuccessfulFetch({
+        caseClassifications: [{ id: '100', displayName: 'Compute Engine > VM' }],
+      });
+      const provider = await createPromptProvider();
+
+      const result = await provider.getPrompt('draft_p1_case', {
+        incident: 'All VMs in us-central1 are unreachable',
+        product: 'Compute Engine',
+      });
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        expect.stringContaining('caseClassifications:search'),
+        expect.anything()
+      );
+      expect(result.messages[0].content).toMatchObject({
+        type: 'text',
+        text: expect.stringContaining('projects/example-project'),
+      });
+      expect(result.messages[1].content).toMatchObject({
+        type: 'text',
+        text: expect.stringContaining('Compute Engine > VM'),
+      });
+    });
+
+    test('rejects missing and invalid arguments', async () => {
+      const provider = await createPromptProvider();
+
+      await expect(provider.getPrompt('request_eta_followup', {})).rejects.toThrow(
+        'caseName is required'
+      );
+      await expect(
+        provider.getPrompt('request_eta_followup', { caseName: 'cases/12345' })
+      ).rejects.toThrow('caseName must be');
+      await expect(provider.getPrompt('unknown_prompt')).rejects.toThrow('Unknown prompt');
+    });
+  });
+
+  describe('Attachment Upload', () => {
+    let uploadDir: string;
+    let outsideDir: string;
+
+    beforeEach(async () => {
+      mockAuthHeaders();
+      uploadDir = await mkdtemp(join(tmpdir(), 'cloud-support-upload-'));
+      outsideDir = await mkdtemp(join(tmpdir(), 'cloud-support-outside-'));
+      process.env.CLOUD_SUPPORT_UPLOAD_DIR = uploadDir;
+    });
+
+    afterEach(async () => {
+      vi.doUnmock('../src/api/auth.js');
+      delete process.env.CLOUD_SUPPORT_UPLOAD_DIR;
+      await rm(uploadDir, { recursive: true, force: true });
+      await rm(outsideDir, { recursive: true, force: true });
+    });
+
+    test('reads filePath relative to the upload directory', async () => {
+      await writeFile(join(uploadDir, 'trace.log'), 'panic');
+      mockSuccessfulFetch({ name: 'projects/example-project/cases/12345/attachments/1' });
+
+      const { UploadCaseAttachmentHandler: Handler } = await import(
+        '../src/handlers/upload-case-attachment-handler.js'
+      );
+      const result = await new Handler().handle({
+        parent: 'projects/example-project/cases/12345',
+        filePath: 'trace.log',
+      });
+
+      expect((result as MCPResponse).isError).toBe(false);
+      const body = await ((global.fetch as any).mock.calls[0][1].body as Blob).text();
+      expect(body).toContain('{"attachment":{"filename":"trace.log"}}');
+      expect(body).toContain('\r\n\r\npanic');
+    });
+
+    test('rejects files outside the upload directory, including through symbolic links', async () => {
+      const secret = join(outsideDir, 'credentials.json');
+      await writeFile(secret, '{"private_key": "..."}');
+      await symlink(secret, join(uploadDir, 'link.json'));
+
+      const { UploadCaseAttachmentHandler: Handler } = await import(
+        '../src/handlers/upload-case-attachment-handler.js'
+      );
+      for (const filePath of [secret, '../' + secret.split('/').slice(-2).join('/'), 'link.json']) {
+        const result = await new Handler().handle({
+          parent: 'projects/example-project/cases/12345',
+          filePath,
+        });
+
+        expect((result as MCPResponse).isError, filePath).toBe(true);
+        expect(result.content[0].text, filePath).toContain('outside the upload directory');
+      }
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    test('rejects content larger than the Support API limit', async () => {
+      const { UploadCaseAttachmentHandler: Handler } = await import(
+        '../src/handlers/upload-case-attachment-handler.js'
+      );
+      const result = await new Handler().handle({
+        parent: 'projects/example-project/cases/12345',
+        content: 'A'.repeat(41 * 1024 * 1024),
+        filename: 'large.bin',
+      });
+
+      expect((result as MCPResponse).isError).toBe(true);
+      expect(result.content[0].text).toContain('exceeds the maximum');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    test('sends base64 content as a multipart media upload', async () => {
+      mockSuccessfulFetch({
+        name: 'projects/example-project/cases/12345/attachments/1',
+        filename: 'network.har',
+        mimeType: 'application/json',
+        sizeBytes: '11',
+      });
+
+      const { UploadCaseAttachmentHandler: Handler } = await import(
+        '../src/handlers/upload-case-attachment-handler.js'
+      );
+      const result = await new Handler().handle({
+        parent: 'projects/example-project/cases/12345',
+        content: Buffer.from('{"log": {}}').toString('base64'),
+        filename: 'network.har',
+      });
+
+      expect((result as MCPResponse).isError).toBe(false);
+
+      const [url, init] = (global.fetch as any).mock.calls[0];
+      expect(url).toBe(
+        'https://cloudsupport.googleapis.com/upload/v2/projects/example-project/cases/12345/attachments?uploadType=multipart'
+      );
+      expect(init.headers['Content-Type']).toMatch(/^multipart\/related; boundary=/);
+
+      const body = await (init.body as Blob).text();
+      expect(body).toContain('{"attachment":{"filename":"network.har"}}');
+      expect(body).toContain('Content-Type: application/json\r\n\r\n{"log": {}}');
+    });
+  });
+
+  describe('Attachment Download', () => {
+    const attachmentName = 'projects/example-project/cases/12345/attachments/abc';
+    let downloadDir: string;
+
+    beforeEach(async () => {
+      mockAuthHeaders();
+      downloadDir = await mkdtemp(join(tmpdir(), 'cloud-support-test-'));
+      process.env.CLOUD_SUPPORT_DOWNLOAD_DIR = downloadDir;
+    });
+
+    afterEach(async () => {
+      vi.doUnmock('../src/api/auth.js');
+      delete process.env.CLOUD_SUPPORT_DOWNLOAD_DIR;
+      await rm(downloadDir, { recursive: true, force: true });
+    });
+
+    function mockAttachmentList(sizeBytes: string) {
+      mockSuccessfulFetch({
+        attachments: [{ name: attachmentName, filename: 'patch-notes.txt', sizeBytes }],
+      });
+    }
+
+    test('streams attachment content into the download directory', async () => {
+      mockAttachmentList('11');
+      (global.fetch as any).mockResolvedValueOnce(new Response('hello world'));
+
+      const { DownloadCaseAttachmentHandler: Handler } = await import(
+        '../src/handlers/download-case-attachment-handler.js'
+      );
+      const result = await new Handler().handle({ name: attachmentName });
+
+      expect((result as MCPResponse).isError).toBe(false);
+      expect((global.fetch as any).mock.calls[1][0]).toBe(
+        `https://cloudsupport.googleapis.com/v2/${attachmentName}:download?alt=media`
+      );
+      expect(await readFile(join(downloadDir, 'patch-notes.txt'), 'utf8')).toBe('hello world');
+    });
+
+    test('discards the file when the byte count does not match sizeBytes', async () => {
+      // Size mismatches are retryable, so every attempt sees the same truncated content
+      global.fetch = vi.fn().mockImplementation(async (url: string) =>
+        url.includes(':download')
+          ? new Response('hello world')
+          : new Response(
+              JSON.stringify({
+                attachments: [
+                  { name: attachmentName, filename: 'patch-notes.txt', sizeBytes: '100' },
+                ],
+              })
+            )
+      );
+
+      const { DownloadCaseAttachmentHandler: Handler } = await import(
+        '../src/handlers/download-case-attachment-handler.js'
+      );
+      const result = await new Handler().handle({ name: attachmentName });
+
+      expect((result as MCPResponse).isError).toBe(true);
+      expect(result.content[0].text).toContain('Downloaded size mismatch');
+      expect(await readdir(downloadDir)).toEqual([]);
+    });
+
+    test('aborts a timed-out download, removes its partial file and does not retry it', async () => {
+      mockAttachmentList('11');
+      // The transfer starts but never completes
+      (global.fetch as any).mockResolvedValueOnce(
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(new TextEncoder().encode('hello'));
+            },
+          })
+        )
+      );
+
+      const { DownloadCaseAttachmentHandler: Handler } = await import(
+        '../src/handlers/download-case-attachment-handler.js'
+      );
+      const handler = new Handler();
+      Object.assign(handler, { config: { ...(handler as any).config, timeoutMs: 200 } });
+      const result = await handler.handle({ name: attachmentName });
+
+      expect((result as MCPResponse).isError).toBe(true);
+      expect(result.content[0].text).toContain('timed out');
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      const [, init] = (global.fetch as any).mock.calls[1];
+      expect(init.signal.aborted).toBe(true);
+      await vi.waitFor(async () => expect(await readdir(downloadDir)).toEqual([]));
+    });
+
+    test('writes each attempt to its own partial file', async () => {
+      mockAttachmentList('11');
+      (global.fetch as any).mockResolvedValueOnce(new Response('hello world'));
+      const { apiClient } = await import('../src/api/index.js');
+      const download = vi.spyOn(apiClient, 'download');
+
+      const { DownloadCaseAttachmentHandler: Handler } = await import(
+        '../src/handlers/download-case-attachment-handler.js'
+      );
+      await new Handler().handle({ name: attachmentName });
+
+      expect(download.mock.calls[0][1]).toMatch(
+        new RegExp(`^${join(downloadDir, 'patch-notes.txt')}\\.[0-9a-f-]{36}\\.partial$`)
+      );
+    });
+
+    test('keeps output paths inside the download directory', async () => {
+      mockAttachmentList('11');
+      (global.fetch as any).mockResolvedValueOnce(new Response('hello world'));
+
+      const { DownloadCaseAttachmentHandler: Handler } = await import(
+        '../src/handlers/download-case-attachment-handler.js'
+      );
+      const result = await new Handler().handle({
+        name: attachmentName,
+        outputFilename: '../../escape.txt',
+      });
+
+      expect((result as MCPResponse).isError).toBe(false);
+      expect(await readdir(downloadDir)).toEqual(['escape.txt']);
+    });
+  });
+
+  describe('Case Search', () => {
+    beforeEach(() => {
+      mockAuthHeaders();
+    });
+
+    afterEach(() => {
+      vi.doUnmock('../src/api/auth.js');
+    });
+
+    test('sends the compiled query and keeps server-side matches', async () => {
+      // Server-side full-text matches may not contain the text in displayName or description
+      mockSuccessfulFetch(mockApiResponses.supportCasesList);
+
+      const { SearchSupportCasesHandler: Handler } = await import(
+        '../src/handlers/search-support-cases-handler.js'
+      );
+      const result = await new Handler().handle({
+        parent: 'projects/example-project',
+        query: 'quota exceeded',
+        state: 'OPEN',
+      });
+
+      expect((result as MCPResponse).isError).toBe(false);
+      const url = new URL((global.fetch as any).mock.calls[0][0]);
+      expect(url.searchParams.get('query')).toBe(
+        'project="projects/example-project" AND state=OPEN AND "quota exceeded"'
+      );
+      expect(JSON.parse(result.content[0].text).totalFound).toBe(2);
+    });
   });
 
   describe('MCP Response Format', () => {
+    test('tools/list advertises every tool name exactly once', async () => {
+      const { getToolDefinitions } = await import('../src/tools/index.js');
+      const names = getToolDefinitions().map((tool) => tool.name);
+
+      expect(new Set(names).size).toBe(names.length);
+    });
+
     test('all tools return MCP-compliant response structure', async () => {
       mockSuccessfulFetch(mockApiResponses.listSupportCases.success);
 
@@ -164,6 +1306,447 @@ describe('MCP Tools', () => {
     });
   });
 
+  describe('Structured Output', () => {
+    beforeEach(() => {
+      mockAuthHeaders();
+    });
+
+    afterEach(() => {
+      vi.doUnmock('../src/api/auth.js');
+    });
+
+    test('every tool declares an object outputSchema', async () => {
+      const { getToolDefinitions } = await import('../src/tools/index.js');
+
+      for (const tool of getToolDefinitions()) {
+        expect(tool.outputSchema.type, tool.name).toBe('object');
+        expect(Object.keys(tool.outputSchema.properties).length, tool.name).toBeGreaterThan(0);
+      }
+    });
+
+    test('returns the result as structuredContent alongside the JSON text', async () => {
+      mockSuccessfulFetch({ ...mockApiResponses.supportCase, state: 'CLOSED' });
+      const { CloseSupportCaseHandler: Handler } = await import(
+        '../src/handlers/close-support-case-handler.js'
+      );
+
+      const result = await new Handler().handle({ name: 'projects/example-project/cases/12345' });
+
+      expect(result.isError).toBe(false);
+      expect(result.structuredContent).toEqual(JSON.parse(result.content[0].text));
+      expect(result.structuredContent).toMatchObject({
+        message: 'Support case successfully closed',
+        case: { name: 'projects/example-project/cases/12345', state: 'CLOSED' },
+      });
+    });
+
+    test('omits undefined fields from structuredContent', async () => {
+      mockSuccessfulFetch({ name: 'projects/example-project/cases/12345' });
+      const { GetSupportCaseHandler: Handler } = await import(
+        '../src/handlers/get-support-case-handler.js'
+      );
+
+      const result = await new Handler().handle({ name: 'projects/example-project/cases/12345' });
+
+      expect(result.structuredContent).toBeDefined();
+      expect(result.structuredContent).not.toHaveProperty('timeZone');
+    });
+
+    test('error responses carry no structuredContent', async () => {
+      global.fetch = vi.fn().mockRejectedValue(new Error('API Error'));
+      const { GetSupportCaseHandler: Handler } = await import(
+        '../src/handlers/get-support-case-handler.js'
+      );
+
+      const result = await new Handler().handle({ name: 'projects/example-project/cases/12345' });
+
+      expect(result.isError).toBe(true);
+      expect(result.structuredContent).toBeUndefined();
+    });
+  });
+
+  describe('Retry and Idempotency', () => {
+    const caseName = 'projects/example-project/cases/12345';
+
+    beforeEach(() => {
+      mockAuthHeaders();
+    });
+
+    afterEach(() => {
+      vi.doUnmock('../src/api/auth.js');
+    });
+
+    test('retries idempotent operations after transient errors', async () => {
+      (global.fetch as any).mockRejectedValueOnce(new Error('ECONNRESET'));
+      mockSuccessfulFetch({ ...mockApiResponses.supportCase, priority: 'P3' });
+      const { UpdateSupportCaseHandler: Handler } = await import(
+        '../src/handlers/update-support-case-handler.js'
+      );
+
+      const result = await new Handler().handle({ name: caseName, priority: 'P3' });
+
+      expect(result.isError).toBe(false);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('never retries non-idempotent operations', async () => {
+      (global.fetch as any).mockRejectedValue(new Error('ECONNRESET'));
+      const { UploadCaseAttachmentHandler: Handler } = await import(
+        '../src/handlers/upload-case-attachment-handler.js'
+      );
+
+      const result = await new Handler().handle({
+        parent: caseName,
+        filename: 'trace.log',
+        content: Buffer.from('panic').toString('base64'),
+      });
+
+      expect(result.isError).toBe(true);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('the dispatcher calls a slow handler once and leaves retries to its configuration', async () => {
+      vi.useFakeTimers();
+      try {
+        const { TypeSafeToolDispatcher } = await import('../src/utils/tool-dispatcher.js');
+        const handle = vi.fn(
+          () =>
+            new Promise<MCPResponse>((resolve) =>
+              setTimeout(() => resolve({ content: [{ type: 'text', text: '{}' }] }), 60000)
+            )
+        );
+        const dispatcher = new TypeSafeToolDispatcher({
+          escalate_support_case: { handle },
+        } as unknown as ToolHandlerMap);
+
+        const call = dispatcher.executeToolSafely('escalate_support_case', {
+          name: caseName,
+          reason: 'BUSINESS_IMPACT',
+          justification: 'Production outage',
+        });
+        await vi.advanceTimersByTimeAsync(180000);
+
+        expect((await call).isError).toBeFalsy();
+        expect(handle).toHaveBeenCalledTimes(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    test('sends a hanging create once per tool call', async () => {
+      vi.useFakeTimers();
+      try {
+        const fetchMock = global.fetch as any;
+        fetchMock.mockImplementation((_url: string, init: RequestInit) =>
+          init.method === 'POST'
+            ? new Promise(() => {})
+            : Promise.resolve({ ok: true, status: 200, json: async () => ({ cases: [] }) })
+        );
+        const { TypeSafeToolDispatcher } = await import('../src/utils/tool-dispatcher.js');
+        const { CreateSupportCaseHandler: Handler } = await import(
+          '../src/handlers/create-support-case-handler.js'
+        );
+        const dispatcher = new TypeSafeToolDispatcher({
+          create_support_case: new Handler(),
+        } as unknown as ToolHandlerMap);
+
+        const call = dispatcher.executeToolSafely('create_support_case', {
+          parent: 'projects/example-project',
+          displayName: 'Outage',
+          description: 'All instances are down',
+          classification: { id: 'test-classification-id' },
+          priority: 'P2',
+        });
+        await vi.advanceTimersByTimeAsync(600000);
+
+        expect((await call).isError).toBe(true);
+        const posts = fetchMock.mock.calls.filter(([, init]: any) => init.method === 'POST');
+        expect(posts).toHaveLength(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    test('stops reconciling comments at the marker or the start of the creation window', async () => {
+      const fetchMock = global.fetch as any;
+      const now = Date.now();
+      const comment = (id: number, ageMs: number, body = 'Earlier comment') => ({
+        name: `${caseName}/comments/${id}`,
+        createTime: new Date(now - ageMs).toISOString(),
+        body,
+      });
+      fetchMock.mockRejectedValueOnce(new Error('ECONNRESET'));
+      // Newest first: a recent page without the marker, then a page reaching past the window
+      mockSuccessfulFetch({ comments: [comment(9, 1000)], nextPageToken: 'page-2' });
+      mockSuccessfulFetch({
+        comments: [comment(8, 2000), comment(7, 24 * 60 * 60 * 1000)],
+        nextPageToken: 'page-3',
+      });
+      mockSuccessfulFetch(mockApiResponses.comment);
+      const { CreateCaseCommentHandler: Handler } = await import(
+        '../src/handlers/create-case-comment-handler.js'
+      );
+
+      const result = await new Handler().handle({ parent: caseName, body: 'Any update?' });
+
+      expect(result.isError).toBe(false);
+      const calls = fetchMock.mock.calls.map(
+        ([url, init]: any) => `${init.method} ${new URL(url).searchParams.get('pageToken') ?? ''}`
+      );
+      expect(calls).toEqual(['POST ', 'GET ', 'GET page-2', 'POST ']);
+    });
+
+    test('returns the applied create found by reconciliation instead of resending it', async () => {
+      const fetchMock = global.fetch as any;
+      fetchMock.mockRejectedValueOnce(new Error('ECONNRESET'));
+      fetchMock.mockImplementationOnce(async () => {
+        // The failed POST was applied by the server: its marked body is listed
+        const { body } = JSON.parse(fetchMock.mock.calls[0][1].body);
+        return {
+          ok: true,
+          status: 200,
+          json: async () => ({
+            comments: [
+              { name: `${caseName}/comments/1`, createTime: new Date().toISOString(), body },
+            ],
+          }),
+        };
+      });
+      const { CreateCaseCommentHandler: Handler } = await import(
+        '../src/handlers/create-case-comment-handler.js'
+      );
+
+      const result = await new Handler().handle({ parent: caseName, body: 'Any update?' });
+
+      expect(result.isError).toBe(false);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(fetchMock.mock.calls[1][1].method).toBe('GET');
+      expect(fetchMock.mock.calls[1][0]).toContain(`/v2/${caseName}/comments`);
+      expect(result.structuredContent?.comment).toMatchObject({ name: `${caseName}/comments/1` });
+    });
+
+    test('resends a create with the same marker when reconciliation finds nothing', async () => {
+      const fetchMock = global.fetch as any;
+      fetchMock.mockRejectedValueOnce(new Error('ECONNRESET'));
+      mockSuccessfulFetch({
+        cases: [{ ...mockApiResponses.supportCase, description: 'Unrelated case' }],
+      });
+      mockSuccessfulFetch(mockApiResponses.supportCase);
+      const { CreateSupportCaseHandler: Handler } = await import(
+        '../src/handlers/create-support-case-handler.js'
+      );
+
+      const result = await new Handler().handle({
+        parent: 'projects/example-project',
+        displayName: 'Outage',
+        description: 'All instances are down',
+        classification: { id: 'test-classification-id' },
+        priority: 'P2',
+      });
+
+      expect(result.isError).toBe(false);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      const [firstPost, search, secondPost] = fetchMock.mock.calls;
+      expect(search[0]).toContain('/v2/projects/example-project/cases:search');
+      expect(decodeURIComponent(search[0])).toContain('update_time>');
+      expect(secondPost[1].body).toBe(firstPost[1].body);
+      expect(JSON.parse(firstPost[1].body).description).toMatch(
+        /^All instances are down\n\n\[mcp-request-id: [0-9a-f-]{36}\]$/
+      );
+    });
+
+    test('does not resend a create when reconciliation fails', async () => {
+      (global.fetch as any).mockRejectedValue(new Error('ECONNRESET'));
+      const { CreateCaseCommentHandler: Handler } = await import(
+        '../src/handlers/create-case-comment-handler.js'
+      );
+
+      const result = await new Handler().handle({ parent: caseName, body: 'Any update?' });
+
+      expect(result.isError).toBe(true);
+      const methods = (global.fetch as any).mock.calls.map(([, init]: any) => init.method);
+      expect(methods.filter((method: string) => method === 'POST')).toHaveLength(1);
+    });
+
+    test('preserves the Google error envelope and the server-supplied retry delay', async () => {
+      const rateLimited = (body: unknown, headers: Record<string, string>) => ({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: new Headers(headers),
+        text: async () => JSON.stringify(body),
+      });
+      const envelope = {
+        error: {
+          code: 429,
+          message: 'Quota exceeded',
+          status: 'RESOURCE_EXHAUSTED',
+          details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay: '2.5s' }],
+        },
+      };
+      (global.fetch as any)
+        .mockResolvedValueOnce(rateLimited(envelope, { 'Retry-After': '7' }))
+        .mockResolvedValueOnce(rateLimited({ error: { ...envelope.error, details: [] } }, {}))
+        .mockResolvedValueOnce(rateLimited('busy', { 'Retry-After': '7' }));
+      const { apiClient, ApiError } = await import('../src/api/index.js');
+
+      // RetryInfo takes precedence over Retry-After
+      const withRetryInfo = await apiClient.get(`/v2/${caseName}`).catch((error) => error);
+      expect(withRetryInfo).toBeInstanceOf(ApiError);
+      expect(withRetryInfo.response).toEqual(envelope);
+      expect(withRetryInfo.retryAfterMs).toBe(2500);
+
+      const withoutDelay = await apiClient.get(`/v2/${caseName}`).catch((error) => error);
+      expect(withoutDelay.retryAfterMs).toBeUndefined();
+
+      const withHeader = await apiClient.get(`/v2/${caseName}`).catch((error) => error);
+      expect(withHeader.response).toBe('"busy"');
+      expect(withHeader.retryAfterMs).toBe(7000);
+    });
+
+    test('waits for the server-supplied delay capped at maxDelay', async () => {
+      const { RetryMechanism, LIGHT_RETRY_CONFIG } = await import('../src/utils/retry.js');
+      const rateLimited = Object.assign(new Error('HTTP 429: Too Many Requests'), {
+        name: 'ApiError',
+        status: 429,
+        retryAfterMs: 60000,
+      });
+      const operation = vi.fn().mockRejectedValueOnce(rateLimited).mockResolvedValueOnce('ok');
+
+      const startTime = Date.now();
+      await expect(
+        RetryMechanism.execute(operation, 'test operation', {
+          ...LIGHT_RETRY_CONFIG,
+          initialDelay: 0,
+          maxDelay: 50,
+        })
+      ).resolves.toBe('ok');
+
+      expect(operation).toHaveBeenCalledTimes(2);
+      expect(Date.now() - startTime).toBeGreaterThanOrEqual(45);
+      expect(Date.now() - startTime).toBeLessThan(1000);
+    });
+
+    test('reports errors through the common pipeline with the configured operation name', async () => {
+      const { CloseSupportCaseHandler: Handler } = await import(
+        '../src/handlers/close-support-case-handler.js'
+      );
+
+      const result = await new Handler().handle({} as any);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toMatch(/^Error closing support case: /);
+      expect(result.content[0].text).toContain('Debug info');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('API Error Details', () => {
+    const envelope = {
+      error: {
+        code: 400,
+        message: 'Request contains an invalid argument.',
+        status: 'INVALID_ARGUMENT',
+        details: [
+          {
+            '@type': 'type.googleapis.com/google.rpc.BadRequest',
+            fieldViolations: [
+              { field: 'case.classification.id', description: 'Unknown classification: 42' },
+            ],
+          },
+          {
+            '@type': 'type.googleapis.com/google.rpc.ErrorInfo',
+            reason: 'INVALID_CLASSIFICATION',
+            domain: 'cloudsupport.googleapis.com',
+            metadata: { consumer: 'projects/123456' },
+          },
+          {
+            '@type': 'type.googleapis.com/google.rpc.Help',
+            links: [{ description: 'Case classifications', url: 'https://example.com/help' }],
+          },
+        ],
+      },
+    };
+    const createArgs = {
+      parent: 'projects/example-project',
+      displayName: 'Outage',
+      description: 'All instances are down',
+      classification: { id: '42' },
+      priority: 'P2' as const,
+    };
+
+    beforeEach(() => {
+      mockAuthHeaders();
+      (global.fetch as any).mockResolvedValue({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        headers: new Headers(),
+        text: async () => JSON.stringify(envelope),
+      });
+    });
+
+    afterEach(() => {
+      vi.doUnmock('../src/api/auth.js');
+      process.env.NODE_ENV = 'test';
+    });
+
+    test('parses the google.rpc.Status body into typed details', async () => {
+      const { apiClient } = await import('../src/api/index.js');
+
+      const error = await apiClient.get('/v2/projects/example-project/cases').catch((e) => e);
+
+      expect(error.message).toBe('HTTP 400: Bad Request - Request contains an invalid argument.');
+      expect(error.statusText).toBe('Bad Request');
+      expect(error.details).toEqual({
+        code: 400,
+        status: 'INVALID_ARGUMENT',
+        message: 'Request contains an invalid argument.',
+        reason: 'INVALID_CLASSIFICATION',
+        domain: 'cloudsupport.googleapis.com',
+        metadata: { consumer: 'projects/123456' },
+        fieldViolations: [
+          { field: 'case.classification.id', description: 'Unknown classification: 42' },
+        ],
+        helpLinks: [{ description: 'Case classifications', url: 'https://example.com/help' }],
+      });
+    });
+
+    test('surfaces field violations, reason and help links in tool errors', async () => {
+      const { CreateSupportCaseHandler: Handler } = await import(
+        '../src/handlers/create-support-case-handler.js'
+      );
+
+      const result = await new Handler().handle(createArgs);
+      const text = result.content[0].text;
+
+      expect(result.isError).toBe(true);
+      expect(text).toMatch(
+        /^Error creating support case: HTTP 400: Bad Request - Request contains an invalid argument\./
+      );
+      expect(text).toContain(
+        'Field violations:\n- case.classification.id: Unknown classification: 42'
+      );
+      expect(text).toContain(
+        'Reason: INVALID_CLASSIFICATION (cloudsupport.googleapis.com)\n- consumer: projects/123456'
+      );
+      expect(text).toContain('Help:\n- Case classifications: https://example.com/help');
+    });
+
+    test('keeps field violations but omits ErrorInfo metadata in production', async () => {
+      process.env.NODE_ENV = 'production';
+      const { CreateSupportCaseHandler: Handler } = await import(
+        '../src/handlers/create-support-case-handler.js'
+      );
+
+      const text = (await new Handler().handle(createArgs)).content[0].text;
+
+      expect(text).toMatch(/^Error creating support case: The provided data is invalid/);
+      expect(text).toContain('- case.classification.id: Unknown classification: 42');
+      expect(text).not.toContain('projects/123456');
+    });
+  });
+
   describe('Error Handling', () => {
     test('tools handle API errors gracefully', async () => {
       global.fetch = vi.fn().mockRejectedValue(new Error('API Error'));
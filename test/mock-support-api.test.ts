@@ -0,0 +1,388 @@
+/**
+ * Mock Support API Tests
+ *
+ * Runs the tool handlers end-to-end (real fetch, fake authentication) against
+ * the in-process mock Support API
+ */
+
+import { describe, test, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  type CallToolResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  apiClient,
+  clearCredentialCache,
+  resetAuthConfig,
+  CloudSupportApiClient,
+} from '../src/api/index.js';
+import { MockSupportApiServer, MOCK_PROJECT_ID } from '../src/mock/mock-support-api.js';
+import { resolveTransportConfig } from '../src/transport/transport-config.js';
+import type { MCPResponse } from '../src/handlers/base-handler.js';
+import { ListSupportCasesHandler } from '../src/handlers/list-support-cases-handler.js';
+import { CreateSupportCaseHandler } from '../src/handlers/create-support-case-handler.js';
+import { GetSupportCaseHandler } from '../src/handlers/get-support-case-handler.js';
+import { CloseSupportCaseHandler } from '../src/handlers/close-support-case-handler.js';
+import { EscalateSupportCaseHandler } from '../src/handlers/escalate-support-case-handler.js';
+import { CreateCaseCommentHandler } from '../src/handlers/create-case-comment-handler.js';
+import { GetCaseCommentsHandler } from '../src/handlers/get-case-comments-handler.js';
+import { SearchSupportCasesHandler } from '../src/handlers/search-support-cases-handler.js';
+import { SearchCaseClassificationsHandler } from '../src/handlers/search-case-classifications-handler.js';
+import { ListCaseAttachmentsHandler } from '../src/handlers/list-case-attachments-handler.js';
+import { UploadCaseAttachmentHandler } from '../src/handlers/upload-case-attachment-handler.js';
+import { WhoamiHandler } from '../src/handlers/whoami-handler.js';
+import { UpdateSupportCaseHandler } from '../src/handlers/update-support-case-handler.js';
+import { DownloadCaseAttachmentHandler } from '../src/handlers/download-case-attachment-handler.js';
+import { GetCaseTimelineHandler } from '../src/handlers/get-case-timeline-handler.js';
+import { ShowCaseFeedHandler } from '../src/handlers/show-case-feed-handler.js';
+import { getToolDefinitions } from '../src/tools/index.js';
+import { TypeSafeToolDispatcher } from '../src/utils/tool-dispatcher.js';
+import type { SupportedToolName } from '../src/types/index.js';
+
+const PARENT = `projects/${MOCK_PROJECT_ID}`;
+
+/**
+ * Parse JSON payload of a successful tool response
+ */
+function parseResult<T = any>(result: MCPResponse): T {
+  expect(result.isError, result.content[0].text).toBeFalsy();
+  return JSON.parse(result.content[0].text) as T;
+}
+
+/**
+ * Connect an MCP client to a server exposing all tools
+ * The SDK client validates structuredContent against each tool's outputSchema
+ */
+async function connectToolClient(): Promise<Client> {
+  const dispatcher = new TypeSafeToolDispatcher({
+    list_support_cases: new ListSupportCasesHandler(),
+    get_support_case: new GetSupportCaseHandler(),
+    get_case_comments: new GetCaseCommentsHandler(),
+    search_support_cases: new SearchSupportCasesHandler(),
+    create_support_case: new CreateSupportCaseHandler(),
+    update_support_case: new UpdateSupportCaseHandler(),
+    close_support_case: new CloseSupportCaseHandler(),
+    escalate_support_case: new EscalateSupportCaseHandler(),
+    create_case_comment: new CreateCaseCommentHandler(),
+    list_case_attachments: new ListCaseAttachmentsHandler(),
+    upload_case_attachment: new UploadCaseAttachmentHandler(),
+    download_case_attachment: new DownloadCaseAttachmentHandler(),
+    search_case_classifications: new SearchCaseClassificationsHandler(),
+    get_case_timeline: new GetCaseTimelineHandler(),
+    show_case_feed: new ShowCaseFeedHandler(),
+    whoami: new WhoamiHandler(),
+  });
+  const server = new Server({ name: 'test', version: '0' }, { capabilities: { tools: {} } });
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [...getToolDefinitions()],
+  }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) =>
+    dispatcher.executeToolSafely(request.params.name as SupportedToolName, request.params.arguments)
+  );
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'test-client', version: '0' });
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+describe('Mock Support API', () => {
+  const mockServer = new MockSupportApiServer();
+
+  beforeAll(async () => {
+    process.env.CLOUD_SUPPORT_API_BASE_URL = await mockServer.start();
+    process.env.CLOUD_SUPPORT_AUTH_METHOD = 'fake';
+    resetAuthConfig();
+    clearCredentialCache();
+  });
+
+  afterAll(async () => {
+    await mockServer.close();
+    delete process.env.CLOUD_SUPPORT_API_BASE_URL;
+    delete process.env.CLOUD_SUPPORT_AUTH_METHOD;
+    resetAuthConfig();
+    clearCredentialCache();
+  });
+
+  beforeEach(() => {
+    mockServer.reset();
+  });
+
+  test('fake authentication reports the mock identity', async () => {
+    const identity = parseResult(await new WhoamiHandler().handle());
+
+    expect(identity).toMatchObject({
+      method: 'fake',
+      principal: 'mock-user@example.com',
+      quotaProject: MOCK_PROJECT_ID,
+    });
+  });
+
+  test('lists seeded cases and follows pagination', async () => {
+    const handler = new ListSupportCasesHandler();
+
+    const firstPage = parseResult(await handler.handle({ parent: PARENT, pageSize: 1 }));
+    expect(firstPage.cases).toHaveLength(1);
+    expect(firstPage.nextPageToken).toBeDefined();
+
+    const secondPage = parseResult(
+      await handler.handle({ parent: PARENT, pageSize: 1, pageToken: firstPage.nextPageToken })
+    );
+    expect(secondPage.cases).toHaveLength(1);
+    expect(secondPage.cases[0].name).not.toBe(firstPage.cases[0].name);
+
+    const all = parseResult(await handler.handle({ parent: PARENT, pageSize: 1, fetchAll: true }));
+    expect(all.cases).toHaveLength(2);
+  });
+
+  test('creates, comments on, escalates and closes a case', async () => {
+    const classifications = parseResult(
+      await new SearchCaseClassificationsHandler().handle({
+        query: 'displayName:"*Cloud SQL*"',
+      })
+    );
+    expect(classifications.caseClassifications).toHaveLength(1);
+
+    const created = parseResult(
+      await new CreateSupportCaseHandler().handle({
+        parent: PARENT,
+        displayName: 'Replica lag keeps growing',
+        description: 'Read replica lag exceeds 10 minutes since the last maintenance.',
+        classification: { id: '100004' },
+        priority: 'P2',
+      })
+    );
+    const name: string = created.case.name;
+    expect(name).toMatch(new RegExp(`^${PARENT}/cases/\\d+$`));
+
+    parseResult(
+      await new CreateCaseCommentHandler().handle({ parent: name, body: 'Lag is now 20 minutes.' })
+    );
+    const comments = parseResult(await new GetCaseCommentsHandler().handle({ name }));
+    // Sent comments end with the idempotency marker of the create call
+    expect(comments.comments.map((comment: { body: string }) => comment.body)).toEqual([
+      expect.stringMatching(/^Lag is now 20 minutes\.\n\n\[mcp-request-id: [0-9a-f-]{36}\]$/),
+    ]);
+
+    parseResult(
+      await new EscalateSupportCaseHandler().handle({
+        name,
+        reason: 'BUSINESS_IMPACT',
+        justification: 'Production reads are stale.',
+      })
+    );
+    parseResult(await new CloseSupportCaseHandler().handle({ name }));
+
+    const case_ = parseResult(await new GetSupportCaseHandler().handle({ name }));
+    expect(JSON.stringify(case_)).toContain('"CLOSED"');
+    expect(
+      mockServer.requests.some(
+        (request) => request.method === 'POST' && request.path.endsWith(':escalate')
+      )
+    ).toBe(true);
+  });
+
+  test('searches cases by state and free text', async () => {
+    const handler = new SearchSupportCasesHandler();
+
+    const open = parseResult(await handler.handle({ parent: PARENT, state: 'OPEN' }));
+    expect(open.cases.map((case_: { state: string }) => case_.state)).toEqual([
+      'IN_PROGRESS_GOOGLE_SUPPORT',
+    ]);
+
+    const invoices = parseResult(await handler.handle({ parent: PARENT, query: 'invoice' }));
+    expect(invoices.cases).toHaveLength(1);
+    expect(invoices.cases[0].displayName).toContain('Invoice');
+  });
+
+  test('uploads and lists attachments', async () => {
+    const [case_] = parseResult(
+      await new ListSupportCasesHandler().handle({ parent: PARENT, pageSize: 1 })
+    ).cases;
+
+    parseResult(
+      await new UploadCaseAttachmentHandler().handle({
+        parent: case_.name,
+        filename: 'trace.log',
+        content: Buffer.from('panic: out of memory').toString('base64'),
+      })
+    );
+
+    const attachments = parseResult(
+      await new ListCaseAttachmentsHandler().handle({ parent: case_.name })
+    );
+    expect(attachments.attachments).toHaveLength(1);
+    expect(attachments.attachments[0]).toMatchObject({
+      filename: 'trace.log',
+      sizeBytes: String('panic: out of memory'.length),
+    });
+  });
+
+  test('injected errors surface as tool errors', async () => {
+    mockServer.injectError({ method: 'GET', path: '/cases', status: 403, message: 'Denied' });
+
+    const result = await new ListSupportCasesHandler().handle({ parent: PARENT });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('HTTP 403');
+
+    // The injection is consumed
+    parseResult(await new ListSupportCasesHandler().handle({ parent: PARENT }));
+  });
+
+  test('invalid arguments report their field violations', async () => {
+    const result = await new CreateSupportCaseHandler().handle({
+      parent: PARENT,
+      displayName: 'Replica lag keeps growing',
+      description: 'Read replica lag exceeds 10 minutes.',
+      classification: { id: '999999' },
+      priority: 'P3',
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain(
+      'Field violations:\n- case.classification.id: Unknown classification: 999999'
+    );
+  });
+
+  test('rate-limited reads are retried after the server-supplied delay', async () => {
+    mockServer.injectError({
+      method: 'GET',
+      path: '/cases',
+      status: 429,
+      message: 'Quota exceeded',
+      retryDelay: '1s',
+    });
+
+    const startTime = Date.now();
+    const result = await new ListSupportCasesHandler().handle({ parent: PARENT });
+
+    expect(result.isError).toBe(false);
+    // RetryInfo (1s) is used instead of the default backoff (0.5s)
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(1000);
+  });
+
+  test('unknown cases and unauthenticated requests are rejected', async () => {
+    const result = await new GetSupportCaseHandler().handle({
+      name: `${PARENT}/cases/999999`,
+    });
+    expect(result.isError).toBe(true);
+
+    const response = await fetch(`${mockServer.baseUrl}/v2/${PARENT}/cases`);
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ error: { status: 'UNAUTHENTICATED' } });
+  });
+
+  test('explicit client base URL takes precedence over the environment', () => {
+    const client = new CloudSupportApiClient('http://127.0.0.1:1/');
+
+    expect(client.baseUrl).toBe('http://127.0.0.1:1');
+    expect(new CloudSupportApiClient().baseUrl).toBe(mockServer.baseUrl);
+  });
+
+  test('every tool returns structuredContent conforming to its outputSchema', async () => {
+    const downloadDir = await mkdtemp(join(tmpdir(), 'structured-output-'));
+    process.env.CLOUD_SUPPORT_DOWNLOAD_DIR = downloadDir;
+    const client = await connectToolClient();
+
+    try {
+      const { tools } = await client.listTools();
+      for (const tool of tools) {
+        expect(tool.outputSchema, tool.name).toBeDefined();
+      }
+
+      const called = new Set<string>();
+      const call = async (name: string, args: Record<string, unknown> = {}) => {
+        // callTool throws when structuredContent does not match the outputSchema
+        const result = (await client.callTool({ name, arguments: args })) as CallToolResult;
+        expect(result.isError, result.content[0]?.text as string).toBeFalsy();
+        expect(result.structuredContent).toEqual(
+          JSON.parse((result.content[0] as { text: string }).text)
+        );
+        called.add(name);
+        return result.structuredContent as Record<string, any>;
+      };
+
+      await call('whoami');
+      await call('list_support_cases', { parent: PARENT });
+      await call('search_support_cases', { parent: PARENT, query: 'invoice' });
+      await call('search_case_classifications', { query: 'displayName:"*Cloud SQL*"' });
+
+      const caseArgs = {
+        parent: PARENT,
+        displayName: 'Replica lag keeps growing',
+        description: 'Read replica lag exceeds 10 minutes since the last maintenance.',
+        classification: { id: '100004' },
+        priority: 'P2',
+      };
+      expect(await call('create_support_case', { ...caseArgs, dryRun: true })).toMatchObject({
+        dryRun: true,
+        request: { method: 'POST' },
+      });
+      const name: string = (await call('create_support_case', caseArgs)).case.name;
+
+      await call('get_support_case', { name });
+      await call('update_support_case', { name, displayName: 'Replica lag above 20 minutes' });
+      await call('create_case_comment', { parent: name, body: 'Lag is now 20 minutes.' });
+      await call('get_case_comments', { name });
+      const uploaded = await call('upload_case_attachment', {
+        parent: name,
+        filename: 'trace.log',
+        content: Buffer.from('panic: out of memory').toString('base64'),
+      });
+      await call('list_case_attachments', { parent: name, fetchAll: true });
+      await call('download_case_attachment', { name: uploaded.attachment.name });
+      await call('get_case_timeline', { name });
+      await call('show_case_feed', { name });
+      await call('escalate_support_case', {
+        name,
+        reason: 'BUSINESS_IMPACT',
+        justification: 'Production reads are stale.',
+      });
+      await call('close_support_case', { name });
+
+      expect([...called].sort()).toEqual([...new Set(tools.map((tool) => tool.name))].sort());
+    } finally {
+      await client.close();
+      delete process.env.CLOUD_SUPPORT_DOWNLOAD_DIR;
+      await rm(downloadDir, { recursive: true, force: true });
+    }
+  });
+
+  test('dry-run previews with a raw string body conform to the outputSchema', async () => {
+    const previewRequest = apiClient.previewRequest.bind(apiClient);
+    const spy = vi
+      .spyOn(apiClient, 'previewRequest')
+      .mockImplementation((endpoint, options = {}) =>
+        previewRequest(endpoint, { ...options, body: JSON.stringify(options.body) })
+      );
+    const client = await connectToolClient();
+
+    try {
+      // callTool throws when structuredContent does not match the listed outputSchema
+      await client.listTools();
+      const result = (await client.callTool({
+        name: 'close_support_case',
+        arguments: { name: `${PARENT}/cases/1`, dryRun: true },
+      })) as CallToolResult;
+
+      expect(result.isError).toBeFalsy();
+      expect(result.structuredContent).toMatchObject({ dryRun: true, request: { body: '{}' } });
+    } finally {
+      spy.mockRestore();
+      await client.close();
+    }
+  });
+
+  test('--mock flag enables mock mode', () => {
+    expect(resolveTransportConfig(['--mock'], {}).mock).toBe(true);
+    expect(resolveTransportConfig([], { CLOUD_SUPPORT_MOCK: 'true' }).mock).toBe(true);
+  });
+});
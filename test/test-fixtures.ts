@@ -21,6 +21,28 @@ export function setupCommonMocks() {
   global.fetch = vi.fn();
 }
 
+/**
+ * Mock authentication module so API calls do not depend on local credentials
+ * Modules that use it must be imported dynamically after calling this
+ */
+export function mockAuthHeaders() {
+  vi.doMock('../src/api/auth.js', () => ({
+    getAuthHeaders: vi.fn().mockResolvedValue({
+      Authorization: 'Bearer mock-access-token',
+      'Content-Type': 'application/json',
+      'X-Goog-User-Project': 'example-project',
+    }),
+    getCurrentProjectId: vi.fn().mockResolvedValue('example-project'),
+    invalidateAccessToken: vi.fn(),
+    getAuthIdentity: vi.fn().mockResolvedValue({
+      method: 'gcloud-cli',
+      principal: 'user@example.com',
+      quotaProject: 'example-project',
+      allowFallback: true,
+    }),
+  }));
+}
+
 /**
  * Mock successful fetch response
  */